@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { WorkshopControl } from './components/WorkshopControl';
 import { ImageAnalyzer } from './components/ImageAnalyzer';
 import { ResearchAssistant } from './components/ResearchAssistant';
+import { AuthStatus } from './components/AuthStatus';
 import { ToolsIcon, ImageIcon, SearchIcon, BotIcon } from './components/Icons';
 
 type Tab = 'workshop' | 'analyzer' | 'research';
@@ -46,6 +47,7 @@ const App: React.FC = () => {
                     Workshop AI Controller
                 </h1>
             </div>
+            <AuthStatus />
         </div>
         <nav className="max-w-7xl mx-auto mt-4 flex justify-center sm:justify-start border-b border-gray-700">
           <NavButton tabName="workshop" icon={<ToolsIcon />} label="Control Panel" />
@@ -0,0 +1,182 @@
+import React from 'react';
+import { Device, DeviceAction, Scene } from '../types';
+import { ACTION_DEVICE_KINDS, ACTION_LABELS } from '../services/actions';
+
+const rgbToHex = ({ r, g, b }: { r: number; g: number; b: number }) => `#${[r, g, b].map(x => x.toString(16).padStart(2, '0')).join('')}`;
+const hexToRgb = (hex: string) => ({
+    r: parseInt(hex.slice(1, 3), 16),
+    g: parseInt(hex.slice(3, 5), 16),
+    b: parseInt(hex.slice(5, 7), 16),
+});
+
+const selectClassName = "bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+
+/** A new action of the given type, aimed at the first matching device or scene. */
+export const defaultAction = (type: DeviceAction['type'], devices: Device[], scenes: Scene[]): DeviceAction => {
+    const deviceId = devices.find(device => device.kind === ACTION_DEVICE_KINDS[type])?.id ?? '';
+    switch (type) {
+        case 'dustCollector': return { type, deviceId, power: 'on' };
+        case 'light': return { type, deviceId, power: 'on' };
+        case 'flashLight': return { type, deviceId, color: { r: 255, g: 0, b: 0 }, times: 3 };
+        case 'scene': return { type, sceneId: scenes[0]?.id ?? '' };
+        case 'cnc': return { type, deviceId, command: 'pause' };
+    }
+};
+
+const formatDelay = (seconds?: number) => {
+    if (!seconds) return '';
+    return seconds % 60 === 0 ? ` after ${seconds / 60} min` : ` after ${seconds} s`;
+};
+
+/** One-line summary such as "Dust Collector off after 2 min". */
+export const describeAction = (action: DeviceAction, devices: Device[], scenes: Scene[]) => {
+    const delay = formatDelay(action.delaySeconds);
+    if (action.type === 'scene') {
+        return `Scene "${scenes.find(scene => scene.id === action.sceneId)?.name ?? 'deleted scene'}"${delay}`;
+    }
+    const name = devices.find(device => device.id === action.deviceId)?.name ?? 'removed device';
+    switch (action.type) {
+        case 'dustCollector': return `${name} ${action.power}${delay}`;
+        case 'light': return `${name} ${[action.power, action.color && rgbToHex(action.color)].filter(Boolean).join(' ')}${delay}`;
+        case 'flashLight': return `Flash ${name} ${rgbToHex(action.color)} ×${action.times ?? 3}${delay}`;
+        case 'cnc': return `${name}: ${action.command}${delay}`;
+    }
+};
+
+export const ActionListEditor: React.FC<{
+    actions: DeviceAction[];
+    devices: Device[];
+    scenes: Scene[];
+    disabled?: boolean;
+    onChange: (actions: DeviceAction[]) => void;
+}> = ({ actions, devices, scenes, disabled, onChange }) => {
+    const replace = (index: number, action: DeviceAction) => onChange(actions.map((a, i) => (i === index ? action : a)));
+    // Spreading keeps the type-specific fields; the cast is needed because TypeScript cannot narrow the union here.
+    const patch = (index: number, changes: Record<string, unknown>) => replace(index, { ...actions[index], ...changes } as DeviceAction);
+
+    const renderFields = (action: DeviceAction, index: number) => {
+        switch (action.type) {
+            case 'dustCollector':
+                return (
+                    <select value={action.power} onChange={(e) => patch(index, { power: e.target.value })} disabled={disabled} className={selectClassName} aria-label="Power">
+                        <option value="on">on</option>
+                        <option value="off">off</option>
+                    </select>
+                );
+            case 'light':
+                return (
+                    <>
+                        <select
+                            value={action.power ?? ''}
+                            onChange={(e) => patch(index, { power: e.target.value || undefined })}
+                            disabled={disabled}
+                            className={selectClassName}
+                            aria-label="Power"
+                        >
+                            <option value="">keep power</option>
+                            <option value="on">on</option>
+                            <option value="off">off</option>
+                        </select>
+                        <label className="flex items-center gap-1 text-xs text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={Boolean(action.color)}
+                                onChange={(e) => patch(index, { color: e.target.checked ? { r: 255, g: 255, b: 255 } : undefined })}
+                                disabled={disabled}
+                            />
+                            color
+                        </label>
+                        {action.color && (
+                            <input type="color" value={rgbToHex(action.color)} onChange={(e) => patch(index, { color: hexToRgb(e.target.value) })} disabled={disabled} aria-label="Color" />
+                        )}
+                    </>
+                );
+            case 'flashLight':
+                return (
+                    <>
+                        <input type="color" value={rgbToHex(action.color)} onChange={(e) => patch(index, { color: hexToRgb(e.target.value) })} disabled={disabled} aria-label="Flash color" />
+                        <input
+                            type="number"
+                            min={1}
+                            max={10}
+                            value={action.times ?? 3}
+                            onChange={(e) => patch(index, { times: parseInt(e.target.value) || 1 })}
+                            disabled={disabled}
+                            className={`${selectClassName} w-14`}
+                            aria-label="Number of flashes"
+                        />
+                    </>
+                );
+            case 'cnc':
+                return (
+                    <select value={action.command} onChange={(e) => patch(index, { command: e.target.value })} disabled={disabled} className={selectClassName} aria-label="Command">
+                        <option value="play">play</option>
+                        <option value="pause">pause</option>
+                        <option value="stop">stop</option>
+                    </select>
+                );
+            default:
+                return null;
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            {actions.map((action, index) => {
+                const kind = ACTION_DEVICE_KINDS[action.type];
+                return (
+                    <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-md bg-gray-900/50">
+                        <select
+                            value={action.type}
+                            onChange={(e) => replace(index, { ...defaultAction(e.target.value as DeviceAction['type'], devices, scenes), delaySeconds: action.delaySeconds })}
+                            disabled={disabled}
+                            className={selectClassName}
+                            aria-label="Action"
+                        >
+                            {(Object.keys(ACTION_LABELS) as DeviceAction['type'][]).map(type => <option key={type} value={type}>{ACTION_LABELS[type]}</option>)}
+                        </select>
+                        {action.type === 'scene' ? (
+                            <select value={action.sceneId} onChange={(e) => patch(index, { sceneId: e.target.value })} disabled={disabled} className={selectClassName} aria-label="Scene">
+                                {scenes.length === 0 && <option value="">No scenes saved</option>}
+                                {scenes.map(scene => <option key={scene.id} value={scene.id}>{scene.name}</option>)}
+                            </select>
+                        ) : (
+                            <select value={action.deviceId} onChange={(e) => patch(index, { deviceId: e.target.value })} disabled={disabled} className={selectClassName} aria-label="Device">
+                                {devices.filter(device => device.kind === kind).map(device => <option key={device.id} value={device.id}>{device.name}</option>)}
+                            </select>
+                        )}
+                        {renderFields(action, index)}
+                        <label className="flex items-center gap-1 text-xs text-gray-400 ml-auto">
+                            after
+                            <input
+                                type="number"
+                                min={0}
+                                value={action.delaySeconds ?? 0}
+                                onChange={(e) => patch(index, { delaySeconds: Math.max(0, parseInt(e.target.value) || 0) })}
+                                disabled={disabled}
+                                className={`${selectClassName} w-20`}
+                            />
+                            s
+                        </label>
+                        <button
+                            type="button"
+                            onClick={() => onChange(actions.filter((_, i) => i !== index))}
+                            disabled={disabled}
+                            className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                        >
+                            Remove
+                        </button>
+                    </div>
+                );
+            })}
+            <button
+                type="button"
+                onClick={() => onChange([...actions, defaultAction('dustCollector', devices, scenes)])}
+                disabled={disabled}
+                className="self-start text-xs font-semibold text-cyan-400 hover:text-cyan-300 disabled:opacity-50"
+            >
+                + Add action
+            </button>
+        </div>
+    );
+};
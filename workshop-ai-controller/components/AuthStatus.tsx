@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AuthStatus as AuthStatusState, getAuthStatus, signIn, signOut } from '../services/auth';
+import { KeyIcon, UserIcon } from './Icons';
+
+// Sign-in state indicator for the app header.
+export const AuthStatus: React.FC = () => {
+    const [auth, setAuth] = useState<AuthStatusState | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState('');
+
+    const refreshStatus = useCallback(async () => {
+        try {
+            setAuth(await getAuthStatus());
+            setError('');
+        } catch (err: any) {
+            console.error("Failed to read sign-in status:", err);
+            setAuth(null);
+            setError('Backend unavailable');
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshStatus();
+    }, [refreshStatus]);
+
+    // Re-check before the access token expires so an expired sign-in shows up without a reload.
+    useEffect(() => {
+        if (!auth?.signedIn || !auth.expiresAt) return;
+        const delay = Math.max(auth.expiresAt - Date.now(), 30_000);
+        const timeoutId = setTimeout(refreshStatus, delay);
+        return () => clearTimeout(timeoutId);
+    }, [auth, refreshStatus]);
+
+    const handleSignIn = async () => {
+        setIsBusy(true);
+        setError('');
+        try {
+            await signIn();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            await refreshStatus();
+            setIsBusy(false);
+        }
+    };
+
+    const handleSignOut = async () => {
+        setIsBusy(true);
+        try {
+            await signOut();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            await refreshStatus();
+            setIsBusy(false);
+        }
+    };
+
+    if (auth?.signedIn && auth.user) {
+        return (
+            <div className="flex items-center gap-3">
+                <div className="flex items-center gap-2 min-w-0" title={auth.user.email ?? auth.user.name}>
+                    {auth.user.picture ? (
+                        <img src={auth.user.picture} alt="" className="w-7 h-7 rounded-full" referrerPolicy="no-referrer" />
+                    ) : (
+                        <span className="w-7 h-7 rounded-full bg-gray-600 flex items-center justify-center"><UserIcon className="w-4 h-4" /></span>
+                    )}
+                    <span className="hidden sm:flex items-center gap-1.5 text-xs font-semibold text-green-400 truncate max-w-[12rem]">
+                        <span className="w-2 h-2 rounded-full bg-green-400"></span>
+                        {auth.user.email ?? auth.user.name}
+                    </span>
+                </div>
+                <button onClick={handleSignOut} disabled={isBusy} className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50">
+                    Sign out
+                </button>
+            </div>
+        );
+    }
+
+    const isUnavailable = !auth || !auth.configured;
+    return (
+        <div className="flex items-center gap-3">
+            {error ? (
+                <span className="hidden sm:inline text-xs font-semibold text-red-400 truncate max-w-[14rem]" title={error}>{error}</span>
+            ) : (
+                <span className="hidden sm:flex items-center gap-1.5 text-xs font-semibold text-gray-400">
+                    <span className="w-2 h-2 rounded-full bg-gray-500"></span>
+                    {auth && !auth.configured ? 'Sign-in not configured' : 'Signed out'}
+                </span>
+            )}
+            <button
+                onClick={handleSignIn}
+                disabled={isBusy || isUnavailable}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                <KeyIcon className="w-4 h-4" />
+                {isBusy ? 'Signing in...' : 'Sign in'}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,194 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { CameraState, Device } from '../types';
+import { PowerIcon, CameraIcon, StopCircleIcon } from './Icons';
+
+export const CameraCard: React.FC<{
+    device: Device;
+    camera: CameraState;
+    onChange: (changes: Partial<CameraState>) => void;
+}> = ({ device, camera, onChange }) => {
+    const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+    const [zoomLevel, setZoomLevel] = useState(1);
+    const [zoomCapabilities, setZoomCapabilities] = useState<{ min: number; max: number; step: number; } | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+    const recordedChunksRef = useRef<Blob[]>([]);
+
+    // Effect to manage camera stream based on power state
+    useEffect(() => {
+        const manageCameraStream = async () => {
+            if (camera.power) {
+                try {
+                    // The registry address, when set, pins a specific local camera by its media deviceId.
+                    const video = device.address ? { deviceId: { exact: device.address } } : true;
+                    const stream = await navigator.mediaDevices.getUserMedia({ video, audio: true });
+                    setCameraStream(stream);
+                    const track = stream.getVideoTracks()[0];
+                    if (track) {
+                        const capabilities = track.getCapabilities();
+                        // @ts-ignore
+                        if (capabilities.zoom) {
+                            // @ts-ignore
+                            const { min, max, step } = capabilities.zoom;
+                            setZoomCapabilities({ min, max, step });
+                             // @ts-ignore
+                            const currentSettings = track.getSettings();
+                             // @ts-ignore
+                            setZoomLevel(currentSettings.zoom || 1);
+                        }
+                    }
+                } catch (err) {
+                    console.error("Error accessing camera:", err);
+                    alert(`Could not access ${device.name}. Please check permissions.`);
+                    onChange({ power: false }); // Revert state on error
+                }
+            } else {
+                if (cameraStream) {
+                    cameraStream.getTracks().forEach(track => track.stop());
+                    setCameraStream(null);
+                }
+                 if (camera.recording) {
+                    onChange({ recording: false });
+                }
+                setZoomCapabilities(null);
+                setZoomLevel(1);
+            }
+        };
+
+        manageCameraStream();
+
+        return () => {
+            if (cameraStream) {
+                cameraStream.getTracks().forEach(track => track.stop());
+            }
+        };
+    }, [camera.power, device.address]);
+
+    // Effect to attach stream to video element
+    useEffect(() => {
+        if (videoRef.current) {
+            videoRef.current.srcObject = cameraStream;
+        }
+    }, [cameraStream]);
+
+    // Effect to handle recording logic
+    useEffect(() => {
+        if (camera.recording && cameraStream) {
+            recordedChunksRef.current = [];
+            const options = { mimeType: 'video/webm; codecs=vp9' };
+            let recorder: MediaRecorder;
+             try {
+                recorder = new MediaRecorder(cameraStream, options);
+            } catch (e) {
+                console.warn('VP9 codec not supported, falling back.');
+                recorder = new MediaRecorder(cameraStream);
+            }
+
+            mediaRecorderRef.current = recorder;
+
+            mediaRecorderRef.current.ondataavailable = (event) => {
+                if (event.data.size > 0) {
+                    recordedChunksRef.current.push(event.data);
+                }
+            };
+
+            mediaRecorderRef.current.onstop = () => {
+                const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
+                const url = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                document.body.appendChild(a);
+                a.style.display = 'none';
+                a.href = url;
+                const timestamp = new Date().toISOString().replace(/:/g, '-');
+                a.download = `workshop-recording-${timestamp}.webm`;
+                a.click();
+                window.URL.revokeObjectURL(url);
+                a.remove();
+                recordedChunksRef.current = [];
+            };
+
+            mediaRecorderRef.current.start();
+        } else {
+            if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+                mediaRecorderRef.current.stop();
+            }
+        }
+
+        return () => {
+            if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+                mediaRecorderRef.current.stop();
+            }
+        };
+    }, [camera.recording, cameraStream]);
+
+    const handleZoomChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!cameraStream) return;
+        const track = cameraStream.getVideoTracks()[0];
+        if (track) {
+            try {
+                const newZoom = parseFloat(e.target.value);
+                // @ts-ignore
+                await track.applyConstraints({ advanced: [{ zoom: newZoom }] });
+                setZoomLevel(newZoom);
+            } catch (err) {
+                console.error("Failed to apply zoom:", err);
+            }
+        }
+    }, [cameraStream]);
+
+    const zoomSliderId = `zoom-slider-${device.id}`;
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-6 shadow-lg">
+            <div className="flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">{device.name}</h3>
+                <CameraIcon className={`w-6 h-6 transition-colors ${camera.power ? 'text-cyan-400' : 'text-gray-600'}`} />
+            </div>
+             <p className="text-gray-400 mt-2">Overhead camera for monitoring and recording.</p>
+            <div className="relative mt-4 aspect-video bg-black rounded-md flex items-center justify-center border border-gray-700">
+                {camera.power ? (
+                    <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover rounded-md"></video>
+                ) : (
+                    <div className="text-gray-500 flex flex-col items-center gap-2">
+                        <CameraIcon className="w-10 h-10" />
+                        <p>Camera is Off</p>
+                    </div>
+                )}
+                {camera.recording && (
+                    <div className="absolute top-3 left-3 flex items-center gap-2 bg-red-600/80 text-white text-xs font-bold px-2 py-1 rounded-full">
+                        <span className="w-2 h-2 bg-red-400 rounded-full animate-pulse"></span>
+                        REC
+                    </div>
+                )}
+            </div>
+             {zoomCapabilities && (
+                <div className="mt-4 px-1">
+                    <label htmlFor={zoomSliderId} className="mb-2 block text-sm font-medium text-gray-400">
+                        Zoom ({zoomLevel.toFixed(1)}x)
+                    </label>
+                    <input
+                        id={zoomSliderId}
+                        type="range"
+                        min={zoomCapabilities.min}
+                        max={zoomCapabilities.max}
+                        step={zoomCapabilities.step}
+                        value={zoomLevel}
+                        onChange={handleZoomChange}
+                        disabled={!camera.power}
+                        className="w-full h-2 rounded-lg appearance-none cursor-pointer bg-gray-700 accent-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    />
+                </div>
+            )}
+            <div className="mt-4 flex flex-col sm:flex-row gap-4">
+                 <button onClick={() => onChange({ power: !camera.power })} className={`flex-1 py-2 rounded-md font-semibold transition-colors flex items-center justify-center gap-2 ${camera.power ? 'bg-cyan-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                    <PowerIcon className="w-5 h-5"/>
+                    {camera.power ? 'Power Off' : 'Power On'}
+                </button>
+                <button onClick={() => onChange({ recording: !camera.recording })} disabled={!camera.power} className={`flex-1 py-2 rounded-md font-semibold transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${camera.recording ? 'bg-red-500 text-white animate-pulse' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                   {camera.recording ? <StopCircleIcon className="w-5 h-5"/> : <CameraIcon className="w-5 h-5" />}
+                   {camera.recording ? 'Stop Recording' : 'Start Recording'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CncCapability, CncProgram, CncQueue, CncState, Device } from '../types';
+import { CNC_FAULTS, CncAxis } from '../services/cnc';
+import { analyzeProgram, parseToolpath, remainingSeconds } from '../services/gcode';
+import { CncIcon, PlayIcon, PauseIcon, StopIcon, UploadIcon } from './Icons';
+import { CncJogPanel } from './CncJogPanel';
+import { CncOverridePanel } from './CncOverridePanel';
+import { CncQueuePanel } from './CncQueuePanel';
+import { formatDuration, GcodeAnalysisPanel } from './GcodeAnalysis';
+import { CncStatusIndicator } from './StatusIndicators';
+import { ToolpathViewer } from './ToolpathViewer';
+
+export const CncCard: React.FC<{
+    device: Device;
+    cnc: CncState;
+    /** The uploaded file, once fetched; null for files loaded on the bridge. */
+    program: CncProgram | null;
+    queue: CncQueue;
+    onConnect: (address: string) => void;
+    onDisconnect: () => void;
+    onPlay: () => void;
+    onPause: () => void;
+    onStop: () => void;
+    onUpload: (file: File) => Promise<unknown>;
+    onJog: (axis: CncAxis, distance: number) => Promise<unknown>;
+    onHome: () => Promise<unknown>;
+    onZero: (axes: CncAxis[]) => Promise<unknown>;
+    onOverride: (override: { feed?: number; spindle?: number }) => Promise<unknown>;
+    onReset: () => Promise<unknown>;
+    onQueueAdd: (file: File) => Promise<unknown>;
+    onQueueReorder: (order: string[]) => Promise<unknown>;
+    onQueueUpdate: (entryId: string, changes: { toolChange?: boolean; prompt?: string | null }) => Promise<unknown>;
+    onQueueRemove: (entryId: string) => Promise<unknown>;
+    onQueueStart: () => Promise<unknown>;
+    onQueueHold: () => Promise<unknown>;
+}> = ({ device, cnc, program, queue, onConnect, onDisconnect, onPlay, onPause, onStop, onUpload, onJog, onHome, onZero, onOverride, onReset, onQueueAdd, onQueueReorder, onQueueUpdate, onQueueRemove, onQueueStart, onQueueHold }) => {
+    const [wsAddress, setWsAddress] = useState(device.address);
+    const [isUploading, setIsUploading] = useState(false);
+    const [uploadError, setUploadError] = useState('');
+    const [resetError, setResetError] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { status: cncStatus, alarm, gcodeFile, progress: gcodeProgress, linesDone, linesTotal, machinePosition, workPosition, feedOverride, spindleOverride, feedRate, spindleSpeed, bridge, lastError, reconnectAt } = cnc;
+    const [now, setNow] = useState(Date.now());
+
+    // Keep the input in sync when the address is edited elsewhere (e.g. the device manager).
+    useEffect(() => {
+        setWsAddress(device.address);
+    }, [device.address]);
+
+    // Tick while waiting to reconnect, for the countdown.
+    useEffect(() => {
+        if (reconnectAt === null) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [reconnectAt]);
+
+    const isCncConnected = cncStatus !== 'Disconnected' && cncStatus !== 'Connecting' && cncStatus !== 'Reconnecting';
+    const can = (capability: CncCapability) => bridge?.capabilities.includes(capability) ?? false;
+    const isJobActive = cncStatus === 'Running' || cncStatus === 'Paused';
+    const isFaulted = CNC_FAULTS.includes(cncStatus);
+    const toolpath = useMemo(() => (program ? parseToolpath(program.lines) : null), [program]);
+    const analysis = useMemo(() => (program ? analyzeProgram(program.lines, device.limits) : null), [program, device.limits]);
+    const secondsLeft = analysis && isJobActive ? remainingSeconds(analysis, linesDone ?? 0) : null;
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Clearing the input lets the same file be picked again after editing it.
+        e.target.value = '';
+        if (!file) return;
+        setIsUploading(true);
+        setUploadError('');
+        try {
+            await onUpload(file);
+        } catch (error: any) {
+            setUploadError(error.message);
+        } finally {
+            setIsUploading(false);
+        }
+    };
+    const handleReset = async () => {
+        setResetError('');
+        try {
+            await onReset();
+        } catch (error: any) {
+            setResetError(error.message);
+        }
+    };
+    const addressInputId = `ws-address-${device.id}`;
+
+    return (
+        <div className={`rounded-lg p-6 shadow-lg flex flex-col transition-colors ${isFaulted ? 'bg-red-950/70 ring-2 ring-red-600' : 'bg-gray-800/50'}`}>
+            <div className="flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">{device.name}</h3>
+                <CncIcon className={`w-6 h-6 transition-colors ${isCncConnected ? 'text-green-400' : 'text-gray-600'}`} />
+            </div>
+            <p className="text-gray-400 mt-2">UCCNC G-Code Reproduction</p>
+
+            <div className="mt-4 flex flex-col gap-3">
+                 <div className="flex items-center justify-between">
+                    <label htmlFor={addressInputId} className="text-sm text-gray-400">Bridge Address</label>
+                    <CncStatusIndicator status={cncStatus}/>
+                 </div>
+                <div className="flex items-center gap-2">
+                     <input
+                        id={addressInputId}
+                        type="text"
+                        value={wsAddress}
+                        onChange={(e) => setWsAddress(e.target.value)}
+                        placeholder="ws://192.168.1.123:8765"
+                        disabled={isCncConnected}
+                        className="w-full bg-gray-900/50 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+                    />
+                    <button
+                        onClick={cncStatus === 'Disconnected' ? () => onConnect(wsAddress.trim()) : onDisconnect}
+                        disabled={cncStatus === 'Connecting'}
+                        className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors w-28 text-white disabled:opacity-50 disabled:cursor-wait ${cncStatus === 'Disconnected' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}>
+                        {cncStatus === 'Connecting' ? 'Connecting...' : cncStatus === 'Disconnected' ? 'Connect' : 'Disconnect'}
+                    </button>
+                </div>
+                {bridge && (
+                    <p className="text-xs text-gray-500">
+                        {bridge.name ?? 'Bridge'} · protocol {bridge.protocol}{bridge.capabilities.length > 0 && ` · ${bridge.capabilities.join(', ')}`}
+                    </p>
+                )}
+                {lastError && (
+                    <p className={`text-xs ${cncStatus === 'Reconnecting' ? 'text-orange-300' : 'text-red-400'}`}>
+                        {lastError}
+                        {reconnectAt !== null && ` Retrying in ${Math.max(0, Math.ceil((reconnectAt - now) / 1000))} s.`}
+                        {cncStatus === 'Reconnecting' && reconnectAt === null && ' Retrying now...'}
+                    </p>
+                )}
+                {isFaulted && (
+                    <div className="p-3 rounded-md bg-red-900/60 border border-red-600 flex items-center gap-3">
+                        <div className="min-w-0 flex-grow">
+                            <p className="text-sm font-bold text-red-100">{cncStatus === 'EStop' ? 'Emergency stop' : cncStatus}</p>
+                            {(alarm || !lastError) && <p className="text-xs text-red-200 break-words">{alarm ?? 'The controller gave no reason.'}</p>}
+                            {resetError && <p className="text-xs text-yellow-300 mt-1">{resetError}</p>}
+                        </div>
+                        <button
+                            onClick={handleReset}
+                            disabled={cncStatus !== 'Error' && !can('reset')}
+                            title={cncStatus !== 'Error' && !can('reset') ? 'This bridge cannot reset alarms; reset the machine on the UCCNC screen' : 'Clear the fault once its cause is fixed'}
+                            className="px-3 py-1.5 text-sm font-semibold rounded-md bg-yellow-500 hover:bg-yellow-400 text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Reset
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            <div className={`flex-grow flex flex-col transition-opacity duration-300 ${!isCncConnected ? 'opacity-30 pointer-events-none' : 'opacity-100'}`}>
+                <div className="mt-4 p-3 bg-gray-900/50 rounded-md flex items-center gap-3">
+                    <div className="min-w-0 flex-grow text-center">
+                        <p className="text-xs text-gray-400">Loaded File</p>
+                        <p className="text-base font-mono text-cyan-300 truncate h-6">{gcodeFile || 'None'}</p>
+                    </div>
+                    <input ref={fileInputRef} type="file" accept=".nc,.gcode,.ngc,.tap,.txt" onChange={handleFileChange} className="hidden" />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isUploading || isJobActive || !can('stream')}
+                        title={!can('stream') ? 'This bridge cannot stream uploaded files' : isJobActive ? 'Stop the running job to load another file' : 'Upload a G-code file'}
+                        className="flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <UploadIcon className="w-4 h-4" />
+                        {isUploading ? 'Uploading...' : 'Upload'}
+                    </button>
+                </div>
+                {uploadError && <p className="text-red-400 text-xs mt-2">{uploadError}</p>}
+                <CncQueuePanel
+                    queue={queue}
+                    canQueue={can('stream')}
+                    isBusy={isJobActive || isFaulted}
+                    onAdd={onQueueAdd}
+                    onReorder={onQueueReorder}
+                    onUpdate={onQueueUpdate}
+                    onRemove={onQueueRemove}
+                    onStart={onQueueStart}
+                    onHold={onQueueHold}
+                />
+                <CncJogPanel
+                    workPosition={workPosition}
+                    machinePosition={machinePosition}
+                    disabled={isJobActive || isFaulted}
+                    canJog={can('jog')}
+                    canHome={can('home')}
+                    canZero={can('zero')}
+                    onJog={onJog}
+                    onHome={onHome}
+                    onZero={onZero}
+                />
+                <CncOverridePanel
+                    feedOverride={feedOverride}
+                    spindleOverride={spindleOverride}
+                    feedRate={feedRate}
+                    spindleSpeed={spindleSpeed}
+                    canOverride={can('override')}
+                    onOverride={onOverride}
+                />
+                {analysis && <GcodeAnalysisPanel analysis={analysis} />}
+                {toolpath && <ToolpathViewer toolpath={toolpath} linesDone={linesDone ?? 0} />}
+                <div className="my-4">
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                        <span>Progress</span>
+                        <span>
+                            {linesTotal !== null && `${(linesDone ?? 0).toLocaleString()} / ${linesTotal.toLocaleString()} lines · `}
+                            {gcodeProgress.toFixed(0)}%
+                        </span>
+                    </div>
+                    <div className="w-full bg-gray-700 rounded-full h-2.5">
+                        <div className="bg-cyan-500 h-2.5 rounded-full transition-all duration-150" style={{ width: `${gcodeProgress}%` }}></div>
+                    </div>
+                    {secondsLeft !== null && (
+                        <p className="text-xs text-gray-400 mt-1 text-right">
+                            ~{formatDuration(secondsLeft)} left
+                            {cncStatus === 'Running' && ` · done around ${new Date(Date.now() + secondsLeft * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                        </p>
+                    )}
+                </div>
+                <div className="mt-auto flex items-center justify-center">
+                    <div className="flex items-center gap-4">
+                        <button onClick={onPlay} disabled={!gcodeFile || cncStatus === 'Running' || isFaulted || !isCncConnected} className="text-green-400 hover:text-green-300 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"><PlayIcon className="w-12 h-12"/></button>
+                        <button onClick={onPause} disabled={cncStatus !== 'Running'} className="text-yellow-400 hover:text-yellow-300 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"><PauseIcon className="w-12 h-12"/></button>
+                        <button onClick={onStop} disabled={!isJobActive && cncStatus !== 'Error'} className="text-red-400 hover:text-red-300 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"><StopIcon className="w-12 h-12"/></button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { CncPosition } from '../types';
+import { CNC_AXES, CncAxis } from '../services/cnc';
+
+const STEP_SIZES = [0.1, 1, 10, 50];
+
+const formatCoordinate = (position: CncPosition | null, axis: CncAxis) =>
+    position ? position[axis].toFixed(3) : '—';
+
+/**
+ * Digital readout (work and machine coordinates) with jog buttons, homing and
+ * zeroing, for setting up a job without standing at the UCCNC screen.
+ */
+export const CncJogPanel: React.FC<{
+    workPosition: CncPosition | null;
+    machinePosition: CncPosition | null;
+    /** True while a job runs, is paused or the machine is in a fault; the backend refuses setup commands then. */
+    disabled: boolean;
+    /** What the bridge supports; buttons for anything else stay disabled. */
+    canJog: boolean;
+    canHome: boolean;
+    canZero: boolean;
+    onJog: (axis: CncAxis, distance: number) => Promise<unknown>;
+    onHome: () => Promise<unknown>;
+    onZero: (axes: CncAxis[]) => Promise<unknown>;
+}> = ({ workPosition, machinePosition, disabled, canJog, canHome, canZero, onJog, onHome, onZero }) => {
+    const [step, setStep] = useState(1);
+    const [error, setError] = useState('');
+
+    const run = async (call: () => Promise<unknown>) => {
+        setError('');
+        try {
+            await call();
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    const buttonClass = 'px-2 py-1 text-xs font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50 disabled:cursor-not-allowed';
+
+    return (
+        <div className="mt-4 p-3 bg-gray-900/50 rounded-md text-xs">
+            <div className="grid grid-cols-[auto,1fr,1fr,auto,auto,auto] items-center gap-x-2 gap-y-1">
+                <span />
+                <span className="text-gray-400 text-right">Work</span>
+                <span className="text-gray-400 text-right">Machine</span>
+                <span />
+                <span />
+                <span />
+                {CNC_AXES.map(axis => (
+                    <React.Fragment key={axis}>
+                        <span className="font-bold text-gray-300">{axis.toUpperCase()}</span>
+                        <span className="font-mono text-cyan-300 text-right">{formatCoordinate(workPosition, axis)}</span>
+                        <span className="font-mono text-gray-400 text-right">{formatCoordinate(machinePosition, axis)}</span>
+                        <button onClick={() => run(() => onJog(axis, -step))} disabled={disabled || !canJog} className={buttonClass} title={`Jog ${axis.toUpperCase()} −${step} mm`}>
+                            {axis.toUpperCase()}−
+                        </button>
+                        <button onClick={() => run(() => onJog(axis, step))} disabled={disabled || !canJog} className={buttonClass} title={`Jog ${axis.toUpperCase()} +${step} mm`}>
+                            {axis.toUpperCase()}+
+                        </button>
+                        <button onClick={() => run(() => onZero([axis]))} disabled={disabled || !canZero} className={buttonClass} title={`Set the work zero of ${axis.toUpperCase()} here`}>
+                            Zero
+                        </button>
+                    </React.Fragment>
+                ))}
+            </div>
+            <div className="mt-2 flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1">
+                    <span className="text-gray-400 mr-1">Step</span>
+                    {STEP_SIZES.map(size => (
+                        <button
+                            key={size}
+                            onClick={() => setStep(size)}
+                            className={`px-2 py-0.5 rounded ${step === size ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            {size}
+                        </button>
+                    ))}
+                    <span className="text-gray-400 ml-1">mm</span>
+                </div>
+                <div className="flex gap-1">
+                    <button onClick={() => run(() => onZero(CNC_AXES))} disabled={disabled || !canZero} className={buttonClass}>Zero all</button>
+                    <button onClick={() => run(onHome)} disabled={disabled || !canHome} className={buttonClass}>Home</button>
+                </div>
+            </div>
+            {error && <p className="text-red-400 mt-2">{error}</p>}
+        </div>
+    );
+};
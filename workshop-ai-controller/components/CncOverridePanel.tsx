@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OVERRIDE_MAX, OVERRIDE_MIN } from '../services/cnc';
+
+// Dragging sends at most one override per this many ms.
+const SEND_DELAY_MS = 250;
+// A bridge that clamps or ignores the override never reports the value sent;
+// the slider goes back to what it reports after this long.
+const CONFIRM_TIMEOUT_MS = 2000;
+
+const OverrideSlider: React.FC<{
+    label: string;
+    /** The override the bridge reports, in percent; null until it does. */
+    value: number | null;
+    /** The actual speed, e.g. "600 mm/min". */
+    actual: string;
+    disabled: boolean;
+    onChange: (percent: number) => Promise<unknown>;
+    onError: (message: string) => void;
+}> = ({ label, value, actual, disabled, onChange, onError }) => {
+    // What the slider shows while dragging, until the bridge reports the new value.
+    const [draft, setDraft] = useState<number | null>(null);
+    const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+    useEffect(() => () => clearTimeout(timerRef.current), []);
+
+    useEffect(() => {
+        if (draft !== null && value === draft) setDraft(null);
+    }, [value, draft]);
+
+    const send = (percent: number) => {
+        setDraft(percent);
+        clearTimeout(timerRef.current);
+        timerRef.current = setTimeout(() => {
+            onChange(percent)
+                .then(() => {
+                    timerRef.current = setTimeout(() => setDraft(null), CONFIRM_TIMEOUT_MS);
+                })
+                .catch((error: Error) => {
+                    setDraft(null);
+                    onError(error.message);
+                });
+        }, SEND_DELAY_MS);
+    };
+
+    const shown = draft ?? value ?? 100;
+
+    return (
+        <div className="grid grid-cols-[4.5rem,1fr,3rem,auto] items-center gap-2">
+            <span className="text-gray-400">{label}</span>
+            <input
+                type="range"
+                min={OVERRIDE_MIN}
+                max={OVERRIDE_MAX}
+                step={5}
+                value={shown}
+                onChange={(e) => send(Number(e.target.value))}
+                disabled={disabled}
+                className="accent-cyan-500 disabled:opacity-50"
+                aria-label={`${label} override`}
+            />
+            <span className={`font-mono text-right ${shown === 100 ? 'text-gray-300' : 'text-yellow-300'}`}>{value === null && draft === null ? '—' : `${shown}%`}</span>
+            <button
+                onClick={() => send(100)}
+                disabled={disabled || shown === 100}
+                className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                title={`Reset the ${label.toLowerCase()} override to 100%`}
+            >
+                100%
+            </button>
+            <span />
+            <span className="col-span-3 text-gray-500 -mt-1">{actual}</span>
+        </div>
+    );
+};
+
+/**
+ * Feed and spindle override sliders with the actual feed and spindle speed,
+ * for slowing a job down when a cut sounds wrong. They work while a job runs.
+ */
+export const CncOverridePanel: React.FC<{
+    feedOverride: number | null;
+    spindleOverride: number | null;
+    /** Actual feed in mm/min and spindle speed in RPM, as reported by the bridge. */
+    feedRate: number | null;
+    spindleSpeed: number | null;
+    /** False when the bridge cannot override; the sliders stay disabled. */
+    canOverride: boolean;
+    onOverride: (override: { feed?: number; spindle?: number }) => Promise<unknown>;
+}> = ({ feedOverride, spindleOverride, feedRate, spindleSpeed, canOverride, onOverride }) => {
+    const [error, setError] = useState('');
+
+    const handleChange = (override: { feed?: number; spindle?: number }) => {
+        setError('');
+        return onOverride(override);
+    };
+
+    return (
+        <div className="mt-4 p-3 bg-gray-900/50 rounded-md text-xs flex flex-col gap-2">
+            <OverrideSlider
+                label="Feed"
+                value={feedOverride}
+                actual={feedRate === null ? 'Actual feed unknown' : `${feedRate.toLocaleString()} mm/min`}
+                disabled={!canOverride}
+                onChange={(feed) => handleChange({ feed })}
+                onError={setError}
+            />
+            <OverrideSlider
+                label="Spindle"
+                value={spindleOverride}
+                actual={spindleSpeed === null ? 'Actual speed unknown' : `${spindleSpeed.toLocaleString()} RPM`}
+                disabled={!canOverride}
+                onChange={(spindle) => handleChange({ spindle })}
+                onError={setError}
+            />
+            {!canOverride && <p className="text-gray-500">This bridge cannot override the feed or spindle speed.</p>}
+            {error && <p className="text-red-400">{error}</p>}
+        </div>
+    );
+};
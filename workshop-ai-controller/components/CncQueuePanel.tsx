@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CncQueue, CncQueueEntry } from '../types';
+
+const buttonClass = 'px-2 py-1 text-xs font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50 disabled:cursor-not-allowed';
+
+const PromptField: React.FC<{ entry: CncQueueEntry; onSave: (prompt: string | null) => Promise<unknown> }> = ({ entry, onSave }) => {
+    const [draft, setDraft] = useState(entry.prompt ?? '');
+
+    useEffect(() => setDraft(entry.prompt ?? ''), [entry.prompt]);
+
+    const save = () => {
+        if (draft.trim() === (entry.prompt ?? '')) return;
+        onSave(draft.trim() || null).catch(() => setDraft(entry.prompt ?? ''));
+    };
+
+    return (
+        <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={save}
+            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+            placeholder="What to change, e.g. 3 mm drill"
+            className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-0.5 text-xs text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+            aria-label={`Tool change before ${entry.name}`}
+        />
+    );
+};
+
+/**
+ * Files to run back to back (facing, roughing, finishing, drilling). The
+ * backend plays the next one as soon as the machine reports a job done, or
+ * holds for a tool change first where one is marked.
+ */
+export const CncQueuePanel: React.FC<{
+    queue: CncQueue;
+    /** False when the bridge cannot stream uploaded files. */
+    canQueue: boolean;
+    /** A job is running or paused, or the machine is in a fault; the queue cannot start then. */
+    isBusy: boolean;
+    onAdd: (file: File) => Promise<unknown>;
+    onReorder: (order: string[]) => Promise<unknown>;
+    onUpdate: (entryId: string, changes: { toolChange?: boolean; prompt?: string | null }) => Promise<unknown>;
+    onRemove: (entryId: string) => Promise<unknown>;
+    onStart: () => Promise<unknown>;
+    onHold: () => Promise<unknown>;
+}> = ({ queue, canQueue, isBusy, onAdd, onReorder, onUpdate, onRemove, onStart, onHold }) => {
+    const [isAdding, setIsAdding] = useState(false);
+    const [error, setError] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { state, entries, current, notice } = queue;
+    const [next] = entries;
+
+    const run = async (call: () => Promise<unknown>) => {
+        setError('');
+        try {
+            await call();
+        } catch (e: any) {
+            setError(e.message);
+            throw e;
+        }
+    };
+
+    const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = [...(e.target.files ?? [])];
+        e.target.value = '';
+        setIsAdding(true);
+        // One at a time, so the queue keeps the order they were picked in.
+        try {
+            for (const file of files) await run(() => onAdd(file));
+        } catch {
+            // Shown by run(); the files after the failing one are not queued.
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    const move = (index: number, offset: number) => {
+        const order = entries.map(entry => entry.id);
+        [order[index], order[index + offset]] = [order[index + offset], order[index]];
+        run(() => onReorder(order)).catch(() => {});
+    };
+
+    return (
+        <div className="mt-4 p-3 bg-gray-900/50 rounded-md text-xs flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+                <span className="text-gray-400 flex-grow">
+                    Job queue{entries.length > 0 && ` · ${entries.length} ${entries.length === 1 ? 'file' : 'files'} to go`}
+                </span>
+                <input ref={fileInputRef} type="file" multiple accept=".nc,.gcode,.ngc,.tap,.txt" onChange={handleFiles} className="hidden" />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isAdding || !canQueue}
+                    title={canQueue ? 'Add G-code files to the end of the queue' : 'This bridge cannot stream uploaded files'}
+                    className={buttonClass}
+                >
+                    {isAdding ? 'Adding...' : '+ Add files'}
+                </button>
+            </div>
+            {state === 'toolChange' && next && (
+                <div className="p-2 rounded-md bg-yellow-900/40 border border-yellow-600 flex items-center gap-3">
+                    <div className="min-w-0 flex-grow">
+                        <p className="font-bold text-yellow-200">Tool change before {next.name}</p>
+                        <p className="text-yellow-100 break-words">{next.prompt ?? 'Change the tool, then continue.'}</p>
+                    </div>
+                    <button
+                        onClick={() => run(onStart).catch(() => {})}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 text-xs font-semibold rounded-md bg-yellow-500 hover:bg-yellow-400 text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Continue
+                    </button>
+                </div>
+            )}
+            {notice && state === 'idle' && <p className="text-orange-300">{notice}</p>}
+            {current && <p className="text-gray-300">Running <span className="font-mono text-cyan-300">{current.name}</span> from the queue.</p>}
+            {entries.length > 0 && (
+                <ol className="flex flex-col gap-1">
+                    {entries.map((entry, index) => (
+                        <li key={entry.id} className="flex flex-col gap-1 p-1.5 rounded bg-gray-800/60">
+                            <div className="flex items-center gap-2">
+                                <span className="text-gray-500 w-4 text-right">{index + 1}.</span>
+                                <span className="font-mono text-gray-200 truncate flex-grow" title={entry.name}>{entry.name}</span>
+                                <span className="text-gray-500 whitespace-nowrap">{entry.lineCount.toLocaleString()} lines</span>
+                                <button onClick={() => move(index, -1)} disabled={index === 0} className={buttonClass} title="Run earlier" aria-label={`Move ${entry.name} up`}>↑</button>
+                                <button onClick={() => move(index, 1)} disabled={index === entries.length - 1} className={buttonClass} title="Run later" aria-label={`Move ${entry.name} down`}>↓</button>
+                                <button onClick={() => run(() => onRemove(entry.id)).catch(() => {})} className="text-red-400 hover:text-red-300">Remove</button>
+                            </div>
+                            <div className="flex items-center gap-2 pl-6">
+                                <label className="flex items-center gap-1 text-gray-400 whitespace-nowrap">
+                                    <input
+                                        type="checkbox"
+                                        checked={entry.toolChange}
+                                        onChange={(e) => run(() => onUpdate(entry.id, { toolChange: e.target.checked })).catch(() => {})}
+                                        className="accent-cyan-500"
+                                    />
+                                    Tool change first
+                                </label>
+                                {entry.toolChange && <PromptField entry={entry} onSave={(prompt) => run(() => onUpdate(entry.id, { prompt }))} />}
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+            )}
+            <div className="flex justify-end gap-2">
+                {state === 'idle' ? (
+                    <button
+                        onClick={() => run(onStart).catch(() => {})}
+                        disabled={entries.length === 0 || isBusy || !canQueue}
+                        title={isBusy ? 'Wait for the machine to be idle' : 'Run the queued files one after the other'}
+                        className="px-3 py-1 text-xs font-semibold rounded-md bg-green-600 hover:bg-green-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Start queue
+                    </button>
+                ) : (
+                    <button onClick={() => run(onHold).catch(() => {})} className={buttonClass} title="Stop after the current job; it keeps running">
+                        Hold queue
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-red-400">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { CncLimits, Device, DeviceKind, NewDevice } from '../types';
+import { DEVICE_KIND_LABELS, DEVICE_PROTOCOLS } from '../services/devices';
+
+const ADDRESS_PLACEHOLDERS: Record<DeviceKind, string> = {
+    cnc: 'ws://192.168.1.123:8765',
+    camera: 'Optional media deviceId',
+    dustCollector: 'http://192.168.1.60',
+    light: 'http://192.168.1.50',
+};
+
+const emptyDevice = (kind: DeviceKind = 'light'): NewDevice => ({ kind, name: '', address: '', protocol: DEVICE_PROTOCOLS[kind][0] });
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+
+const LIMIT_FIELDS: { key: keyof CncLimits; label: string }[] = [
+    { key: 'xMin', label: 'X min (mm)' },
+    { key: 'xMax', label: 'X max (mm)' },
+    { key: 'yMin', label: 'Y min (mm)' },
+    { key: 'yMax', label: 'Y max (mm)' },
+    { key: 'zMin', label: 'Z min (mm)' },
+    { key: 'zMax', label: 'Z max (mm)' },
+    { key: 'maxFeed', label: 'Max feed (mm/min)' },
+    { key: 'rapidRate', label: 'Rapid rate (mm/min)' },
+    { key: 'minSpindle', label: 'Min spindle (rpm)' },
+    { key: 'maxSpindle', label: 'Max spindle (rpm)' },
+];
+
+// Programs are checked against these before they run; empty fields are not checked.
+const LimitsFields: React.FC<{ limits: CncLimits; disabled: boolean; onChange: (limits: CncLimits) => void }> = ({ limits, disabled, onChange }) => (
+    <details className="text-xs text-gray-400">
+        <summary className="cursor-pointer select-none">Machine limits</summary>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+            {LIMIT_FIELDS.map(({ key, label }) => (
+                <label key={key} className="flex flex-col gap-1">
+                    {label}
+                    <input
+                        type="number"
+                        value={limits[key] ?? ''}
+                        onChange={(e) => onChange({ ...limits, [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        disabled={disabled}
+                        className={inputClassName}
+                    />
+                </label>
+            ))}
+        </div>
+    </details>
+);
+
+const DeviceForm: React.FC<{
+    initial: NewDevice;
+    isNew: boolean;
+    submitLabel: string;
+    onSubmit: (device: NewDevice) => Promise<void>;
+    onCancel?: () => void;
+}> = ({ initial, isNew, submitLabel, onSubmit, onCancel }) => {
+    const [draft, setDraft] = useState<NewDevice>(initial);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError('');
+        try {
+            await onSubmit(draft);
+            if (isNew) setDraft(emptyDevice(draft.kind));
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+            <div className="grid grid-cols-2 gap-2">
+                <select
+                    value={draft.kind}
+                    onChange={(e) => setDraft({ ...emptyDevice(e.target.value as DeviceKind), name: draft.name })}
+                    disabled={!isNew || isSaving}
+                    className={inputClassName}
+                    aria-label="Device kind"
+                >
+                    {(Object.keys(DEVICE_KIND_LABELS) as DeviceKind[]).map(kind => (
+                        <option key={kind} value={kind}>{DEVICE_KIND_LABELS[kind]}</option>
+                    ))}
+                </select>
+                <select
+                    value={draft.protocol}
+                    onChange={(e) => setDraft({ ...draft, protocol: e.target.value })}
+                    disabled={isSaving}
+                    className={inputClassName}
+                    aria-label="Protocol"
+                >
+                    {DEVICE_PROTOCOLS[draft.kind].map(protocol => <option key={protocol} value={protocol}>{protocol}</option>)}
+                </select>
+            </div>
+            <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name, e.g. Bench Strip 2"
+                disabled={isSaving}
+                className={inputClassName}
+            />
+            <input
+                type="text"
+                value={draft.address}
+                onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+                placeholder={ADDRESS_PLACEHOLDERS[draft.kind]}
+                disabled={isSaving}
+                className={inputClassName}
+            />
+            {draft.kind === 'cnc' && (
+                <LimitsFields limits={draft.limits ?? {}} disabled={isSaving} onChange={(limits) => setDraft({ ...draft, limits })} />
+            )}
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+            <div className="flex gap-2">
+                <button type="submit" disabled={isSaving || !draft.name.trim()} className="flex-1 px-4 py-2 text-sm font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white disabled:opacity-50 disabled:cursor-not-allowed">
+                    {isSaving ? 'Saving...' : submitLabel}
+                </button>
+                {onCancel && (
+                    <button type="button" onClick={onCancel} disabled={isSaving} className="px-4 py-2 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-700 text-white">
+                        Cancel
+                    </button>
+                )}
+            </div>
+        </form>
+    );
+};
+
+export const DeviceManager: React.FC<{
+    devices: Device[];
+    onCreate: (device: NewDevice) => Promise<void>;
+    onUpdate: (id: string, changes: Partial<NewDevice>) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+    onClose: () => void;
+}> = ({ devices, onCreate, onUpdate, onDelete, onClose }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const handleDelete = async (device: Device) => {
+        if (!window.confirm(`Remove "${device.name}" from the workshop?`)) return;
+        setError('');
+        try {
+            await onDelete(device.id);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    return (
+        <div className="absolute inset-0 bg-gray-900/80 backdrop-blur-sm z-20 flex items-start justify-center p-4">
+            <div className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-xl relative animate-fade-in">
+                <h4 className="text-lg font-bold text-white mb-4">Workshop Devices</h4>
+                <div className="bg-gray-900/50 rounded-md p-3 max-h-80 overflow-y-auto">
+                    {devices.length === 0 && <p className="text-gray-500 text-center text-sm p-4">No devices registered yet.</p>}
+                    <ul className="space-y-2">
+                        {devices.map(device => (
+                            <li key={device.id} className="p-2 rounded-md bg-gray-800/70">
+                                {editingId === device.id ? (
+                                    <DeviceForm
+                                        initial={{ kind: device.kind, name: device.name, address: device.address, protocol: device.protocol, limits: device.limits }}
+                                        isNew={false}
+                                        submitLabel="Save"
+                                        onSubmit={async (changes) => {
+                                            await onUpdate(device.id, {
+                                                name: changes.name,
+                                                address: changes.address,
+                                                protocol: changes.protocol,
+                                                ...(device.kind === 'cnc' && { limits: changes.limits ?? {} }),
+                                            });
+                                            setEditingId(null);
+                                        }}
+                                        onCancel={() => setEditingId(null)}
+                                    />
+                                ) : (
+                                    <div className="flex items-center gap-3">
+                                        <div className="min-w-0 flex-grow">
+                                            <p className="text-sm font-semibold text-gray-200 truncate">{device.name}</p>
+                                            <p className="text-xs text-gray-400 font-mono truncate">
+                                                {DEVICE_KIND_LABELS[device.kind]} · {device.protocol}{device.address && ` · ${device.address}`}
+                                            </p>
+                                        </div>
+                                        <button onClick={() => setEditingId(device.id)} className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 text-white">Edit</button>
+                                        <button onClick={() => handleDelete(device)} className="px-3 py-1 text-xs font-semibold rounded-md bg-red-600 hover:bg-red-700 text-white">Remove</button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+                {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+                <h5 className="text-sm font-semibold text-gray-300 mt-4 mb-2">Add Device</h5>
+                <DeviceForm initial={emptyDevice()} isNew submitLabel="Add Device" onSubmit={onCreate} />
+                <button onClick={onClose} className="mt-4 w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ConnectionStatus, Device } from '../types';
+import { RssIcon } from './Icons';
+import { ConnectionStatusIndicator } from './StatusIndicators';
+
+export const DustCollectorCard: React.FC<{
+    device: Device;
+    isOn: boolean;
+    connectionStatus: ConnectionStatus;
+    isUpdating: boolean;
+    onConnect: () => void;
+    onDisconnect: () => void;
+    onToggle: () => void;
+}> = ({ device, isOn, connectionStatus, isUpdating, onConnect, onDisconnect, onToggle }) => {
+    const isConnected = connectionStatus === 'Connected';
+    const isConnectable = connectionStatus === 'Disconnected' || connectionStatus === 'Error';
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-6 flex flex-col justify-between shadow-lg">
+            <div className="flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">{device.name}</h3>
+                <RssIcon className={`w-6 h-6 transition-colors ${isConnected && isOn ? 'text-green-400' : 'text-gray-600'}`} />
+            </div>
+            <p className="text-gray-400 mt-2">Central dust extraction system.</p>
+
+            <div className="mt-4 flex flex-col gap-3">
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-400 font-mono truncate">{device.protocol} · {device.address}</span>
+                    <ConnectionStatusIndicator status={connectionStatus}/>
+                </div>
+                <button
+                    onClick={isConnectable ? onConnect : onDisconnect}
+                    disabled={connectionStatus === 'Connecting'}
+                    className={`px-3 py-2 text-sm font-semibold rounded-md transition-colors w-full text-white disabled:opacity-50 disabled:cursor-wait ${isConnectable ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}>
+                    {connectionStatus === 'Connecting' ? 'Connecting...' : isConnectable ? 'Connect' : 'Disconnect'}
+                </button>
+            </div>
+
+            <div className="mt-6 flex items-center justify-center">
+                 <button
+                    onClick={onToggle}
+                    disabled={!isConnected || isUpdating}
+                    className={`relative w-40 h-16 rounded-full transition-colors duration-300 disabled:opacity-40 disabled:cursor-not-allowed ${isOn ? 'bg-green-500' : 'bg-gray-700'} ${isUpdating ? 'animate-pulse' : ''}`}
+                >
+                    <span className="absolute top-1/2 left-8 -translate-y-1/2 text-white font-bold">OFF</span>
+                    <span className="absolute top-1/2 right-8 -translate-y-1/2 text-white font-bold">ON</span>
+                    <span className={`absolute top-1 left-1 block w-14 h-14 bg-white rounded-full shadow-md transform transition-transform duration-300 ${isOn ? 'translate-x-[92px]' : ''}`}></span>
+                </button>
+            </div>
+        </div>
+    );
+};
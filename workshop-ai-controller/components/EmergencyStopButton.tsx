@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { EmergencyStopResult } from '../services/cnc';
+
+/**
+ * The big red E-STOP, fixed in a corner of the Control Panel so it is on
+ * screen whatever is scrolled or open. It stops every CNC machine at once
+ * without asking, and says which ones it could not reach.
+ */
+export const EmergencyStopButton: React.FC<{
+    onStop: () => Promise<EmergencyStopResult[]>;
+}> = ({ onStop }) => {
+    const [problems, setProblems] = useState<string[]>([]);
+
+    const handleClick = async () => {
+        setProblems([]);
+        try {
+            const results = await onStop();
+            setProblems(results.flatMap(result => {
+                if (result.status === 'ERROR') return [result.message ?? `${result.name} was not stopped.`];
+                if (result.command === 'stop') return [`${result.name} has no E-stop on its bridge; it was only stopped.`];
+                return [];
+            }));
+        } catch (error: any) {
+            setProblems([`The backend could not be reached (${error.message}). Use the emergency stop on the machine.`]);
+        }
+    };
+
+    return (
+        <div className="fixed bottom-6 right-6 z-40 flex flex-col items-end gap-2">
+            {problems.length > 0 && (
+                <div className="max-w-xs bg-red-950 border border-red-600 rounded-md p-3 text-xs text-red-100 shadow-2xl">
+                    {problems.map(problem => <p key={problem}>{problem}</p>)}
+                    <button onClick={() => setProblems([])} className="mt-2 text-red-300 hover:text-white underline">Dismiss</button>
+                </div>
+            )}
+            <button
+                onClick={handleClick}
+                className="w-24 h-24 rounded-full bg-red-600 hover:bg-red-500 active:bg-red-700 border-4 border-yellow-400 text-white text-lg font-black tracking-wider shadow-2xl focus:outline-none focus:ring-4 focus:ring-yellow-300"
+                title="Emergency stop of every CNC machine"
+            >
+                E-STOP
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ProgramAnalysis } from '../services/gcode';
+
+/** "45 s", "12 min" or "1 h 05 min". */
+export const formatDuration = (seconds: number) => {
+    if (seconds < 60) return `${Math.round(seconds)} s`;
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+};
+
+const formatRange = ([low, high]: [number, number], unit: string) => `${low === high ? low : `${low}–${high}`} ${unit}`;
+
+/** Pre-flight summary of the loaded program, with warnings first. */
+export const GcodeAnalysisPanel: React.FC<{ analysis: ProgramAnalysis }> = ({ analysis }) => {
+    const { bounds, feedRange, spindleRange, toolChanges, warnings, estimatedSeconds } = analysis;
+    const rows: [string, string][] = [
+        ['Estimated time', `~${formatDuration(estimatedSeconds)}`],
+        ['Envelope', bounds
+            ? (['x', 'y', 'z'] as const).map(axis => `${axis.toUpperCase()} ${bounds.min[axis].toFixed(1)}…${bounds.max[axis].toFixed(1)}`).join(' · ') + ' mm'
+            : 'No moves'],
+        ['Feeds', feedRange ? formatRange(feedRange, 'mm/min') : 'None'],
+        ['Spindle', spindleRange ? formatRange(spindleRange, 'rpm') : 'Not set'],
+        ['Tool changes', toolChanges.length > 0
+            ? toolChanges.map(change => `${change.tool === null ? 'T?' : `T${change.tool}`} (line ${change.line + 1})`).join(', ')
+            : 'None'],
+    ];
+
+    return (
+        <div className="mt-4 p-3 bg-gray-900/50 rounded-md text-xs">
+            {warnings.length > 0 && (
+                <ul className="mb-2 space-y-1 text-yellow-300">
+                    {warnings.map(warning => <li key={warning}>⚠ {warning}</li>)}
+                </ul>
+            )}
+            <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1">
+                {rows.map(([label, value]) => (
+                    <React.Fragment key={label}>
+                        <dt className="text-gray-400">{label}</dt>
+                        <dd className="text-gray-200 font-mono break-words">{value}</dd>
+                    </React.Fragment>
+                ))}
+            </dl>
+        </div>
+    );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CncJob, CncJobOutcome, Device } from '../types';
+import { CncJobFilters, exportCncJobs, listCncJobs, setCncJobProject } from '../services/cnc';
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+
+const OUTCOME_STYLES: Record<CncJobOutcome | 'running', string> = {
+    running: 'text-cyan-300',
+    completed: 'text-green-400',
+    stopped: 'text-yellow-400',
+    failed: 'text-red-400',
+    disconnected: 'text-orange-400',
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Time spent cutting: paused time does not count, and a running job counts up to now.
+const runTime = (job: CncJob, now: number) => (job.endedAt ?? now) - job.startedAt - job.pausedMs;
+
+// <input type="date"> values are local dates; `to` includes the whole day.
+const dateToMs = (date: string, endOfDay = false) => {
+    if (!date) return undefined;
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, endOfDay ? day + 1 : day).getTime();
+};
+
+// Mirrors the backend's filtering, for jobs that arrive on the event stream.
+const matches = (job: CncJob, filters: CncJobFilters) =>
+    (!filters.deviceId || job.deviceId === filters.deviceId)
+    && (filters.project === undefined || (job.project ?? '').toLowerCase() === filters.project.trim().toLowerCase())
+    && (filters.from === undefined || job.startedAt >= filters.from)
+    && (filters.to === undefined || job.startedAt < filters.to);
+
+const ProjectField: React.FC<{ job: CncJob; onSave: (project: string | null) => Promise<void> }> = ({ job, onSave }) => {
+    const [draft, setDraft] = useState(job.project ?? '');
+
+    useEffect(() => setDraft(job.project ?? ''), [job.project]);
+
+    const save = () => {
+        if (draft.trim() === (job.project ?? '')) return;
+        onSave(draft.trim() || null).catch(() => setDraft(job.project ?? ''));
+    };
+
+    return (
+        <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={save}
+            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+            placeholder="—"
+            list="cnc-job-projects"
+            className={`${inputClassName} w-28`}
+            aria-label={`Project of ${job.file ?? 'the job'} started ${formatTime(job.startedAt)}`}
+        />
+    );
+};
+
+/**
+ * Browsable history of CNC jobs, filtered by machine, dates and project, with
+ * inline project assignment and a CSV export of the same selection for
+ * per-project usage reports.
+ */
+export const JobHistory: React.FC<{
+    devices: Device[];
+    /** The latest jobs from the event stream, merged in so running jobs stay current. */
+    recentJobs: CncJob[];
+    onClose: () => void;
+}> = ({ devices, recentJobs, onClose }) => {
+    const [deviceId, setDeviceId] = useState('');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [project, setProject] = useState('');
+    const [jobs, setJobs] = useState<CncJob[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    const filters = useMemo<CncJobFilters>(() => ({
+        deviceId: deviceId || undefined,
+        project: project.trim() || undefined,
+        from: dateToMs(fromDate),
+        to: dateToMs(toDate, true),
+    }), [deviceId, project, fromDate, toDate]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        setError('');
+        // Typing a project name should not send a request per keystroke.
+        const timer = setTimeout(() => {
+            listCncJobs(filters)
+                .then(result => !cancelled && setJobs(result))
+                .catch(err => !cancelled && setError(err.message))
+                .finally(() => !cancelled && setIsLoading(false));
+        }, 300);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [filters]);
+
+    // Only pushed jobs are merged here; a filter change refetches instead.
+    useEffect(() => {
+        setJobs(prev => {
+            let next = prev;
+            for (const job of recentJobs) {
+                if (!matches(job, filters)) {
+                    next = next.filter(j => j.id !== job.id);
+                } else if (next.some(j => j.id === job.id)) {
+                    next = next.map(j => (j.id === job.id ? job : j));
+                } else {
+                    next = [job, ...next].sort((a, b) => b.startedAt - a.startedAt);
+                }
+            }
+            return next;
+        });
+    }, [recentJobs]);
+
+    const projects = useMemo(() => [...new Set(jobs.map(job => job.project).filter((p): p is string => !!p))].sort(), [jobs]);
+
+    const now = Date.now();
+    const totals = useMemo(() => {
+        const byOutcome: Record<string, number> = {};
+        for (const job of jobs) byOutcome[job.outcome ?? 'running'] = (byOutcome[job.outcome ?? 'running'] ?? 0) + 1;
+        return { time: jobs.reduce((sum, job) => sum + runTime(job, now), 0), byOutcome };
+    }, [jobs, now]);
+
+    const handleProject = async (job: CncJob, name: string | null) => {
+        setError('');
+        try {
+            const updated = await setCncJobProject(job.id, name);
+            setJobs(prev => prev.map(j => (j.id === updated.id ? updated : j)));
+        } catch (err: any) {
+            setError(err.message);
+            throw err;
+        }
+    };
+
+    const handleExport = async () => {
+        setError('');
+        try {
+            await exportCncJobs(filters);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    return (
+        <div className="absolute inset-0 bg-gray-900/80 backdrop-blur-sm z-20 flex items-start justify-center p-4">
+            <div className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-4xl relative animate-fade-in">
+                <h4 className="text-lg font-bold text-white mb-1">Job history</h4>
+                <p className="text-xs text-gray-400 mb-4">Every job the CNC machines ran, including those started at the machine. File jobs under a project to report usage per project.</p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-300 mb-3">
+                    <select value={deviceId} onChange={(e) => setDeviceId(e.target.value)} className={inputClassName} aria-label="Machine">
+                        <option value="">All machines</option>
+                        {devices.map(device => <option key={device.id} value={device.id}>{device.name}</option>)}
+                    </select>
+                    <span>From</span>
+                    <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClassName} aria-label="From" />
+                    <span>to</span>
+                    <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClassName} aria-label="To" />
+                    <input
+                        type="text"
+                        value={project}
+                        onChange={(e) => setProject(e.target.value)}
+                        placeholder="Project"
+                        list="cnc-job-projects"
+                        className={`${inputClassName} w-32`}
+                        aria-label="Project"
+                    />
+                    <button
+                        onClick={handleExport}
+                        disabled={jobs.length === 0}
+                        className="ml-auto px-3 py-1 text-xs font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Export CSV
+                    </button>
+                </div>
+                <datalist id="cnc-job-projects">
+                    {projects.map(name => <option key={name} value={name} />)}
+                </datalist>
+                <div className="bg-gray-900/50 rounded-md max-h-96 overflow-y-auto">
+                    {!isLoading && jobs.length === 0 && <p className="text-gray-500 text-center text-sm p-4">No jobs match.</p>}
+                    {jobs.length > 0 && (
+                        <table className="w-full text-xs text-left">
+                            <thead className="text-gray-400 sticky top-0 bg-gray-800">
+                                <tr>
+                                    <th className="p-2 font-semibold">Started</th>
+                                    <th className="p-2 font-semibold">Machine</th>
+                                    <th className="p-2 font-semibold">File</th>
+                                    <th className="p-2 font-semibold">Operator</th>
+                                    <th className="p-2 font-semibold">Project</th>
+                                    <th className="p-2 font-semibold">Outcome</th>
+                                    <th className="p-2 font-semibold text-right">Run time</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-gray-300">
+                                {jobs.map(job => (
+                                    <tr key={job.id} className="border-t border-gray-700/50">
+                                        <td className="p-2 whitespace-nowrap">{formatTime(job.startedAt)}</td>
+                                        <td className="p-2">{job.deviceName}</td>
+                                        <td className="p-2 truncate max-w-[10rem]" title={job.file ?? undefined}>{job.file ?? '—'}</td>
+                                        <td className="p-2">{job.operator ?? <span className="text-gray-500">at the machine</span>}</td>
+                                        <td className="p-2">
+                                            <ProjectField job={job} onSave={(name) => handleProject(job, name)} />
+                                        </td>
+                                        <td className={`p-2 ${OUTCOME_STYLES[job.outcome ?? 'running']}`}>
+                                            {job.outcome ?? 'running'}{job.outcome !== 'completed' && ` at ${Math.round(job.progress)}%`}
+                                            {job.stoppedBy && <span className="text-gray-500"> by {job.stoppedBy}</span>}
+                                            {job.pauses > 0 && <span className="block text-gray-500">{job.pauses} {job.pauses === 1 ? 'pause' : 'pauses'}, {formatDuration(job.pausedMs)}</span>}
+                                        </td>
+                                        <td className="p-2 text-right whitespace-nowrap">{formatDuration(runTime(job, now))}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                    {jobs.length} {jobs.length === 1 ? 'job' : 'jobs'}, {formatDuration(totals.time)} of cutting
+                    {Object.keys(totals.byOutcome).length > 0 && ` (${Object.entries(totals.byOutcome).map(([outcome, count]) => `${count} ${outcome}`).join(', ')})`}.
+                </p>
+                {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+                <button onClick={onClose} className="mt-4 w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { Device, ConnectionStatus, LightState } from '../types';
+import { WifiIcon, ScanIcon } from './Icons';
+import { NetworkScanner } from './NetworkScanner';
+import { ConnectionStatusIndicator } from './StatusIndicators';
+
+const rgbToHex = (r: number, g: number, b: number) => `#${[r, g, b].map(x => x.toString(16).padStart(2, '0')).join('')}`;
+
+export const LightCard: React.FC<{
+    device: Device;
+    lights: LightState;
+    connectionStatus: ConnectionStatus;
+    isUpdating: boolean;
+    onConnect: (address: string) => void;
+    onDisconnect: () => void;
+    onPowerToggle: () => void;
+    onColorChange: (color: keyof Omit<LightState, 'power'>, value: number) => void;
+}> = ({ device, lights, connectionStatus, isUpdating, onConnect, onDisconnect, onPowerToggle, onColorChange }) => {
+    const [address, setAddress] = useState(device.address);
+    const [isScannerOpen, setIsScannerOpen] = useState(false);
+
+    // Keep the input in sync when the address is edited elsewhere (e.g. the device manager).
+    useEffect(() => {
+        setAddress(device.address);
+    }, [device.address]);
+
+    const isLightConnected = connectionStatus === 'Connected';
+    const isLightConnectable = connectionStatus === 'Disconnected' || connectionStatus === 'Error';
+    const addressInputId = `light-ip-${device.id}`;
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-6 shadow-lg flex flex-col">
+            {isScannerOpen && (
+                <NetworkScanner
+                    onSelectIp={setAddress}
+                    onClose={() => setIsScannerOpen(false)}
+                />
+            )}
+            <div className="flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">{device.name}</h3>
+                <WifiIcon className={`w-6 h-6 transition-colors ${isLightConnected ? 'text-green-400' : 'text-gray-600'}`} />
+            </div>
+            <p className="text-gray-400 mt-2">Control WiFi lights on your local network.</p>
+
+            <div className="mt-4 flex flex-col gap-3">
+                 <div className="flex items-center justify-between">
+                    <label htmlFor={addressInputId} className="text-sm text-gray-400">Light IP Address</label>
+                    <ConnectionStatusIndicator status={connectionStatus}/>
+                 </div>
+                <div className="flex items-center gap-2">
+                     <input
+                        id={addressInputId}
+                        type="text"
+                        value={address}
+                        onChange={(e) => setAddress(e.target.value)}
+                        placeholder="http://192.168.1.50"
+                        disabled={!isLightConnectable}
+                        className="w-full bg-gray-900/50 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+                    />
+                     <button
+                        onClick={() => setIsScannerOpen(true)}
+                        disabled={!isLightConnectable}
+                        className="p-1.5 rounded-md bg-gray-600 hover:bg-gray-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        aria-label="Scan for devices"
+                     >
+                        <ScanIcon className="w-4 h-4"/>
+                     </button>
+                </div>
+                <button
+                    onClick={isLightConnectable ? () => onConnect(address.trim()) : onDisconnect}
+                    disabled={connectionStatus === 'Connecting'}
+                    className={`px-3 py-2 text-sm font-semibold rounded-md transition-colors w-full text-white disabled:opacity-50 disabled:cursor-wait ${isLightConnectable ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}>
+                    {connectionStatus === 'Connecting' ? 'Connecting...' : isLightConnectable ? 'Connect' : 'Disconnect'}
+                </button>
+            </div>
+
+            <fieldset
+                disabled={!isLightConnected || isUpdating}
+                className="flex-grow flex flex-col gap-4 transition-opacity duration-300 group disabled:opacity-40 disabled:cursor-not-allowed mt-4"
+            >
+                <button
+                    onClick={onPowerToggle}
+                    className={`w-full py-2 rounded-md font-semibold transition-colors relative ${lights.power === 'on' ? 'bg-yellow-400 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 group-disabled:hover:bg-gray-700'}`}
+                >
+                    {isUpdating && (
+                        <span className="absolute left-4 top-1/2 -translate-y-1/2">
+                            <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                            </svg>
+                        </span>
+                    )}
+                    {lights.power === 'on' ? 'Turn Off' : 'Turn On'}
+                </button>
+                <div className={`transition-opacity duration-300 ${lights.power === 'on' ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
+                    {['r', 'g', 'b'].map((color) => (
+                        <div key={color} className="flex items-center gap-3">
+                            <span className={`w-4 font-mono uppercase text-${color === 'r' ? 'red' : color === 'g' ? 'green' : 'blue'}-400`}>{color}</span>
+                            <input type="range" min="0" max="255" value={lights[color as keyof Omit<LightState, 'power'>]} onChange={(e) => onColorChange(color as keyof Omit<LightState, 'power'>, parseInt(e.target.value))} className={`w-full h-2 rounded-lg appearance-none cursor-pointer bg-gray-700 accent-${color === 'r' ? 'red' : color === 'g' ? 'green' : 'blue'}-500`} />
+                        </div>
+                    ))}
+                </div>
+                 <div style={{ backgroundColor: rgbToHex(lights.r, lights.g, lights.b) }} className={`w-full h-8 rounded-md mt-2 transition-all duration-300 ${lights.power === 'on' ? 'opacity-100' : 'opacity-20'}`}></div>
+            </fieldset>
+        </div>
+    );
+};
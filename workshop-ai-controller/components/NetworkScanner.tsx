@@ -0,0 +1,109 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { scanForLights } from '../services/lights';
+
+export const NetworkScanner: React.FC<{
+    onSelectIp: (ip: string) => void;
+    onClose: () => void;
+}> = ({ onSelectIp, onClose }) => {
+    const [scanIpBase, setScanIpBase] = useState('192.168.1');
+    const [isScanning, setIsScanning] = useState(false);
+    const [scanProgress, setScanProgress] = useState(0);
+    const [scanResults, setScanResults] = useState<string[]>([]);
+    const [scanError, setScanError] = useState('');
+    const scanAbortControllerRef = useRef<AbortController | null>(null);
+
+    const handleStartScan = async () => {
+        setIsScanning(true);
+        setScanProgress(0);
+        setScanResults([]);
+        setScanError('');
+        scanAbortControllerRef.current = new AbortController();
+        const signal = scanAbortControllerRef.current.signal;
+
+        try {
+            // The backend does the probing, so scans work under HTTPS and against lights without CORS headers.
+            await scanForLights(scanIpBase.trim(), (event) => {
+                if (event.type === 'found') setScanResults(prev => [...prev, event.ip]);
+                else setScanProgress(event.scanned);
+            }, signal);
+        } catch (error: any) {
+            if (error.name !== 'AbortError') {
+                console.error("Network scan failed:", error);
+                setScanError(error.message);
+            }
+        } finally {
+            setIsScanning(false);
+        }
+    };
+
+    const handleStopScan = () => {
+        scanAbortControllerRef.current?.abort();
+        setIsScanning(false);
+    };
+
+    const handleIpSelect = (ip: string) => {
+        onSelectIp(`http://${ip}`);
+        onClose();
+    };
+    
+    useEffect(() => {
+        return () => {
+            scanAbortControllerRef.current?.abort();
+        };
+    }, []);
+
+    return (
+        <div className="absolute inset-0 bg-gray-900/80 backdrop-blur-sm z-20 flex items-center justify-center p-4">
+            <div className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-md relative animate-fade-in">
+                <h4 className="text-lg font-bold text-white mb-4">Scan for Lights</h4>
+                <div className="flex items-center gap-2 mb-4">
+                    <input
+                        type="text"
+                        value={scanIpBase}
+                        onChange={(e) => setScanIpBase(e.target.value)}
+                        placeholder="e.g., 192.168.1"
+                        disabled={isScanning}
+                        className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+                    />
+                    <button
+                        onClick={isScanning ? handleStopScan : handleStartScan}
+                        className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors w-28 text-white ${isScanning ? 'bg-red-600 hover:bg-red-700' : 'bg-cyan-600 hover:bg-cyan-700'}`}
+                    >
+                        {isScanning ? 'Stop' : 'Scan'}
+                    </button>
+                </div>
+                {isScanning && (
+                    <div className="mb-4">
+                        <div className="flex justify-between text-xs text-gray-400 mb-1">
+                            <span>Progress</span>
+                            <span>{Math.round((scanProgress / 254) * 100)}%</span>
+                        </div>
+                        <div className="w-full bg-gray-700 rounded-full h-2.5">
+                            <div className="bg-cyan-500 h-2.5 rounded-full transition-all duration-150" style={{ width: `${(scanProgress / 254) * 100}%` }}></div>
+                        </div>
+                    </div>
+                )}
+                <div className="bg-gray-900/50 rounded-md p-3 min-h-[120px] max-h-48 overflow-y-auto">
+                    {scanResults.length > 0 ? (
+                        <ul className="space-y-1">
+                            {scanResults.map(ip => (
+                                <li key={ip}>
+                                    <button onClick={() => handleIpSelect(ip)} className="w-full text-left p-2 rounded-md hover:bg-cyan-800/50 text-cyan-300 font-mono text-sm">
+                                        {ip}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                         <p className={`text-center text-sm p-4 ${scanError ? 'text-red-400' : 'text-gray-500'}`}>
+                           {isScanning ? `Scanning ${scanIpBase}.1-254...` : scanError || 'No devices found. Ensure they are on the same network as the backend.'}
+                        </p>
+                    )}
+                </div>
+                 <button onClick={onClose} className="mt-4 w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
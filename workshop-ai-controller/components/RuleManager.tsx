@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Device, NewRule, Rule, RuleActivity, RuleTrigger, Scene } from '../types';
+import { TRIGGER_FIELDS } from '../services/rules';
+import { ActionListEditor, defaultAction, describeAction } from './ActionListEditor';
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+const selectClassName = "bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+
+// A trigger on the given device, watching its first field.
+const defaultTrigger = (device?: Device): RuleTrigger => {
+    const fields = (device && TRIGGER_FIELDS[device.kind]) || {};
+    const field = Object.keys(fields)[0] ?? '';
+    return { deviceId: device?.id ?? '', field, to: fields[field]?.[0] ?? '' };
+};
+
+const describeTrigger = (trigger: RuleTrigger, devices: Device[]) => {
+    const name = devices.find(device => device.id === trigger.deviceId)?.name ?? 'removed device';
+    return `When ${name} ${trigger.field} becomes ${trigger.to}${trigger.from ? ` (from ${trigger.from})` : ''}`;
+};
+
+const describeActivity = (activity?: RuleActivity) => {
+    if (!activity) return 'Has not fired since the backend started.';
+    const when = new Date(activity.lastFiredAt).toLocaleTimeString();
+    if (activity.pending) return `Fired at ${when}; delayed actions waiting.`;
+    const failed = activity.results?.filter(result => result.status === 'ERROR') ?? [];
+    const cancelled = activity.results?.some(result => result.status === 'CANCELLED');
+    if (failed.length > 0) return `Fired at ${when}; ${failed.map(result => result.message).join(' ')}`;
+    return `Fired at ${when}${cancelled ? '; delayed actions were cancelled' : ''}.`;
+};
+
+const RuleForm: React.FC<{
+    initial: NewRule;
+    devices: Device[];
+    scenes: Scene[];
+    submitLabel: string;
+    onSubmit: (rule: NewRule) => Promise<void>;
+    onCancel: () => void;
+}> = ({ initial, devices, scenes, submitLabel, onSubmit, onCancel }) => {
+    const [draft, setDraft] = useState<NewRule>(initial);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const triggerDevices = devices.filter(device => TRIGGER_FIELDS[device.kind]);
+    const triggerDevice = devices.find(device => device.id === draft.trigger.deviceId);
+    const fields = (triggerDevice && TRIGGER_FIELDS[triggerDevice.kind]) || {};
+    const values = fields[draft.trigger.field] ?? [];
+    const setTrigger = (changes: Partial<RuleTrigger>) => setDraft({ ...draft, trigger: { ...draft.trigger, ...changes } });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError('');
+        try {
+            await onSubmit(draft);
+        } catch (err: any) {
+            setError(err.message);
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+            <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name, e.g. Dust collector follows the CNC"
+                disabled={isSaving}
+                className={inputClassName}
+            />
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-300">
+                <span>When</span>
+                <select
+                    value={draft.trigger.deviceId}
+                    onChange={(e) => setDraft({ ...draft, trigger: defaultTrigger(devices.find(device => device.id === e.target.value)) })}
+                    disabled={isSaving}
+                    className={selectClassName}
+                    aria-label="Trigger device"
+                >
+                    {triggerDevices.map(device => <option key={device.id} value={device.id}>{device.name}</option>)}
+                </select>
+                <select
+                    value={draft.trigger.field}
+                    onChange={(e) => setTrigger({ field: e.target.value, to: fields[e.target.value]?.[0] ?? '', from: undefined })}
+                    disabled={isSaving}
+                    className={selectClassName}
+                    aria-label="Trigger field"
+                >
+                    {Object.keys(fields).map(field => <option key={field} value={field}>{field}</option>)}
+                </select>
+                <span>changes from</span>
+                <select
+                    value={draft.trigger.from ?? ''}
+                    onChange={(e) => setTrigger({ from: e.target.value || undefined })}
+                    disabled={isSaving}
+                    className={selectClassName}
+                    aria-label="Previous value"
+                >
+                    <option value="">anything</option>
+                    {values.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+                <span>to</span>
+                <select value={draft.trigger.to} onChange={(e) => setTrigger({ to: e.target.value })} disabled={isSaving} className={selectClassName} aria-label="New value">
+                    {values.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+            </div>
+            <div>
+                <p className="text-xs text-gray-400 mb-1">Then</p>
+                <ActionListEditor
+                    actions={draft.actions}
+                    devices={devices}
+                    scenes={scenes}
+                    disabled={isSaving}
+                    onChange={(actions) => setDraft({ ...draft, actions })}
+                />
+            </div>
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+            <div className="flex gap-2">
+                <button type="submit" disabled={isSaving || !draft.name.trim() || draft.actions.length === 0} className="flex-1 px-4 py-2 text-sm font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white disabled:opacity-50 disabled:cursor-not-allowed">
+                    {isSaving ? 'Saving...' : submitLabel}
+                </button>
+                <button type="button" onClick={onCancel} disabled={isSaving} className="px-4 py-2 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-700 text-white">
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export const RuleManager: React.FC<{
+    rules: Rule[];
+    activity: Record<string, RuleActivity>;
+    devices: Device[];
+    scenes: Scene[];
+    onCreate: (rule: NewRule) => Promise<void>;
+    onUpdate: (id: string, changes: Partial<NewRule>) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+    onClose: () => void;
+}> = ({ rules, activity, devices, scenes, onCreate, onUpdate, onDelete, onClose }) => {
+    // null: list only; 'new': adding a rule; otherwise the id of the rule being edited.
+    const [editing, setEditing] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const newRule = (): NewRule => ({
+        name: '',
+        enabled: true,
+        trigger: defaultTrigger(devices.find(device => TRIGGER_FIELDS[device.kind])),
+        actions: [defaultAction('dustCollector', devices, scenes)],
+    });
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleDelete = (rule: Rule) => {
+        if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+        run(() => onDelete(rule.id));
+    };
+
+    return (
+        <div className="absolute inset-0 bg-gray-900/80 backdrop-blur-sm z-20 flex items-start justify-center p-4">
+            <div className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-2xl relative animate-fade-in">
+                <h4 className="text-lg font-bold text-white mb-1">Automation Rules</h4>
+                <p className="text-xs text-gray-400 mb-4">Rules run on the backend, so they work even when no Control Panel is open.</p>
+                {editing !== null ? (
+                    <RuleForm
+                        initial={editing === 'new' ? newRule() : rules.find(rule => rule.id === editing) ?? newRule()}
+                        devices={devices}
+                        scenes={scenes}
+                        submitLabel={editing === 'new' ? 'Add Rule' : 'Save'}
+                        onSubmit={async (rule) => {
+                            if (editing === 'new') await onCreate(rule);
+                            else await onUpdate(editing, rule);
+                            setEditing(null);
+                        }}
+                        onCancel={() => setEditing(null)}
+                    />
+                ) : (
+                    <>
+                        <div className="bg-gray-900/50 rounded-md p-3 max-h-96 overflow-y-auto">
+                            {rules.length === 0 && <p className="text-gray-500 text-center text-sm p-4">No rules yet.</p>}
+                            <ul className="space-y-2">
+                                {rules.map(rule => (
+                                    <li key={rule.id} className="p-2 rounded-md bg-gray-800/70 flex items-start gap-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={rule.enabled}
+                                            onChange={(e) => run(() => onUpdate(rule.id, { enabled: e.target.checked }))}
+                                            className="mt-1"
+                                            aria-label={`Enable ${rule.name}`}
+                                        />
+                                        <div className="min-w-0 flex-grow">
+                                            <p className={`text-sm font-semibold truncate ${rule.enabled ? 'text-gray-200' : 'text-gray-500'}`}>{rule.name}</p>
+                                            <p className="text-xs text-gray-400">
+                                                {describeTrigger(rule.trigger, devices)}: {rule.actions.map(action => describeAction(action, devices, scenes)).join(', ')}
+                                            </p>
+                                            <p className="text-xs text-gray-500">{describeActivity(activity[rule.id])}</p>
+                                        </div>
+                                        <button onClick={() => setEditing(rule.id)} className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 text-white">Edit</button>
+                                        <button onClick={() => handleDelete(rule)} className="px-3 py-1 text-xs font-semibold rounded-md bg-red-600 hover:bg-red-700 text-white">Delete</button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                        {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+                        <button
+                            onClick={() => setEditing('new')}
+                            disabled={!devices.some(device => TRIGGER_FIELDS[device.kind])}
+                            className="mt-4 w-full px-4 py-2 text-sm font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Add Rule
+                        </button>
+                    </>
+                )}
+                <button onClick={onClose} className="mt-4 w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Device, LightState, NewScene, Scene, SceneLight, SceneLightResult } from '../types';
+import { LightbulbIcon } from './Icons';
+
+const rgbToHex = ({ r, g, b }: { r: number; g: number; b: number }) => `#${[r, g, b].map(x => x.toString(16).padStart(2, '0')).join('')}`;
+
+// Captures what the given lights currently show, as scene entries.
+const captureLights = (lightIds: string[], lights: Record<string, LightState>, fallback: LightState): SceneLight[] =>
+    lightIds.map(deviceId => {
+        const { power, r, g, b } = lights[deviceId] ?? fallback;
+        return { deviceId, power, color: { r, g, b } };
+    });
+
+export const ScenesCard: React.FC<{
+    scenes: Scene[];
+    lightDevices: Device[];
+    lights: Record<string, LightState>;
+    defaultLight: LightState;
+    onApply: (scene: Scene) => Promise<SceneLightResult[]>;
+    onSave: (scene: NewScene) => Promise<void>;
+    onUpdate: (id: string, changes: Partial<NewScene>) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+}> = ({ scenes, lightDevices, lights, defaultLight, onApply, onSave, onUpdate, onDelete }) => {
+    const [name, setName] = useState('');
+    const [selectedLights, setSelectedLights] = useState<string[] | null>(null);
+    const [busySceneId, setBusySceneId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    // Until the user picks lights, a new scene covers every light.
+    const lightIds = selectedLights ?? lightDevices.map(device => device.id);
+    const deviceName = (id: string) => lightDevices.find(device => device.id === id)?.name ?? 'Unknown light';
+
+    const toggleLight = (id: string) => setSelectedLights(
+        lightIds.includes(id) ? lightIds.filter(other => other !== id) : [...lightIds, id],
+    );
+
+    const runForScene = async (scene: Scene, action: () => Promise<string>) => {
+        setBusySceneId(scene.id);
+        setMessage(null);
+        try {
+            setMessage({ text: await action(), isError: false });
+        } catch (error: any) {
+            setMessage({ text: error.message, isError: true });
+        } finally {
+            setBusySceneId(null);
+        }
+    };
+
+    const handleApply = (scene: Scene) => runForScene(scene, async () => {
+        const failed = (await onApply(scene)).filter(result => result.status === 'ERROR');
+        if (failed.length > 0) {
+            throw new Error(`"${scene.name}" only partly recalled. ${failed.map(result => `${result.name}: ${result.message}`).join(' ')}`);
+        }
+        return `"${scene.name}" recalled.`;
+    });
+
+    const handleUpdate = (scene: Scene) => runForScene(scene, async () => {
+        const sceneLightIds = scene.lights.map(light => light.deviceId);
+        await onUpdate(scene.id, { lights: captureLights(sceneLightIds, lights, defaultLight) });
+        return `"${scene.name}" now matches the current lights.`;
+    });
+
+    const handleDelete = (scene: Scene) => {
+        if (!window.confirm(`Delete the scene "${scene.name}"?`)) return;
+        runForScene(scene, async () => {
+            await onDelete(scene.id);
+            return `"${scene.name}" deleted.`;
+        });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setMessage(null);
+        try {
+            await onSave({ name, lights: captureLights(lightIds, lights, defaultLight) });
+            setMessage({ text: `Saved "${name.trim()}".`, isError: false });
+            setName('');
+            setSelectedLights(null);
+        } catch (error: any) {
+            setMessage({ text: error.message, isError: true });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-6 shadow-lg flex flex-col">
+            <div className="flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">Lighting Scenes</h3>
+                <LightbulbIcon className="w-6 h-6 text-yellow-400" />
+            </div>
+            <p className="text-gray-400 mt-2">Recall saved light settings with one tap.</p>
+
+            <div className="mt-4 flex flex-col gap-2">
+                {scenes.length === 0 && <p className="text-sm text-gray-500">No scenes saved yet.</p>}
+                {scenes.map(scene => (
+                    <div key={scene.id} className="flex items-center gap-2">
+                        <button
+                            onClick={() => handleApply(scene)}
+                            disabled={busySceneId !== null}
+                            title={scene.lights.map(light => `${deviceName(light.deviceId)}: ${light.power}`).join(', ')}
+                            className={`flex-grow flex items-center gap-2 px-3 py-2 text-sm font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white text-left transition-colors disabled:opacity-50 ${busySceneId === scene.id ? 'animate-pulse' : ''}`}
+                        >
+                            <span className="flex -space-x-1">
+                                {scene.lights.map(light => (
+                                    <span
+                                        key={light.deviceId}
+                                        className="w-3 h-3 rounded-full border border-gray-900"
+                                        style={{ backgroundColor: light.power === 'on' && light.color ? rgbToHex(light.color) : '#374151' }}
+                                    />
+                                ))}
+                            </span>
+                            <span className="truncate">{scene.name}</span>
+                        </button>
+                        <button onClick={() => handleUpdate(scene)} disabled={busySceneId !== null} className="text-xs text-cyan-400 hover:text-cyan-300 disabled:opacity-50" title="Overwrite with the current light settings">Update</button>
+                        <button onClick={() => handleDelete(scene)} disabled={busySceneId !== null} className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50">Delete</button>
+                    </div>
+                ))}
+            </div>
+
+            {message && <p className={`text-sm mt-3 ${message.isError ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+
+            <form onSubmit={handleSave} className="mt-4 pt-4 border-t border-gray-700 flex flex-col gap-2">
+                <label htmlFor="new-scene-name" className="text-sm text-gray-400">Save current lights as a scene</label>
+                <input
+                    id="new-scene-name"
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Soldering – bright white"
+                    disabled={isSaving}
+                    className="w-full bg-gray-900/50 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+                />
+                {lightDevices.length > 1 && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                        {lightDevices.map(device => (
+                            <label key={device.id} className="flex items-center gap-1 text-xs text-gray-300">
+                                <input type="checkbox" checked={lightIds.includes(device.id)} onChange={() => toggleLight(device.id)} disabled={isSaving} />
+                                {device.name}
+                            </label>
+                        ))}
+                    </div>
+                )}
+                <button
+                    type="submit"
+                    disabled={isSaving || !name.trim() || lightIds.length === 0}
+                    className="px-3 py-2 text-sm font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isSaving ? 'Saving...' : 'Save Scene'}
+                </button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Device, NewSchedule, Scene, Schedule, ScheduleRun } from '../types';
+import { CRON_PRESETS } from '../services/schedules';
+import { ActionListEditor, defaultAction, describeAction } from './ActionListEditor';
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+const selectClassName = "bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+
+const describeCron = (cron: string) => CRON_PRESETS.find(preset => preset.cron === cron)?.label ?? cron;
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+const describeRun = (run: ScheduleRun) => {
+    const when = formatTime(run.startedAt);
+    const how = run.trigger === 'manual' ? `run by ${run.actor}` : 'on schedule';
+    if (!run.results) return `${when}, ${how}: running...`;
+    const failed = run.results.filter(result => result.status === 'ERROR');
+    const cancelled = run.results.some(result => result.status === 'CANCELLED');
+    if (failed.length > 0) return `${when}, ${how}: ${failed.map(result => result.message).join(' ')}`;
+    return `${when}, ${how}: ${cancelled ? 'delayed actions were cancelled' : 'done'}.`;
+};
+
+const ScheduleForm: React.FC<{
+    initial: NewSchedule;
+    devices: Device[];
+    scenes: Scene[];
+    submitLabel: string;
+    onSubmit: (schedule: NewSchedule) => Promise<void>;
+    onCancel: () => void;
+}> = ({ initial, devices, scenes, submitLabel, onSubmit, onCancel }) => {
+    const [draft, setDraft] = useState<NewSchedule>(initial);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError('');
+        try {
+            await onSubmit(draft);
+        } catch (err: any) {
+            setError(err.message);
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+            <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name, e.g. Lights on for the morning"
+                disabled={isSaving}
+                className={inputClassName}
+            />
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-300">
+                <span>Runs</span>
+                <select
+                    value={CRON_PRESETS.some(preset => preset.cron === draft.cron) ? draft.cron : ''}
+                    onChange={(e) => e.target.value && setDraft({ ...draft, cron: e.target.value })}
+                    disabled={isSaving}
+                    className={selectClassName}
+                    aria-label="Preset"
+                >
+                    <option value="">Custom</option>
+                    {CRON_PRESETS.map(preset => <option key={preset.cron} value={preset.cron}>{preset.label}</option>)}
+                </select>
+                <input
+                    type="text"
+                    value={draft.cron}
+                    onChange={(e) => setDraft({ ...draft, cron: e.target.value })}
+                    placeholder="minute hour day month weekday"
+                    disabled={isSaving}
+                    className={`${selectClassName} font-mono w-48`}
+                    aria-label="Cron expression"
+                />
+            </div>
+            <p className="text-xs text-gray-500">
+                Cron fields are minute, hour, day of month, month and weekday, in the backend's time zone, e.g. <code>0 22 * * *</code> or <code>30 7 * * mon-fri</code>.
+            </p>
+            <div>
+                <p className="text-xs text-gray-400 mb-1">Then</p>
+                <ActionListEditor
+                    actions={draft.actions}
+                    devices={devices}
+                    scenes={scenes}
+                    disabled={isSaving}
+                    onChange={(actions) => setDraft({ ...draft, actions })}
+                />
+            </div>
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+            <div className="flex gap-2">
+                <button type="submit" disabled={isSaving || !draft.name.trim() || !draft.cron.trim() || draft.actions.length === 0} className="flex-1 px-4 py-2 text-sm font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white disabled:opacity-50 disabled:cursor-not-allowed">
+                    {isSaving ? 'Saving...' : submitLabel}
+                </button>
+                <button type="button" onClick={onCancel} disabled={isSaving} className="px-4 py-2 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-700 text-white">
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export const ScheduleManager: React.FC<{
+    schedules: Schedule[];
+    runs: ScheduleRun[];
+    devices: Device[];
+    scenes: Scene[];
+    onCreate: (schedule: NewSchedule) => Promise<void>;
+    onUpdate: (id: string, changes: Partial<NewSchedule>) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+    onRunNow: (id: string) => Promise<void>;
+    onClose: () => void;
+}> = ({ schedules, runs, devices, scenes, onCreate, onUpdate, onDelete, onRunNow, onClose }) => {
+    // null: list only; 'new': adding a schedule; otherwise the id of the schedule being edited.
+    const [editing, setEditing] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const newSchedule = (): NewSchedule => ({
+        name: '',
+        enabled: true,
+        cron: CRON_PRESETS[0].cron,
+        actions: [defaultAction('light', devices, scenes)],
+    });
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleDelete = (schedule: Schedule) => {
+        if (!window.confirm(`Delete the schedule "${schedule.name}"?`)) return;
+        run(() => onDelete(schedule.id));
+    };
+
+    return (
+        <div className="absolute inset-0 bg-gray-900/80 backdrop-blur-sm z-20 flex items-start justify-center p-4">
+            <div className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-2xl relative animate-fade-in">
+                <h4 className="text-lg font-bold text-white mb-1">Schedules</h4>
+                <p className="text-xs text-gray-400 mb-4">Schedules run on the backend at the set times, so they work even when no Control Panel is open.</p>
+                {editing !== null ? (
+                    <ScheduleForm
+                        initial={editing === 'new' ? newSchedule() : schedules.find(schedule => schedule.id === editing) ?? newSchedule()}
+                        devices={devices}
+                        scenes={scenes}
+                        submitLabel={editing === 'new' ? 'Add Schedule' : 'Save'}
+                        onSubmit={async ({ name, enabled, cron, actions }) => {
+                            const schedule = { name, enabled, cron, actions };
+                            if (editing === 'new') await onCreate(schedule);
+                            else await onUpdate(editing, schedule);
+                            setEditing(null);
+                        }}
+                        onCancel={() => setEditing(null)}
+                    />
+                ) : (
+                    <>
+                        <div className="bg-gray-900/50 rounded-md p-3 max-h-72 overflow-y-auto">
+                            {schedules.length === 0 && <p className="text-gray-500 text-center text-sm p-4">No schedules yet.</p>}
+                            <ul className="space-y-2">
+                                {schedules.map(schedule => (
+                                    <li key={schedule.id} className="p-2 rounded-md bg-gray-800/70 flex items-start gap-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={schedule.enabled}
+                                            onChange={(e) => run(() => onUpdate(schedule.id, { enabled: e.target.checked }))}
+                                            className="mt-1"
+                                            aria-label={`Enable ${schedule.name}`}
+                                        />
+                                        <div className="min-w-0 flex-grow">
+                                            <p className={`text-sm font-semibold truncate ${schedule.enabled ? 'text-gray-200' : 'text-gray-500'}`}>{schedule.name}</p>
+                                            <p className="text-xs text-gray-400">
+                                                {describeCron(schedule.cron)}: {schedule.actions.map(action => describeAction(action, devices, scenes)).join(', ')}
+                                            </p>
+                                            <p className="text-xs text-gray-500">
+                                                {schedule.nextRunAt ? `Next run ${formatTime(schedule.nextRunAt)}.` : 'Not scheduled.'}
+                                            </p>
+                                        </div>
+                                        <button onClick={() => run(() => onRunNow(schedule.id))} className="px-3 py-1 text-xs font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white">Run now</button>
+                                        <button onClick={() => setEditing(schedule.id)} className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 text-white">Edit</button>
+                                        <button onClick={() => handleDelete(schedule)} className="px-3 py-1 text-xs font-semibold rounded-md bg-red-600 hover:bg-red-700 text-white">Delete</button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                        {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+                        <button
+                            onClick={() => setEditing('new')}
+                            disabled={devices.length === 0}
+                            className="mt-4 w-full px-4 py-2 text-sm font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Add Schedule
+                        </button>
+                        <h5 className="text-sm font-semibold text-gray-300 mt-4 mb-2">Recent runs</h5>
+                        <div className="bg-gray-900/50 rounded-md p-3 max-h-40 overflow-y-auto">
+                            {runs.length === 0 && <p className="text-gray-500 text-center text-xs">No runs yet.</p>}
+                            <ul className="space-y-1">
+                                {runs.map(entry => (
+                                    <li key={entry.id} className="text-xs text-gray-400">
+                                        <span className="font-semibold text-gray-300">{entry.name}</span> {describeRun(entry)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </>
+                )}
+                <button onClick={onClose} className="mt-4 w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
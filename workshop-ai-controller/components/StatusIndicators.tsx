@@ -0,0 +1,31 @@
+import React from 'react';
+import { CncStatus, ConnectionStatus } from '../types';
+import { WifiIcon, PlugXIcon } from './Icons';
+
+export const CncStatusIndicator: React.FC<{status: CncStatus}> = ({ status }) => {
+    const statusMap = {
+        Disconnected: { text: 'text-gray-500', bg: 'bg-gray-700' },
+        Connecting: { text: 'text-blue-300', bg: 'bg-blue-900 animate-pulse' },
+        Reconnecting: { text: 'text-orange-300', bg: 'bg-orange-900 animate-pulse' },
+        Idle: { text: 'text-cyan-300', bg: 'bg-cyan-900' },
+        Running: { text: 'text-green-300', bg: 'bg-green-900' },
+        Paused: { text: 'text-yellow-300', bg: 'bg-yellow-900' },
+        Alarm: { text: 'text-red-100', bg: 'bg-red-700 animate-pulse' },
+        EStop: { text: 'text-white', bg: 'bg-red-600 animate-pulse' },
+        Error: { text: 'text-red-300', bg: 'bg-red-900' },
+    };
+    return <span className={`px-2 py-1 text-xs font-bold rounded-full ${statusMap[status].text} ${statusMap[status].bg}`}>{status === 'EStop' ? 'E-STOP' : status}</span>;
+};
+
+export const ConnectionStatusIndicator: React.FC<{status: ConnectionStatus}> = ({ status }) => {
+    const statusMap = {
+        Disconnected: { text: 'text-gray-400', Icon: PlugXIcon },
+        Connecting: { text: 'text-blue-300 animate-pulse', Icon: WifiIcon },
+        Connected: { text: 'text-green-400', Icon: WifiIcon },
+        Error: { text: 'text-red-400', Icon: PlugXIcon },
+    };
+    const { text, Icon } = statusMap[status];
+    return <span className={`flex items-center gap-1.5 text-xs font-semibold ${text}`}>
+        <Icon className="w-4 h-4" /> {status}
+    </span>;
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { completedSegments, Point3, Toolpath } from '../services/gcode';
+
+type View = 'top' | 'front' | '3d';
+
+const VIEW_LABELS: Record<View, string> = { top: 'Top', front: 'Front', '3d': '3D' };
+const HEIGHT = 240;
+const MARGIN = 16;
+
+const COLORS = {
+    rapid: 'rgba(250, 204, 21, 0.6)',
+    cut: '#0e7490',
+    cutDone: '#22d3ee',
+    axisX: '#f87171',
+    axisY: '#4ade80',
+    axisZ: '#60a5fa',
+    tool: '#ef4444',
+};
+
+// Screen coordinates (u right, v up) of a point for the view; 3D is an orbit
+// around the Z axis (yaw) tilted towards the viewer (pitch).
+const projector = (view: View, yaw: number, pitch: number) => (p: Point3): [number, number] => {
+    if (view === 'top') return [p.x, p.y];
+    if (view === 'front') return [p.x, p.z];
+    const x = p.x * Math.cos(yaw) - p.y * Math.sin(yaw);
+    const depth = p.x * Math.sin(yaw) + p.y * Math.cos(yaw);
+    return [x, depth * Math.sin(pitch) + p.z * Math.cos(pitch)];
+};
+
+/**
+ * Draws the toolpath of the loaded program: rapids dashed, cuts solid and
+ * brighter once done, the work origin as a small axis cross and the tool as a
+ * red dot. Drag to orbit in the 3D view.
+ */
+export const ToolpathViewer: React.FC<{ toolpath: Toolpath; linesDone: number }> = ({ toolpath, linesDone }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragRef = useRef<{ x: number; y: number } | null>(null);
+    const [width, setWidth] = useState(0);
+    const [view, setView] = useState<View>('top');
+    const [orbit, setOrbit] = useState({ yaw: -Math.PI / 4, pitch: Math.PI / 3 });
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || width === 0) return;
+
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = width * ratio;
+        canvas.height = HEIGHT * ratio;
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+        ctx.clearRect(0, 0, width, HEIGHT);
+
+        const { segments, bounds } = toolpath;
+        if (!bounds) return;
+        const project = projector(view, orbit.yaw, orbit.pitch);
+
+        // Fit the toolpath and the origin into the canvas, keeping the aspect ratio.
+        let [minU, minV, maxU, maxV] = [0, 0, 0, 0];
+        for (const segment of segments) {
+            for (const point of [segment.from, segment.to]) {
+                const [u, v] = project(point);
+                minU = Math.min(minU, u); maxU = Math.max(maxU, u);
+                minV = Math.min(minV, v); maxV = Math.max(maxV, v);
+            }
+        }
+        const scale = Math.min((width - 2 * MARGIN) / (maxU - minU || 1), (HEIGHT - 2 * MARGIN) / (maxV - minV || 1));
+        const offsetU = (width - (maxU - minU) * scale) / 2;
+        const offsetV = (HEIGHT - (maxV - minV) * scale) / 2;
+        const toScreen = (p: Point3): [number, number] => {
+            const [u, v] = project(p);
+            return [offsetU + (u - minU) * scale, HEIGHT - offsetV - (v - minV) * scale];
+        };
+
+        const done = completedSegments(toolpath, linesDone);
+        const stroke = (color: string, dashed: boolean, include: (index: number) => boolean) => {
+            ctx.beginPath();
+            segments.forEach((segment, index) => {
+                if (!include(index)) return;
+                ctx.moveTo(...toScreen(segment.from));
+                ctx.lineTo(...toScreen(segment.to));
+            });
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 1;
+            ctx.setLineDash(dashed ? [3, 3] : []);
+            ctx.stroke();
+        };
+        stroke(COLORS.rapid, true, index => segments[index].rapid);
+        stroke(COLORS.cut, false, index => !segments[index].rapid && index >= done);
+        stroke(COLORS.cutDone, false, index => !segments[index].rapid && index < done);
+
+        // Work origin, so a wrong zero stands out.
+        const axisLength = 20 / scale;
+        ctx.setLineDash([]);
+        ctx.lineWidth = 2;
+        const origin = toScreen({ x: 0, y: 0, z: 0 });
+        ([['x', COLORS.axisX], ['y', COLORS.axisY], ['z', COLORS.axisZ]] as const).forEach(([axis, color]) => {
+            const end = toScreen({ x: 0, y: 0, z: 0, [axis]: axisLength });
+            if (Math.hypot(end[0] - origin[0], end[1] - origin[1]) < 1) return;
+            ctx.beginPath();
+            ctx.moveTo(...origin);
+            ctx.lineTo(...end);
+            ctx.strokeStyle = color;
+            ctx.stroke();
+        });
+
+        const tool = done > 0 ? segments[done - 1].to : segments[0].from;
+        ctx.beginPath();
+        ctx.arc(...toScreen(tool), 4, 0, 2 * Math.PI);
+        ctx.fillStyle = COLORS.tool;
+        ctx.fill();
+    }, [toolpath, linesDone, view, orbit, width]);
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (view !== '3d') return;
+        dragRef.current = { x: e.clientX, y: e.clientY };
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const start = dragRef.current;
+        if (!start) return;
+        dragRef.current = { x: e.clientX, y: e.clientY };
+        setOrbit(prev => ({
+            yaw: prev.yaw - (e.clientX - start.x) / 100,
+            pitch: Math.min(Math.PI / 2, Math.max(0, prev.pitch + (e.clientY - start.y) / 100)),
+        }));
+    };
+
+    const { bounds } = toolpath;
+    return (
+        <div className="mt-4">
+            <div className="flex items-center justify-between mb-1">
+                <p className="text-xs text-gray-400">Toolpath</p>
+                <div className="flex gap-1">
+                    {(Object.keys(VIEW_LABELS) as View[]).map(v => (
+                        <button
+                            key={v}
+                            onClick={() => setView(v)}
+                            className={`px-2 py-0.5 text-xs rounded ${view === v ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            {VIEW_LABELS[v]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div ref={containerRef} className="bg-gray-900/50 rounded-md overflow-hidden">
+                {bounds ? (
+                    <canvas
+                        ref={canvasRef}
+                        style={{ width: '100%', height: HEIGHT }}
+                        className={view === '3d' ? 'cursor-grab touch-none' : ''}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={() => { dragRef.current = null; }}
+                    />
+                ) : (
+                    <p className="text-gray-500 text-xs text-center p-4">The file has no moves to draw.</p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+
+/**
+ * Asks the user to confirm a hazardous action the voice assistant was asked
+ * for, as an alternative to saying yes or no. The action is cancelled when
+ * the countdown runs out.
+ */
+export const VoiceConfirmationPrompt: React.FC<{
+    summary: string;
+    /** When the action is cancelled, in ms since the epoch. */
+    expiresAt: number;
+    onConfirm: () => void;
+    onCancel: () => void;
+}> = ({ summary, expiresAt, onConfirm, onCancel }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(interval);
+    }, []);
+
+    const secondsLeft = Math.max(0, Math.ceil((expiresAt - now) / 1000));
+
+    return (
+        <div className="mt-4 p-3 rounded-lg bg-yellow-900/40 border border-yellow-600 flex flex-col gap-2" role="alertdialog" aria-label="Confirm voice command">
+            <p className="text-sm text-yellow-100">
+                The assistant wants to <span className="font-bold text-yellow-200">{summary}</span>.
+            </p>
+            <div className="flex items-center gap-2">
+                <span className="text-xs text-yellow-300 flex-grow">Say yes or no, or choose here ({secondsLeft} s)</span>
+                <button
+                    onClick={onCancel}
+                    className="px-3 py-1.5 text-xs font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={onConfirm}
+                    className="px-3 py-1.5 text-xs font-semibold rounded-md bg-yellow-500 hover:bg-yellow-400 text-gray-900"
+                >
+                    Confirm
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { describeKey, VOICE_MODE_LABELS, VoiceMode, VoiceModeSettings } from '../services/voiceModes';
+import { isWakeWordSupported, WAKE_PHRASE } from '../services/wakeWord';
+
+const selectClassName = "bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none";
+
+/**
+ * Chooses how the voice assistant is started, and for hold-to-talk which key
+ * (or foot pedal) is held. Shows what the chosen mode is doing right now.
+ */
+export const VoiceModeSelector: React.FC<{
+    settings: VoiceModeSettings;
+    onChange: (settings: VoiceModeSettings) => void;
+    isListening: boolean;
+    isTalking: boolean;
+    /** Why the wake word is not being listened for, if it should be. */
+    wakeWordError: string;
+}> = ({ settings, onChange, isListening, isTalking, wakeWordError }) => {
+    const [isBindingKey, setIsBindingKey] = useState(false);
+
+    // The next key pressed becomes the talk key; a pedal sends its key like a keyboard does.
+    useEffect(() => {
+        if (!isBindingKey) return;
+        const onKeyDown = (event: KeyboardEvent) => {
+            event.preventDefault();
+            // Caught before the hold-to-talk listener, so binding a key does not start talking.
+            event.stopImmediatePropagation();
+            if (event.code !== 'Escape') onChange({ ...settings, talkKey: event.code });
+            setIsBindingKey(false);
+        };
+        window.addEventListener('keydown', onKeyDown, true);
+        return () => window.removeEventListener('keydown', onKeyDown, true);
+    }, [isBindingKey, settings, onChange]);
+
+    const talkKey = describeKey(settings.talkKey);
+    let status = '';
+    if (settings.mode === 'wakeWord') {
+        if (!isWakeWordSupported()) status = 'This browser cannot recognize speech on the device, which the wake word needs. Use the button or hold to talk.';
+        else if (wakeWordError) status = wakeWordError;
+        else status = isListening ? 'Listening. Closes after a few seconds of silence.' : `Say "${WAKE_PHRASE}" to start.`;
+    } else if (settings.mode === 'pushToTalk') {
+        status = isTalking ? 'Talking...' : `Hold ${talkKey} to talk.`;
+    }
+
+    return (
+        <div className="mb-3 flex flex-col gap-1 text-xs text-gray-300">
+            <div className="flex flex-wrap items-center gap-2">
+                <span>Start with</span>
+                <select
+                    value={settings.mode}
+                    onChange={(e) => onChange({ ...settings, mode: e.target.value as VoiceMode })}
+                    className={selectClassName}
+                    aria-label="Voice mode"
+                >
+                    {(Object.keys(VOICE_MODE_LABELS) as VoiceMode[]).map(mode => (
+                        <option key={mode} value={mode}>{VOICE_MODE_LABELS[mode]}</option>
+                    ))}
+                </select>
+                {settings.mode === 'pushToTalk' && (
+                    <button
+                        onClick={() => setIsBindingKey(!isBindingKey)}
+                        className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+                    >
+                        {isBindingKey ? 'Press a key or pedal (Esc cancels)' : `Key: ${talkKey}`}
+                    </button>
+                )}
+            </div>
+            {status && (
+                <p className={wakeWordError && settings.mode === 'wakeWord' ? 'text-red-400' : isTalking || isListening ? 'text-cyan-300' : 'text-gray-400'}>
+                    {status}
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { VoiceSession, VoiceSessionSummary, VoiceTranscriptEntry } from '../types';
+import { exportVoiceSession, getVoiceSession, listVoiceSessions, VoiceSessionFilters } from '../services/voiceSessions';
+import { VoiceTranscript } from './VoiceTranscript';
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none";
+const buttonClassName = "px-3 py-1 text-xs font-semibold rounded-md bg-cyan-600 hover:bg-cyan-700 text-white disabled:opacity-50 disabled:cursor-not-allowed";
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// <input type="date"> values are local dates; `to` includes the whole day.
+const dateToMs = (date: string, endOfDay = false) => {
+    if (!date) return undefined;
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, endOfDay ? day + 1 : day).getTime();
+};
+
+const describeMatch = (entry: VoiceTranscriptEntry) => entry.speaker === 'tool'
+    ? `${entry.name} ${JSON.stringify(entry.args)}`
+    : `${entry.speaker === 'user' ? 'User' : 'Assistant'}: ${entry.text}`;
+
+/**
+ * Saved voice conversations, searchable by what was said and which functions
+ * ran, each exportable as Markdown or JSON for incident review.
+ */
+export const VoiceSessionHistory: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const [query, setQuery] = useState('');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [sessions, setSessions] = useState<VoiceSessionSummary[]>([]);
+    const [selected, setSelected] = useState<VoiceSession | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    const filters = useMemo<VoiceSessionFilters>(() => ({
+        q: query.trim() || undefined,
+        from: dateToMs(fromDate),
+        to: dateToMs(toDate, true),
+    }), [query, fromDate, toDate]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        setError('');
+        // Typing a search should not send a request per keystroke.
+        const timer = setTimeout(() => {
+            listVoiceSessions(filters)
+                .then(result => !cancelled && setSessions(result))
+                .catch(err => !cancelled && setError(err.message))
+                .finally(() => !cancelled && setIsLoading(false));
+        }, 300);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [filters]);
+
+    const handleSelect = async (id: string) => {
+        setError('');
+        try {
+            setSelected(await getVoiceSession(id));
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleExport = async (format: 'markdown' | 'json') => {
+        if (!selected) return;
+        setError('');
+        try {
+            await exportVoiceSession(selected.id, format);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    return (
+        <div className="absolute inset-0 bg-gray-900/80 backdrop-blur-sm z-20 flex items-start justify-center p-4">
+            <div className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-4xl relative animate-fade-in">
+                <h4 className="text-lg font-bold text-white mb-1">Voice transcripts</h4>
+                <p className="text-xs text-gray-400 mb-4">Every voice conversation, with what the assistant said and each function it called. Export one to attach it to an incident report.</p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-300 mb-3">
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search, e.g. spindle or startCncCycle"
+                        className={`${inputClassName} w-64`}
+                        aria-label="Search"
+                    />
+                    <span>From</span>
+                    <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClassName} aria-label="From" />
+                    <span>to</span>
+                    <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClassName} aria-label="To" />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+                    <ul className="md:col-span-2 bg-gray-900/50 rounded-md max-h-96 overflow-y-auto text-xs">
+                        {!isLoading && sessions.length === 0 && <li className="text-gray-500 text-center text-sm p-4">No sessions match.</li>}
+                        {sessions.map(session => (
+                            <li key={session.id}>
+                                <button
+                                    onClick={() => handleSelect(session.id)}
+                                    className={`w-full text-left p-2 border-b border-gray-700/50 hover:bg-gray-700/50 ${selected?.id === session.id ? 'bg-gray-700/70' : ''}`}
+                                >
+                                    <span className="text-gray-200">{formatTime(session.startedAt)}</span>
+                                    <span className="text-gray-500"> · {session.startedBy} · {session.entryCount} {session.entryCount === 1 ? 'entry' : 'entries'}</span>
+                                    {session.preview && <span className="block text-gray-400 truncate">{session.preview}</span>}
+                                    {session.matches?.map((entry, index) => (
+                                        <span key={index} className="block text-cyan-300 truncate">{describeMatch(entry)}</span>
+                                    ))}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="md:col-span-3 flex flex-col gap-2">
+                        {selected ? (
+                            <>
+                                <div className="flex items-center gap-2 text-xs text-gray-400">
+                                    <span className="flex-grow">
+                                        {formatTime(selected.startedAt)} by {selected.startedBy}
+                                        {selected.endedAt === null ? ', not ended' : ` to ${formatTime(selected.endedAt)}`}
+                                    </span>
+                                    <button onClick={() => handleExport('markdown')} className={buttonClassName}>Export Markdown</button>
+                                    <button onClick={() => handleExport('json')} className={buttonClassName}>Export JSON</button>
+                                </div>
+                                <div className="bg-gray-900/50 rounded-md p-3 max-h-96 overflow-y-auto flex flex-col gap-3">
+                                    {selected.entries.length === 0 && <p className="text-gray-500 text-center text-sm m-auto">Nothing was said.</p>}
+                                    <VoiceTranscript entries={selected.entries} showTimes />
+                                </div>
+                            </>
+                        ) : (
+                            <p className="text-gray-500 text-center text-sm m-auto">Choose a session to read it.</p>
+                        )}
+                    </div>
+                </div>
+                {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+                <button onClick={onClose} className="mt-4 w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
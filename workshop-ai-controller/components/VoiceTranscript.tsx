@@ -0,0 +1,44 @@
+import React from 'react';
+import { VoiceTranscriptEntry } from '../types';
+
+const STATUS_STYLES: Record<string, string> = {
+    SUCCESS: 'text-green-400',
+    ERROR: 'text-red-400',
+    PENDING: 'text-yellow-300',
+    CANCELLED: 'text-orange-300',
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const ToolCall: React.FC<{ entry: Extract<VoiceTranscriptEntry, { speaker: 'tool' }> }> = ({ entry }) => {
+    const status = typeof entry.response.status === 'string' ? entry.response.status : null;
+    const message = typeof entry.response.message === 'string' ? entry.response.message : null;
+    return (
+        <details className="self-center w-[90%] text-xs bg-gray-800/80 border border-gray-700 rounded-md px-2 py-1">
+            <summary className="cursor-pointer text-gray-300">
+                <span className="font-mono text-cyan-300">{entry.name}</span>
+                <span className="font-mono text-gray-500"> {JSON.stringify(entry.args)}</span>
+                {status && <span className={`ml-2 font-semibold ${STATUS_STYLES[status] ?? 'text-gray-300'}`}>{status}</span>}
+                {message && <span className="block text-gray-400">{message}</span>}
+            </summary>
+            <pre className="mt-1 text-gray-400 whitespace-pre-wrap break-all">{JSON.stringify(entry.response, null, 2)}</pre>
+        </details>
+    );
+};
+
+/**
+ * A voice conversation as chat bubbles, with the function calls between
+ * them: the function, its arguments and the response the model got.
+ */
+export const VoiceTranscript: React.FC<{ entries: VoiceTranscriptEntry[]; showTimes?: boolean }> = ({ entries, showTimes = false }) => (
+    <>
+        {entries.map((entry, index) => entry.speaker === 'tool' ? (
+            <ToolCall key={index} entry={entry} />
+        ) : (
+            <div key={index} className={`p-2 rounded-lg max-w-[85%] ${entry.speaker === 'user' ? 'bg-cyan-900/70 self-end' : 'bg-gray-700/70 self-start'}`}>
+                {showTimes && <p className="text-[10px] text-gray-400">{formatTime(entry.at)}</p>}
+                <p className="text-sm">{entry.text}</p>
+            </div>
+        ))}
+    </>
+);
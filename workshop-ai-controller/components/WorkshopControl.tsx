@@ -1,6 +1,34 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type, Session } from '@google/genai';
-import { PowerIcon, CameraIcon, MicIcon, StopCircleIcon, RssIcon, CncIcon, PlayIcon, PauseIcon, StopIcon, WifiIcon, PlugXIcon, ScanIcon } from './Icons';
+import { FunctionCall, FunctionResponse, FunctionResponseScheduling, GoogleGenAI, LiveServerMessage, Modality, Session } from '@google/genai';
+import { ClipboardListIcon, ClockIcon, MicIcon, SparklesIcon, StopCircleIcon, ToolsIcon } from './Icons';
+import { CameraState, CncJob, CncProgram, CncQueue, CncState, Device, DeviceKind, DeviceState, ConnectionStatus, LightState, NewDevice, NewRule, NewScene, NewSchedule, Rule, RuleActivity, Scene, Schedule, ScheduleRun, VoiceTranscriptEntry } from '../types';
+import { CncCommand, connectCnc, EMPTY_CNC_QUEUE, emergencyStopAllCnc, getCncProgram, holdCncQueue, homeCnc, jogCnc, overrideCnc, queueGcode, removeCncQueueEntry, reorderCncQueue, resetCnc, sendCncCommand as postCncCommand, startCncQueue, updateCncQueueEntry, uploadGcode, zeroCnc } from '../services/cnc';
+import { DEVICE_KIND_LABELS, listDevices, createDevice, updateDevice, deleteDevice, disconnectDevice } from '../services/devices';
+import { readDustCollectorPower, setDustCollectorPower } from '../services/dustCollectors';
+import { subscribeToWorkshopEvents } from '../services/events';
+import { LightCommand, readLightStatus, sendLightCommand } from '../services/lights';
+import { createRule, deleteRule, updateRule } from '../services/rules';
+import { applyScene, createScene, deleteScene, updateScene } from '../services/scenes';
+import { createVoiceDeviceTypes } from '../services/voiceDeviceTypes';
+import { loadVoiceModeSettings, saveVoiceModeSettings, VoiceModeSettings } from '../services/voiceModes';
+import { appendVoiceSessionEntries, endVoiceSession, startVoiceSession } from '../services/voiceSessions';
+import { CONFIRM_FUNCTION, createVoiceTools, toVoiceResponse, VoiceResponse, VoiceResult, VoiceTools } from '../services/voiceTools';
+import { createSchedule, deleteSchedule, runScheduleNow, updateSchedule } from '../services/schedules';
+import { listenForWakeWord } from '../services/wakeWord';
+import { CameraCard } from './CameraCard';
+import { CncCard } from './CncCard';
+import { DeviceManager } from './DeviceManager';
+import { DustCollectorCard } from './DustCollectorCard';
+import { LightCard } from './LightCard';
+import { RuleManager } from './RuleManager';
+import { ScenesCard } from './ScenesCard';
+import { ScheduleManager } from './ScheduleManager';
+import { EmergencyStopButton } from './EmergencyStopButton';
+import { JobHistory } from './JobHistory';
+import { VoiceConfirmationPrompt } from './VoiceConfirmationPrompt';
+import { VoiceModeSelector } from './VoiceModeSelector';
+import { VoiceSessionHistory } from './VoiceSessionHistory';
+import { VoiceTranscript } from './VoiceTranscript';
 
 // Audio helper functions
 function encode(bytes: Uint8Array): string {
@@ -42,504 +70,604 @@ async function decodeAudioData(
 }
 
 
-interface LightState {
-    power: 'on' | 'off';
-    r: number;
-    g: number;
-    b: number;
+// A hazardous voice command waiting to be confirmed, by voice or on screen.
+interface PendingVoiceAction {
+    /** The function call, for its final response. */
+    call: FunctionCall;
+    /** Whether its pending response has been sent, so the user can have been asked. */
+    asked: boolean;
+    /** Whether the user has spoken since; a voice confirmation before that is refused. */
+    heard: boolean;
+    summary: string;
+    expiresAt: number;
+    run: () => Promise<VoiceResult>;
+    timeout: ReturnType<typeof setTimeout>;
 }
 
-interface Transcript {
-    id: number;
-    speaker: 'user' | 'model';
-    text: string;
-}
+// Hazardous voice commands not confirmed in this time are cancelled.
+const VOICE_CONFIRM_TIMEOUT_MS = 15000;
 
-type CncStatus = 'Disconnected' | 'Connecting' | 'Idle' | 'Running' | 'Paused';
-type LightConnectionStatus = 'Disconnected' | 'Connecting' | 'Connected' | 'Error';
+// In wake word and hold-to-talk modes, a conversation with nothing said this long is closed.
+const VOICE_IDLE_TIMEOUT_MS = 10000;
 
+// Keys typed into a form field are text, not the talk key.
+const isTextEntry = (target: EventTarget | null) => target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
-// Gemini Function Declarations
-const controlDustCollector: FunctionDeclaration = {
-    name: 'controlDustCollector',
-    parameters: {
-        type: Type.OBJECT,
-        description: 'Turns the dust collector on or off.',
-        properties: { power: { type: Type.STRING, description: 'The desired state: `on` or `off`.' } },
-        required: ['power']
-    }
+const DEFAULT_LIGHT_STATE: LightState = { power: 'off', r: 255, g: 220, b: 180 };
+const DEFAULT_CAMERA_STATE: CameraState = { power: false, recording: false };
+const DEFAULT_CNC_STATE: CncState = {
+    status: 'Disconnected', alarm: null, gcodeFile: null, programId: null, progress: 0, linesDone: null, linesTotal: null,
+    machinePosition: null, workPosition: null, feedOverride: null, spindleOverride: null, feedRate: null, spindleSpeed: null,
+    bridge: null, lastError: null, reconnectAt: null,
 };
 
-const controlLights: FunctionDeclaration = {
-    name: 'controlLights',
-    parameters: {
-        type: Type.OBJECT,
-        description: 'Controls the workshop lights, including power and RGB color.',
-        properties: {
-            power: { type: Type.STRING, description: 'The desired power state: `on` or `off`.' },
-            r: { type: Type.NUMBER, description: 'Red color value from 0 to 255.' },
-            g: { type: Type.NUMBER, description: 'Green color value from 0 to 255.' },
-            b: { type: Type.NUMBER, description: 'Blue color value from 0 to 255.' },
-        }
-    }
-};
-
-const controlCamera: FunctionDeclaration = {
-    name: 'controlCamera',
-    parameters: {
-        type: Type.OBJECT,
-        description: 'Controls the workshop camera, including power and recording state.',
-        properties: {
-            power: { type: Type.STRING, description: 'The desired power state: `on` or `off`.' },
-            recording: { type: Type.BOOLEAN, description: 'Set to `true` to start recording, `false` to stop.' }
-        }
-    }
-};
+// Card order on the Control Panel, matching the original single-device layout.
+const KIND_ORDER: DeviceKind[] = ['cnc', 'camera', 'dustCollector', 'light'];
 
-const startCncCycle: FunctionDeclaration = { name: 'startCncCycle', description: 'Starts or resumes the G-code execution on the CNC machine.', parameters: { type: Type.OBJECT, properties: {} } };
-const pauseCncCycle: FunctionDeclaration = { name: 'pauseCncCycle', description: 'Pauses the G-code execution on the CNC machine.', parameters: { type: Type.OBJECT, properties: {} } };
-const stopCncCycle: FunctionDeclaration = { name: 'stopCncCycle', description: 'Stops the G-code execution on the CNC machine and resets the progress.', parameters: { type: Type.OBJECT, properties: {} } };
-
-const NetworkScanner: React.FC<{
-    onSelectIp: (ip: string) => void;
-    onClose: () => void;
-}> = ({ onSelectIp, onClose }) => {
-    const [scanIpBase, setScanIpBase] = useState('192.168.1');
-    const [isScanning, setIsScanning] = useState(false);
-    const [scanProgress, setScanProgress] = useState(0);
-    const [scanResults, setScanResults] = useState<string[]>([]);
-    const scanAbortControllerRef = useRef<AbortController | null>(null);
-
-    const handleStartScan = async () => {
-        setIsScanning(true);
-        setScanProgress(0);
-        setScanResults([]);
-        scanAbortControllerRef.current = new AbortController();
-        const signal = scanAbortControllerRef.current.signal;
-
-        const promises = [];
-        // This will hold a controller for each fetch request
-        const perRequestControllers: AbortController[] = [];
-
-        // If the main signal is aborted (e.g., user clicks "Stop"), abort all individual fetch requests.
-        const onGlobalAbort = () => {
-            perRequestControllers.forEach(controller => controller.abort());
-        };
-        signal.addEventListener('abort', onGlobalAbort);
-
-        for (let i = 1; i <= 254; i++) {
-            const ip = `${scanIpBase}.${i}`;
-            
-            // Create a controller for this specific request to handle its own timeout
-            const perRequestController = new AbortController();
-            perRequestControllers.push(perRequestController);
-
-            // Set a timeout to abort this specific request
-            const timeoutId = setTimeout(() => perRequestController.abort(), 1500);
-            
-            const promise = fetch(`http://${ip}/status`, {
-                signal: perRequestController.signal
-            }).then(response => {
-                if (response.ok) {
-                    setScanResults(prev => [...prev, ip]);
-                }
-            }).catch(() => {
-                // Ignore errors (timeouts, network errors, etc.)
-            }).finally(() => {
-                // Clean up the timeout and update progress regardless of outcome
-                clearTimeout(timeoutId);
-                setScanProgress(p => p + 1);
-            });
-            promises.push(promise);
-        }
-
-        try {
-            await Promise.allSettled(promises);
-        } finally {
-            // Clean up the global abort listener and set scanning state to false
-            signal.removeEventListener('abort', onGlobalAbort);
-            setIsScanning(false);
-        }
-    };
-
-    const handleStopScan = () => {
-        scanAbortControllerRef.current?.abort();
-        setIsScanning(false);
-    };
-
-    const handleIpSelect = (ip: string) => {
-        onSelectIp(`http://${ip}`);
-        onClose();
-    };
-    
-    useEffect(() => {
-        return () => {
-            scanAbortControllerRef.current?.abort();
-        };
-    }, []);
-
-    return (
-        <div className="absolute inset-0 bg-gray-900/80 backdrop-blur-sm z-20 flex items-center justify-center p-4">
-            <div className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-md relative animate-fade-in">
-                <h4 className="text-lg font-bold text-white mb-4">Scan for Lights</h4>
-                <div className="flex items-center gap-2 mb-4">
-                    <input
-                        type="text"
-                        value={scanIpBase}
-                        onChange={(e) => setScanIpBase(e.target.value)}
-                        placeholder="e.g., 192.168.1"
-                        disabled={isScanning}
-                        className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
-                    />
-                    <button
-                        onClick={isScanning ? handleStopScan : handleStartScan}
-                        className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors w-28 text-white ${isScanning ? 'bg-red-600 hover:bg-red-700' : 'bg-cyan-600 hover:bg-cyan-700'}`}
-                    >
-                        {isScanning ? 'Stop' : 'Scan'}
-                    </button>
-                </div>
-                {isScanning && (
-                    <div className="mb-4">
-                        <div className="flex justify-between text-xs text-gray-400 mb-1">
-                            <span>Progress</span>
-                            <span>{Math.round((scanProgress / 254) * 100)}%</span>
-                        </div>
-                        <div className="w-full bg-gray-700 rounded-full h-2.5">
-                            <div className="bg-cyan-500 h-2.5 rounded-full transition-all duration-150" style={{ width: `${(scanProgress / 254) * 100}%` }}></div>
-                        </div>
-                    </div>
-                )}
-                <div className="bg-gray-900/50 rounded-md p-3 min-h-[120px] max-h-48 overflow-y-auto">
-                    {scanResults.length > 0 ? (
-                        <ul className="space-y-1">
-                            {scanResults.map(ip => (
-                                <li key={ip}>
-                                    <button onClick={() => handleIpSelect(ip)} className="w-full text-left p-2 rounded-md hover:bg-cyan-800/50 text-cyan-300 font-mono text-sm">
-                                        {ip}
-                                    </button>
-                                </li>
-                            ))}
-                        </ul>
-                    ) : (
-                         <p className="text-gray-500 text-center text-sm p-4">
-                           {isScanning ? `Scanning ${scanIpBase}.1-254...` : 'No devices found. Ensure they are on the same network.'}
-                        </p>
-                    )}
-                </div>
-                 <button onClick={onClose} className="mt-4 w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">
-                    Close
-                </button>
-            </div>
-        </div>
-    );
-};
+const describeDevices = (devices: Device[]) => KIND_ORDER
+    .map(kind => {
+        const names = devices.filter(device => device.kind === kind).map(device => `"${device.name}"`);
+        return names.length > 0 ? `${DEVICE_KIND_LABELS[kind]}: ${names.join(', ')}` : null;
+    })
+    .filter(Boolean)
+    .join('; ');
 
 export const WorkshopControl: React.FC = () => {
     // Component State
-    const [dustCollectorOn, setDustCollectorOn] = useState(false);
-    const [lights, setLights] = useState<LightState>({ power: 'off', r: 255, g: 220, b: 180 });
-    const [isUpdatingLight, setIsUpdatingLight] = useState(false);
-    const [lightIpAddress, setLightIpAddress] = useState('http://192.168.1.50');
-    const [lightConnectionStatus, setLightConnectionStatus] = useState<LightConnectionStatus>('Disconnected');
-    const [isScannerOpen, setIsScannerOpen] = useState(false);
-    const [camera, setCamera] = useState({ power: false, recording: false });
+    const [devices, setDevices] = useState<Device[]>([]);
+    const [devicesError, setDevicesError] = useState('');
+    const [isDeviceManagerOpen, setIsDeviceManagerOpen] = useState(false);
+    const [dustCollectors, setDustCollectors] = useState<Record<string, boolean>>({});
+    const [dustCollectorStatuses, setDustCollectorStatuses] = useState<Record<string, ConnectionStatus>>({});
+    const [updatingDustCollectors, setUpdatingDustCollectors] = useState<Record<string, boolean>>({});
+    const [lights, setLights] = useState<Record<string, LightState>>({});
+    const [updatingLights, setUpdatingLights] = useState<Record<string, boolean>>({});
+    const [lightStatuses, setLightStatuses] = useState<Record<string, ConnectionStatus>>({});
+    const [cameras, setCameras] = useState<Record<string, CameraState>>({});
+    const [cncStates, setCncStates] = useState<Record<string, CncState>>({});
+    const [cncPrograms, setCncPrograms] = useState<Record<string, CncProgram>>({});
+    const [cncQueues, setCncQueues] = useState<Record<string, CncQueue>>({});
+    const [scenes, setScenes] = useState<Scene[]>([]);
+    const [rules, setRules] = useState<Rule[]>([]);
+    const [ruleActivity, setRuleActivity] = useState<Record<string, RuleActivity>>({});
+    const [isRuleManagerOpen, setIsRuleManagerOpen] = useState(false);
+    const [schedules, setSchedules] = useState<Schedule[]>([]);
+    const [scheduleRuns, setScheduleRuns] = useState<ScheduleRun[]>([]);
+    const [isScheduleManagerOpen, setIsScheduleManagerOpen] = useState(false);
+    const [cncJobs, setCncJobs] = useState<CncJob[]>([]);
+    const [isJobHistoryOpen, setIsJobHistoryOpen] = useState(false);
     const [isListening, setIsListening] = useState(false);
-    const [transcripts, setTranscripts] = useState<Transcript[]>([]);
-    const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
-    const [zoomLevel, setZoomLevel] = useState(1);
-    const [zoomCapabilities, setZoomCapabilities] = useState<{ min: number; max: number; step: number; } | null>(null);
-    const [cncStatus, setCncStatus] = useState<CncStatus>('Disconnected');
-    const [gcodeFile, setGcodeFile] = useState<string | null>(null);
-    const [gcodeProgress, setGcodeProgress] = useState(0);
-    const [wsAddress, setWsAddress] = useState('ws://192.168.1.123:8765');
-    
+    const [transcripts, setTranscripts] = useState<VoiceTranscriptEntry[]>([]);
+    const [isVoiceHistoryOpen, setIsVoiceHistoryOpen] = useState(false);
+    const [voiceSaveError, setVoiceSaveError] = useState('');
+    const [pendingVoiceAction, setPendingVoiceAction] = useState<PendingVoiceAction | null>(null);
+    const [voiceMode, setVoiceMode] = useState<VoiceModeSettings>(loadVoiceModeSettings);
+    const [isTalking, setIsTalking] = useState(false);
+    const [wakeWordError, setWakeWordError] = useState('');
+
     // Refs
     const sessionPromise = useRef<Promise<Session> | null>(null);
     const mediaStream = useRef<MediaStream | null>(null);
     const audioContext = useRef<AudioContext | null>(null);
     const scriptProcessor = useRef<ScriptProcessorNode | null>(null);
     const mediaStreamSource = useRef<MediaStreamAudioSourceNode | null>(null);
-    const videoRef = useRef<HTMLVideoElement>(null);
-    const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-    const recordedChunksRef = useRef<Blob[]>([]);
-    const websocketRef = useRef<WebSocket | null>(null);
-    const lightColorTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Plays the model's answers for the open conversation; closed with it, since browsers allow only a few.
+    const outputAudioContextRef = useRef<AudioContext | null>(null);
+    // Settles once the microphone is open; null while it is closed.
+    const microphoneRef = useRef<Promise<void> | null>(null);
+    const lightColorTimeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+    const requestedProgramsRef = useRef<Record<string, string>>({});
+    // The Live session callbacks outlive renders, so they go through this ref to reach current state.
+    const voiceToolsRef = useRef<VoiceTools>({ declarations: [], call: async () => ({ type: 'done', result: { results: [] } }) });
+    const pendingVoiceActionRef = useRef<PendingVoiceAction | null>(null);
+    // The id of the saved session of the current conversation (null if it could not be saved), once known.
+    const voiceSessionRef = useRef<Promise<string | null> | null>(null);
+    // Read by the audio callbacks and key listeners, which outlive the render that set them up.
+    const voiceModeRef = useRef(voiceMode.mode);
+    voiceModeRef.current = voiceMode.mode;
+    const talkingRef = useRef(false);
+    // When something was last said, by either side; in the future while the model's audio is still playing.
+    const lastVoiceActivityRef = useRef(0);
+    const startConversationRef = useRef<() => Promise<boolean>>(async () => false);
+    const stopConversationRef = useRef<() => void>(() => {});
+    const devicesRef = useRef<Device[]>([]);
+    devicesRef.current = devices;
+    const scenesRef = useRef<Scene[]>([]);
+    scenesRef.current = scenes;
+
+    // --- Device Registry ---
+    useEffect(() => {
+        listDevices()
+            .then(setDevices)
+            .catch(error => {
+                console.error("Failed to load devices:", error);
+                setDevicesError(`Could not load devices from the backend: ${error.message}`);
+            });
+    }, []);
 
-    // --- Smart Light Control ---
-    const handleConnectLight = async () => {
-        if (!lightIpAddress) return;
-        setLightConnectionStatus('Connecting');
+    const handleCreateDevice = async (device: NewDevice) => {
+        const created = await createDevice(device);
+        setDevices(prev => [...prev, created]);
+    };
+
+    const handleUpdateDevice = async (id: string, changes: Partial<NewDevice>) => {
+        const updated = await updateDevice(id, changes);
+        setDevices(prev => prev.map(device => device.id === id ? updated : device));
+        return updated;
+    };
+
+    const handleDeleteDevice = async (id: string) => {
+        await deleteDevice(id);
+        setDevices(prev => prev.filter(device => device.id !== id));
+    };
+
+    // Persists an address typed into a card before connecting to it.
+    const saveDeviceAddress = async (device: Device, address: string): Promise<Device | null> => {
+        if (!address) return null;
+        if (address === device.address) return device;
         try {
-            // Most local APIs have a status/ping endpoint. This simulates that check.
-            const response = await fetch(`${lightIpAddress.trim()}/status`, {
-                method: 'GET',
-                signal: AbortSignal.timeout(3000) // 3-second timeout for quick feedback
-            });
-            if (!response.ok) throw new Error('Device not responding or incorrect API format.');
-            
-            setLightConnectionStatus('Connected');
-        } catch (error) {
-            console.error("Failed to connect to light:", error);
-            setLightConnectionStatus('Error');
+            return await handleUpdateDevice(device.id, { address });
+        } catch (error: any) {
+            alert(`Could not save the address for ${device.name}: ${error.message}`);
+            return null;
         }
     };
 
-    const handleDisconnectLight = () => {
-        setLightConnectionStatus('Disconnected');
+    // --- Live updates ---
+    // The backend pushes every device change, whichever client or voice session
+    // made it, so all open panels show the same state.
+    const applyDeviceState = useCallback((device: Device, state: DeviceState) => {
+        const { connection, power, r, g, b } = state;
+        switch (device.kind) {
+            case 'light': {
+                // A pending slider change is newer than anything the backend knows.
+                const colorPending = Boolean(lightColorTimeoutsRef.current[device.id]);
+                setLights(prev => ({ ...prev, [device.id]: {
+                    ...(prev[device.id] ?? DEFAULT_LIGHT_STATE),
+                    ...(power && { power }),
+                    ...(!colorPending && r !== undefined && { r }),
+                    ...(!colorPending && g !== undefined && { g }),
+                    ...(!colorPending && b !== undefined && { b }),
+                } }));
+                if (connection) setLightStatuses(prev => ({ ...prev, [device.id]: connection }));
+                break;
+            }
+            case 'dustCollector':
+                if (power) setDustCollectors(prev => ({ ...prev, [device.id]: power === 'on' }));
+                if (connection) setDustCollectorStatuses(prev => ({ ...prev, [device.id]: connection }));
+                break;
+            case 'cnc':
+                setCncStates(prev => ({ ...prev, [device.id]: {
+                    status: state.status ?? DEFAULT_CNC_STATE.status,
+                    alarm: state.alarm ?? null,
+                    gcodeFile: state.gcodeFile ?? null,
+                    programId: state.programId ?? null,
+                    progress: state.progress ?? 0,
+                    linesDone: state.linesDone ?? null,
+                    linesTotal: state.linesTotal ?? null,
+                    machinePosition: state.machinePosition ?? null,
+                    workPosition: state.workPosition ?? null,
+                    feedOverride: state.feedOverride ?? null,
+                    spindleOverride: state.spindleOverride ?? null,
+                    feedRate: state.feedRate ?? null,
+                    spindleSpeed: state.spindleSpeed ?? null,
+                    bridge: state.bridge ?? null,
+                    lastError: state.lastError ?? null,
+                    reconnectAt: state.reconnectAt ?? null,
+                } }));
+                break;
+        }
+    }, []);
+
+    useEffect(() => subscribeToWorkshopEvents({
+        onSnapshot: ({ devices: snapshotDevices, states, scenes: snapshotScenes, rules: snapshotRules, ruleActivity: snapshotActivity, schedules: snapshotSchedules, scheduleRuns: snapshotRuns, cncJobs: snapshotJobs, cncQueues: snapshotQueues }) => {
+            setDevices(snapshotDevices);
+            setScenes(snapshotScenes);
+            setRules(snapshotRules);
+            setRuleActivity(snapshotActivity);
+            setSchedules(snapshotSchedules);
+            setScheduleRuns(snapshotRuns);
+            setCncJobs(snapshotJobs);
+            setCncQueues(snapshotQueues);
+            setDevicesError('');
+            snapshotDevices.forEach(device => {
+                if (states[device.id]) applyDeviceState(device, states[device.id]);
+            });
+        },
+        onDevices: setDevices,
+        onScenes: setScenes,
+        onRules: setRules,
+        onRuleActivity: (ruleId, activity) => setRuleActivity(prev => ({ ...prev, [ruleId]: activity })),
+        onSchedules: setSchedules,
+        // A run is sent once when it starts and again when it finishes; keep the newest first.
+        onScheduleRun: (run) => setScheduleRuns(prev => [run, ...prev.filter(r => r.id !== run.id)].sort((a, b) => b.startedAt - a.startedAt).slice(0, 50)),
+        onCncJob: (job) => setCncJobs(prev => [job, ...prev.filter(j => j.id !== job.id)].sort((a, b) => b.startedAt - a.startedAt).slice(0, 50)),
+        onCncQueue: (deviceId, queue) => setCncQueues(prev => ({ ...prev, [deviceId]: queue })),
+        onDeviceState: (deviceId, state) => {
+            const device = devicesRef.current.find(d => d.id === deviceId);
+            if (device) applyDeviceState(device, state);
+        },
+    }), [applyDeviceState]);
+
+    const handleDisconnect = (device: Device, setStatus: (id: string, status: ConnectionStatus) => void) => {
+        setStatus(device.id, 'Disconnected');
+        disconnectDevice(device.id).catch((error: Error) => {
+            console.error(`Failed to disconnect ${device.name}:`, error);
+        });
     };
 
-    const updateLightState = useCallback(async (newState: Partial<LightState>) => {
-        if (lightConnectionStatus !== 'Connected' || isUpdatingLight) return;
+    // --- Smart Light Control ---
+    const setLightStatus = (id: string, status: ConnectionStatus) => setLightStatuses(prev => ({ ...prev, [id]: status }));
 
-        const originalState = { ...lights };
-        const updatedState = { ...originalState, ...newState };
+    const handleConnectLight = async (device: Device, address: string) => {
+        const light = await saveDeviceAddress(device, address);
+        if (!light) return;
+        setLightStatus(light.id, 'Connecting');
+        try {
+            // The backend reads the light's status endpoint, which doubles as a connectivity check.
+            applyDeviceState(light, await readLightStatus(light.id));
+        } catch (error) {
+            console.error(`Failed to connect to ${light.name}:`, error);
+            setLightStatus(light.id, 'Error');
+        }
+    };
 
-        setLights(updatedState); // Optimistic UI update
-        setIsUpdatingLight(true);
+    // Resolves to the state the light reports back; throws when it is offline, busy or unreachable.
+    const updateLightState = useCallback(async (device: Device, newState: Partial<LightState>) => {
+        if (lightStatuses[device.id] !== 'Connected') throw new Error(`${device.name} is offline.`);
+        if (updatingLights[device.id]) throw new Error(`${device.name} is still taking the previous change.`);
 
-        try {
-            const payload: any = {};
-            if (newState.power !== undefined) payload.power = newState.power;
-            if (newState.r !== undefined || newState.g !== undefined || newState.b !== undefined) {
-                payload.color = { r: updatedState.r, g: updatedState.g, b: updatedState.b };
-            }
-            if (Object.keys(payload).length === 0) return;
+        const originalState = { ...(lights[device.id] ?? DEFAULT_LIGHT_STATE) };
+        const updatedState = { ...originalState, ...newState };
+        const payload: LightCommand = {};
+        if (newState.power !== undefined) payload.power = newState.power;
+        if (newState.r !== undefined || newState.g !== undefined || newState.b !== undefined) {
+            payload.color = { r: updatedState.r, g: updatedState.g, b: updatedState.b };
+        }
+        if (Object.keys(payload).length === 0) throw new Error(`Nothing to change on ${device.name}.`);
 
-            const response = await fetch(`${lightIpAddress.trim()}/state`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(payload),
-                signal: AbortSignal.timeout(3000)
-            });
+        setLights(prev => ({ ...prev, [device.id]: updatedState })); // Optimistic UI update
+        setUpdatingLights(prev => ({ ...prev, [device.id]: true }));
 
-            if (!response.ok) {
-                throw new Error(`Command failed with status: ${response.status}`);
-            }
+        try {
+            // The backend forwards the command over the LAN and answers with the light's resulting state.
+            const state = await sendLightCommand(device.id, payload);
+            applyDeviceState(device, state);
+            return state;
         } catch (error) {
-            console.error("Failed to update light state:", error);
-            alert("Error: Could not control the light. Check IP and network connection.");
-            setLights(originalState); // Revert on failure
-            setLightConnectionStatus('Error');
+            console.error(`Failed to update ${device.name}:`, error);
+            setLights(prev => ({ ...prev, [device.id]: originalState })); // Revert on failure
+            setLightStatus(device.id, 'Error');
+            throw error;
         } finally {
-            setIsUpdatingLight(false);
+            setUpdatingLights(prev => ({ ...prev, [device.id]: false }));
         }
-    }, [lightIpAddress, lightConnectionStatus, isUpdatingLight, lights]);
-    
-    const handleLightPowerToggle = () => {
-        updateLightState({ power: lights.power === 'on' ? 'off' : 'on' });
+    }, [lightStatuses, updatingLights, lights, applyDeviceState]);
+
+    // Changes from the card are dropped while the light is offline or busy, like its disabled controls.
+    const changeLight = (device: Device, newState: Partial<LightState>) => {
+        if (lightStatuses[device.id] !== 'Connected' || updatingLights[device.id]) return;
+        updateLightState(device, newState).catch(() => {
+            alert(`Error: Could not control ${device.name}. Check IP and network connection.`);
+        });
     };
 
-    const handleLightColorChange = (color: keyof Omit<LightState, 'power'>, value: number) => {
-        setLights(prev => ({ ...prev, [color]: value }));
-        
-        if (lightColorTimeoutRef.current) {
-            clearTimeout(lightColorTimeoutRef.current);
+    const handleLightPowerToggle = (device: Device) => {
+        const current = lights[device.id] ?? DEFAULT_LIGHT_STATE;
+        changeLight(device, { power: current.power === 'on' ? 'off' : 'on' });
+    };
+
+    const handleLightColorChange = (device: Device, color: keyof Omit<LightState, 'power'>, value: number) => {
+        setLights(prev => ({ ...prev, [device.id]: { ...(prev[device.id] ?? DEFAULT_LIGHT_STATE), [color]: value } }));
+
+        if (lightColorTimeoutsRef.current[device.id]) {
+            clearTimeout(lightColorTimeoutsRef.current[device.id]);
         }
 
-        lightColorTimeoutRef.current = setTimeout(() => {
+        lightColorTimeoutsRef.current[device.id] = setTimeout(() => {
+            delete lightColorTimeoutsRef.current[device.id];
             setLights(latestLights => {
-                updateLightState({ r: latestLights.r, g: latestLights.g, b: latestLights.b });
+                const latest = latestLights[device.id] ?? DEFAULT_LIGHT_STATE;
+                changeLight(device, { r: latest.r, g: latest.g, b: latest.b });
                 return latestLights;
             });
         }, 250); // Debounce API calls for smooth slider experience
     };
 
-    const applyLightStateFromVoice = (newState: Partial<LightState>) => {
-        updateLightState(newState);
+    // --- Lighting Scenes ---
+    // Scene edits come back through the event stream, which updates every client including this one.
+    const handleSaveScene = async (scene: NewScene) => {
+        const created = await createScene(scene);
+        setScenes(prev => prev.some(s => s.id === created.id) ? prev : [...prev, created]);
     };
 
-    // CNC Control Handlers
-    const connectUCCNC = useCallback(() => {
-        if (!wsAddress || cncStatus !== 'Disconnected') return;
+    const handleUpdateScene = async (id: string, changes: Partial<NewScene>) => {
+        const updated = await updateScene(id, changes);
+        setScenes(prev => prev.map(scene => scene.id === id ? updated : scene));
+    };
 
-        setCncStatus('Connecting');
-        websocketRef.current = new WebSocket(wsAddress);
+    const handleDeleteScene = async (id: string) => {
+        await deleteScene(id);
+        setScenes(prev => prev.filter(scene => scene.id !== id));
+    };
 
-        websocketRef.current.onopen = () => {
-            console.log('WebSocket connection established.');
-        };
+    // --- Automation Rules ---
+    // Like scenes, rule edits are echoed to every client over the event stream.
+    const handleCreateRule = async (rule: NewRule) => {
+        const created = await createRule(rule);
+        setRules(prev => prev.some(r => r.id === created.id) ? prev : [...prev, created]);
+    };
 
-        websocketRef.current.onmessage = (event) => {
-            try {
-                const data = JSON.parse(event.data);
-                if (data.status) setCncStatus(data.status);
-                if (data.gcodeFile) setGcodeFile(data.gcodeFile);
-                if (typeof data.progress === 'number') setGcodeProgress(data.progress);
-            } catch (e) {
-                console.error('Failed to parse incoming WebSocket message:', event.data);
-            }
-        };
+    const handleUpdateRule = async (id: string, changes: Partial<NewRule>) => {
+        const updated = await updateRule(id, changes);
+        setRules(prev => prev.map(rule => rule.id === id ? updated : rule));
+    };
 
-        websocketRef.current.onerror = (error) => {
-            console.error('WebSocket error:', error);
-            setCncStatus('Disconnected');
-        };
+    const handleDeleteRule = async (id: string) => {
+        await deleteRule(id);
+        setRules(prev => prev.filter(rule => rule.id !== id));
+    };
 
-        websocketRef.current.onclose = () => {
-            console.log('WebSocket connection closed.');
-            setCncStatus('Disconnected');
-            setGcodeFile(null);
-            setGcodeProgress(0);
-            websocketRef.current = null;
-        };
-    }, [wsAddress, cncStatus]);
-    
-    const disconnectUCCNC = useCallback(() => {
-        websocketRef.current?.close();
-    }, []);
+    // --- Schedules ---
+    const handleCreateSchedule = async (schedule: NewSchedule) => {
+        const created = await createSchedule(schedule);
+        setSchedules(prev => prev.some(s => s.id === created.id) ? prev : [...prev, created]);
+    };
 
-    const sendCncCommand = useCallback((command: string) => {
-        if (websocketRef.current?.readyState === WebSocket.OPEN) {
-            websocketRef.current.send(JSON.stringify({ command }));
+    const handleUpdateSchedule = async (id: string, changes: Partial<NewSchedule>) => {
+        const updated = await updateSchedule(id, changes);
+        setSchedules(prev => prev.map(schedule => schedule.id === id ? updated : schedule));
+    };
+
+    const handleDeleteSchedule = async (id: string) => {
+        await deleteSchedule(id);
+        setSchedules(prev => prev.filter(schedule => schedule.id !== id));
+    };
+
+    const handleRunSchedule = async (id: string) => {
+        await runScheduleNow(id);
+    };
+
+    // --- Dust Collector Control ---
+    const setDustCollectorStatus = (id: string, status: ConnectionStatus) => setDustCollectorStatuses(prev => ({ ...prev, [id]: status }));
+
+    const handleConnectDustCollector = async (device: Device) => {
+        setDustCollectorStatus(device.id, 'Connecting');
+        try {
+            const power = await readDustCollectorPower(device.id);
+            setDustCollectors(prev => ({ ...prev, [device.id]: power === 'on' }));
+            setDustCollectorStatus(device.id, 'Connected');
+        } catch (error) {
+            console.error(`Failed to connect to ${device.name}:`, error);
+            setDustCollectorStatus(device.id, 'Error');
         }
-    }, []);
+    };
 
-    const handleCncPlay = useCallback(() => sendCncCommand('play'), [sendCncCommand]);
-    const handleCncPause = useCallback(() => sendCncCommand('pause'), [sendCncCommand]);
-    const handleCncStop = useCallback(() => sendCncCommand('stop'), [sendCncCommand]);
-    
-    // Clear WebSockets on unmount
-    useEffect(() => {
-        return () => {
-            websocketRef.current?.close();
-             if (lightColorTimeoutRef.current) {
-                clearTimeout(lightColorTimeoutRef.current);
-            }
-        };
+    // Switches the relay through the backend and shows the state the relay reports back.
+    const switchDustCollector = async (device: Device, on: boolean) => {
+        setUpdatingDustCollectors(prev => ({ ...prev, [device.id]: true }));
+        try {
+            const power = await setDustCollectorPower(device.id, on ? 'on' : 'off');
+            setDustCollectors(prev => ({ ...prev, [device.id]: power === 'on' }));
+            setDustCollectorStatus(device.id, 'Connected');
+            return power;
+        } catch (error) {
+            console.error(`Failed to switch ${device.name}:`, error);
+            setDustCollectorStatus(device.id, 'Error');
+            throw error;
+        } finally {
+            setUpdatingDustCollectors(prev => ({ ...prev, [device.id]: false }));
+        }
+    };
+
+    const handleDustCollectorToggle = (device: Device) => {
+        switchDustCollector(device, !dustCollectors[device.id]).catch((error: Error) => {
+            alert(`Error: Could not switch ${device.name}. ${error.message}`);
+        });
+    };
+
+    // --- Camera ---
+
+    const updateCamera = (id: string, changes: Partial<CameraState>) =>
+        setCameras(prev => ({ ...prev, [id]: { ...(prev[id] ?? DEFAULT_CAMERA_STATE), ...changes } }));
+
+    // CNC Control Handlers
+    const patchCncState = (id: string, changes: Partial<CncState>) =>
+        setCncStates(prev => ({ ...prev, [id]: { ...(prev[id] ?? DEFAULT_CNC_STATE), ...changes } }));
+
+    const connectUCCNC = async (device: Device, address: string) => {
+        if ((cncStates[device.id]?.status ?? 'Disconnected') !== 'Disconnected') return;
+        const cnc = await saveDeviceAddress(device, address);
+        if (!cnc) return;
+
+        patchCncState(cnc.id, { status: 'Connecting' });
+        try {
+            // The backend opens the bridge connection; its status arrives as live updates.
+            await connectCnc(cnc.id);
+        } catch (error: any) {
+            console.error(`Failed to connect to ${cnc.name}:`, error);
+            patchCncState(cnc.id, { ...DEFAULT_CNC_STATE });
+            alert(`Could not connect to ${cnc.name}: ${error.message}`);
+        }
+    };
+
+    const disconnectUCCNC = useCallback((device: Device) => {
+        disconnectDevice(device.id).catch((error: Error) => {
+            console.error(`Failed to disconnect ${device.name}:`, error);
+        });
     }, []);
 
-    // Effect to manage camera stream based on power state
+    // Every client fetches a newly uploaded file for the toolpath preview, whoever uploaded it.
     useEffect(() => {
-        const manageCameraStream = async () => {
-            if (camera.power) {
-                try {
-                    const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
-                    setCameraStream(stream);
-                    const track = stream.getVideoTracks()[0];
-                    if (track) {
-                        const capabilities = track.getCapabilities();
-                        // @ts-ignore
-                        if (capabilities.zoom) {
-                            // @ts-ignore
-                            const { min, max, step } = capabilities.zoom;
-                            setZoomCapabilities({ min, max, step });
-                             // @ts-ignore
-                            const currentSettings = track.getSettings();
-                             // @ts-ignore
-                            setZoomLevel(currentSettings.zoom || 1);
-                        }
-                    }
-                } catch (err) {
-                    console.error("Error accessing camera:", err);
-                    alert("Could not access the camera. Please check permissions.");
-                    setCamera(c => ({ ...c, power: false })); // Revert state on error
-                }
-            } else {
-                if (cameraStream) {
-                    cameraStream.getTracks().forEach(track => track.stop());
-                    setCameraStream(null);
-                }
-                 if (camera.recording) {
-                    setCamera(c => ({...c, recording: false}));
-                }
-                setZoomCapabilities(null);
-                setZoomLevel(1);
-            }
-        };
+        Object.entries(cncStates).forEach(([id, { programId }]) => {
+            if (!programId || requestedProgramsRef.current[id] === programId) return;
+            requestedProgramsRef.current[id] = programId;
+            getCncProgram(id)
+                .then(program => setCncPrograms(prev => ({ ...prev, [id]: program })))
+                .catch((error: Error) => console.error('Failed to load the uploaded G-code file:', error));
+        });
+    }, [cncStates]);
 
-        manageCameraStream();
+    const sendCncCommand = useCallback(async (id: string, command: CncCommand) => {
+        try {
+            await postCncCommand(id, command);
+        } catch (error) {
+            console.error(`CNC command "${command}" failed:`, error);
+        }
+    }, []);
 
+    // Cancel pending light updates on unmount
+    useEffect(() => {
         return () => {
-            if (cameraStream) {
-                cameraStream.getTracks().forEach(track => track.stop());
-            }
+            Object.values(lightColorTimeoutsRef.current).forEach(clearTimeout);
         };
-    }, [camera.power]);
+    }, []);
 
-    // Effect to attach stream to video element
-    useEffect(() => {
-        if (videoRef.current) {
-            videoRef.current.srcObject = cameraStream;
-        }
-    }, [cameraStream]);
+    // --- Voice functions ---
+    // Generated from what each kind of device can do (services/voiceDeviceTypes.ts).
+    voiceToolsRef.current = createVoiceTools(createVoiceDeviceTypes({
+        switchDustCollector,
+        updateLight: updateLightState,
+        updateCamera: (device, changes) => {
+            updateCamera(device.id, changes);
+            return { ...(cameras[device.id] ?? DEFAULT_CAMERA_STATE), ...changes };
+        },
+        scenes,
+        lights,
+        lightStatuses,
+        dustCollectors,
+        dustCollectorStatuses,
+        cameras,
+        cncStates,
+        cncJobs,
+        cncQueues,
+    }), devices);
+
+    // Saves to the current voice session in order, once it has been created.
+    const saveToVoiceSession = (save: (id: string) => Promise<void>) => {
+        const session = voiceSessionRef.current;
+        if (!session) return;
+        voiceSessionRef.current = session.then(async id => {
+            if (id) await save(id).catch((error: Error) => {
+                console.error('Could not save the voice transcript:', error);
+                setVoiceSaveError(`Part of this conversation was not saved: ${error.message}`);
+            });
+            return id;
+        });
+    };
 
-    // Effect to handle recording logic
-    useEffect(() => {
-        if (camera.recording && cameraStream) {
-            recordedChunksRef.current = [];
-            const options = { mimeType: 'video/webm; codecs=vp9' };
-            let recorder: MediaRecorder;
-             try {
-                recorder = new MediaRecorder(cameraStream, options);
-            } catch (e) {
-                console.warn('VP9 codec not supported, falling back.');
-                recorder = new MediaRecorder(cameraStream);
-            }
+    const recordTranscript = (entry: VoiceTranscriptEntry) => {
+        setTranscripts(prev => [...prev, entry]);
+        saveToVoiceSession(id => appendVoiceSessionEntries(id, [entry]));
+    };
 
-            mediaRecorderRef.current = recorder;
+    const addTranscript = (speaker: 'user' | 'model', text: string) => {
+        if (!text.trim()) return;
+        recordTranscript({ at: Date.now(), speaker, text: text.trim() });
+    };
 
-            mediaRecorderRef.current.ondataavailable = (event) => {
-                if (event.data.size > 0) {
-                    recordedChunksRef.current.push(event.data);
-                }
-            };
+    // Sends the response to a function call and writes both into the transcript.
+    const answerFunctionCall = (call: FunctionCall, response: VoiceResponse, options: Pick<FunctionResponse, 'willContinue' | 'scheduling'> = {}) => {
+        lastVoiceActivityRef.current = Date.now();
+        const sent = sessionPromise.current?.then(session => session.sendToolResponse({
+            functionResponses: { id: call.id, name: call.name, response, ...options },
+        }));
+        recordTranscript({ at: Date.now(), speaker: 'tool', name: call.name ?? '', args: call.args ?? {}, response });
+        return sent;
+    };
 
-            mediaRecorderRef.current.onstop = () => {
-                const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                document.body.appendChild(a);
-                a.style.display = 'none';
-                a.href = url;
-                const timestamp = new Date().toISOString().replace(/:/g, '-');
-                a.download = `workshop-recording-${timestamp}.webm`;
-                a.click();
-                window.URL.revokeObjectURL(url);
-                a.remove();
-                recordedChunksRef.current = [];
-            };
+    // Drops the pending voice command without answering its call, e.g. when the session ends.
+    const clearPendingVoiceAction = () => {
+        if (pendingVoiceActionRef.current) clearTimeout(pendingVoiceActionRef.current.timeout);
+        pendingVoiceActionRef.current = null;
+        setPendingVoiceAction(null);
+    };
 
-            mediaRecorderRef.current.start();
-        } else {
-            if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-                mediaRecorderRef.current.stop();
+    /**
+     * Runs or cancels the pending voice command and sends the final response
+     * to its call once the devices have answered. `how` says how it was
+     * cancelled. Resolves to that response.
+     */
+    const resolvePendingVoiceAction = async (confirmed: boolean, how: string, byVoice = false) => {
+        const pending = pendingVoiceActionRef.current;
+        if (!pending) throw new Error('Nothing is waiting for confirmation.');
+        clearPendingVoiceAction();
+        let response: VoiceResponse = { status: 'CANCELLED', message: `Cancelled ${how}; did not ${pending.summary}.` };
+        if (confirmed) {
+            try {
+                response = toVoiceResponse(await pending.run());
+            } catch (e: any) {
+                response = { status: 'ERROR', message: e.message };
             }
         }
+        answerFunctionCall(pending.call, response, {
+            willContinue: false,
+            // Answered by voice, the model hears the outcome in the response to its confirmPendingAction call.
+            scheduling: byVoice ? FunctionResponseScheduling.SILENT : FunctionResponseScheduling.WHEN_IDLE,
+        });
+        return response;
+    };
 
-        return () => {
-            if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-                mediaRecorderRef.current.stop();
-            }
-        };
-    }, [camera.recording, cameraStream]);
+    // Holds back a hazardous voice command until it is confirmed, cancelling one still waiting.
+    const holdVoiceAction = (call: FunctionCall, summary: string, run: () => Promise<VoiceResult>) => {
+        if (pendingVoiceActionRef.current) resolvePendingVoiceAction(false, 'because another action was asked for').catch(() => {});
+        const timeout = setTimeout(() => {
+            resolvePendingVoiceAction(false, `as it was not confirmed within ${VOICE_CONFIRM_TIMEOUT_MS / 1000} seconds`).catch(() => {});
+        }, VOICE_CONFIRM_TIMEOUT_MS);
+        const pending: PendingVoiceAction = { call, asked: false, heard: false, summary, expiresAt: Date.now() + VOICE_CONFIRM_TIMEOUT_MS, run, timeout };
+        pendingVoiceActionRef.current = pending;
+        setPendingVoiceAction(pending);
+        answerFunctionCall(call, {
+            status: 'PENDING',
+            message: `Nothing has happened yet. Ask the user to confirm that you should ${summary}, by saying yes or on screen, within ${VOICE_CONFIRM_TIMEOUT_MS / 1000} seconds.`,
+        }, { willContinue: true })?.then(() => { pending.asked = true; });
+    };
 
-    const handleZoomChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (!cameraStream) return;
-        const track = cameraStream.getVideoTracks()[0];
-        if (track) {
-            try {
-                const newZoom = parseFloat(e.target.value);
-                // @ts-ignore
-                await track.applyConstraints({ advanced: [{ zoom: newZoom }] });
-                setZoomLevel(newZoom);
-            } catch (err) {
-                console.error("Failed to apply zoom:", err);
+    const answerPendingVoiceAction = (confirmed: boolean) => {
+        // It may have timed out as the button was clicked.
+        if (pendingVoiceActionRef.current) resolvePendingVoiceAction(confirmed, 'on screen').catch(() => {});
+    };
+
+    // Answers a function call from the model once the devices have, with what really happened.
+    const handleFunctionCall = async (call: FunctionCall) => {
+        let response: VoiceResponse;
+        try {
+            const outcome = await voiceToolsRef.current.call(call.name, call.args ?? {});
+            if (outcome.type === 'hazardous') {
+                // Its pending response is sent here, its final one once confirmed or cancelled.
+                holdVoiceAction(call, outcome.summary, outcome.run);
+                return;
             }
+            // Only what the user said once asked can be their answer; the model is not to answer for them.
+            const pending = pendingVoiceActionRef.current;
+            if (outcome.type === 'answer' && pending && !pending.heard) {
+                throw new Error(`The user has not answered yet. Ask them whether you should ${pending.summary}, and only call ${CONFIRM_FUNCTION} with what they say.`);
+            }
+            response = outcome.type === 'answer'
+                ? await resolvePendingVoiceAction(outcome.confirmed, 'by the user', true)
+                : toVoiceResponse(outcome.result);
+        } catch (e: any) {
+            response = { status: 'ERROR', message: e.message };
         }
-    }, [cameraStream]);
+        answerFunctionCall(call, response);
+    };
 
-    const addTranscript = (speaker: 'user' | 'model', text: string) => {
-        if (!text.trim()) return;
-        setTranscripts(prev => [...prev, { id: Date.now(), speaker, text }]);
+    // Confirmations are handled after the other calls of the same message, so
+    // one sent along with a hazardous call finds it held back and is refused.
+    const handleToolCall = async (calls: FunctionCall[]) => {
+        const confirmations = calls.filter(call => call.name === CONFIRM_FUNCTION);
+        await Promise.all(calls.filter(call => call.name !== CONFIRM_FUNCTION).map(handleFunctionCall));
+        confirmations.forEach(handleFunctionCall);
     };
-    
-    const stopConversation = useCallback(() => {
-        if (!isListening) return;
-        if(sessionPromise.current) {
-            sessionPromise.current.then(session => session.close());
-            sessionPromise.current = null;
-        }
-        
+
+    // The session is gone when the component unmounts; the timer and the output audio are left to clear.
+    useEffect(() => () => {
+        if (pendingVoiceActionRef.current) clearTimeout(pendingVoiceActionRef.current.timeout);
+        outputAudioContextRef.current?.close().catch(() => {});
+    }, []);
+
+    const closeMicrophone = () => {
         scriptProcessor.current?.disconnect();
         mediaStreamSource.current?.disconnect();
         audioContext.current?.close().catch(e => console.error("Error closing AudioContext:", e));
@@ -549,26 +677,112 @@ export const WorkshopControl: React.FC = () => {
         mediaStreamSource.current = null;
         audioContext.current = null;
         mediaStream.current = null;
+        microphoneRef.current = null;
+    };
+
+    /**
+     * Opens the microphone, or resolves at once when it is open. Its audio goes
+     * to the open conversation, if any; sent before the session has connected,
+     * it is queued on the session promise.
+     */
+    const openMicrophone = () => {
+        if (microphoneRef.current) return microphoneRef.current;
+        const context = new (window.AudioContext)({ sampleRate: 16000 });
+        audioContext.current = context;
+        const opening = navigator.mediaDevices.getUserMedia({ audio: { sampleRate: { exact: 16000 } } }).then(stream => {
+            // Closed again while permission was being asked for.
+            if (audioContext.current !== context) {
+                stream.getTracks().forEach(track => track.stop());
+                return;
+            }
+            mediaStream.current = stream;
+            mediaStreamSource.current = context.createMediaStreamSource(stream);
+            scriptProcessor.current = context.createScriptProcessor(4096, 1, 1);
+
+            scriptProcessor.current.onaudioprocess = (audioProcessingEvent) => {
+                // Holding to talk, the microphone is only heard while the key is down.
+                if (voiceModeRef.current === 'pushToTalk' && !talkingRef.current) return;
+                const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
+                const l = inputData.length;
+                const int16 = new Int16Array(l);
+                 for (let i = 0; i < l; i++) {
+                    int16[i] = inputData[i] * 32768;
+                }
+                const pcmBlob = {
+                    data: encode(new Uint8Array(int16.buffer)),
+                    mimeType: 'audio/pcm;rate=16000',
+                };
+                if (sessionPromise.current) {
+                   sessionPromise.current.then(session => session.sendRealtimeInput({ media: pcmBlob }));
+                }
+            };
+            mediaStreamSource.current.connect(scriptProcessor.current);
+            scriptProcessor.current.connect(context.destination);
+        });
+        opening.catch(() => audioContext.current === context && closeMicrophone());
+        microphoneRef.current = opening;
+        return opening;
+    };
+
+    const reportMicrophoneError = (err: unknown) => {
+        console.error("Error initializing audio input:", err);
+        alert("Could not access the microphone at the required sample rate (16000Hz). Please check permissions and that your device supports this sample rate.");
+    };
+
+    const stopConversation = useCallback(() => {
+        if (!isListening) return;
+        if(sessionPromise.current) {
+            sessionPromise.current.then(session => session.close());
+            sessionPromise.current = null;
+        }
 
+        // Holding to talk, the microphone stays open so the first words of the next press are heard.
+        if (voiceModeRef.current !== 'pushToTalk') closeMicrophone();
+        outputAudioContextRef.current?.close().catch(e => console.error("Error closing AudioContext:", e));
+        outputAudioContextRef.current = null;
+        clearPendingVoiceAction();
+        saveToVoiceSession(endVoiceSession);
+        voiceSessionRef.current = null;
         setIsListening(false);
     }, [isListening]);
 
+    // Resolves to whether a conversation was started.
     const startConversation = useCallback(async () => {
         if (isListening) {
-            return;
+            return false;
         }
         if (!process.env.API_KEY) {
             alert("API key is not configured. Voice assistant is disabled.");
-            return;
+            return false;
         }
 
         setIsListening(true);
-        setTranscripts([]);
+        lastVoiceActivityRef.current = Date.now();
+        setVoiceSaveError('');
+        // Earlier conversations stay on screen; each one is saved as a session of its own.
+        voiceSessionRef.current = startVoiceSession()
+            .then(session => session.id)
+            .catch((error: Error) => {
+                console.error('Could not start saving the voice session:', error);
+                setVoiceSaveError(`This conversation is not being saved: ${error.message}`);
+                return null;
+            });
 
         const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
         let currentInputTranscription = '';
+        let currentOutputTranscription = '';
+        // What the user said is complete once the model answers; what the model said, once its turn ends or a function is called.
+        const flushInput = () => {
+            addTranscript('user', currentInputTranscription);
+            currentInputTranscription = '';
+        };
+        const flushOutput = () => {
+            addTranscript('model', currentOutputTranscription);
+            currentOutputTranscription = '';
+        };
 
         const outputAudioContext = new (window.AudioContext)({ sampleRate: 24000 });
+        outputAudioContextRef.current = outputAudioContext;
         let nextStartTime = 0;
         const sources = new Set<AudioBufferSourceNode>();
 
@@ -578,74 +792,42 @@ export const WorkshopControl: React.FC = () => {
                 onopen: async () => {
                     console.log('Session opened.');
                     try {
-                        audioContext.current = new (window.AudioContext)({ sampleRate: 16000 });
-                        mediaStream.current = await navigator.mediaDevices.getUserMedia({ audio: { sampleRate: { exact: 16000 } } });
-                        mediaStreamSource.current = audioContext.current.createMediaStreamSource(mediaStream.current);
-                        scriptProcessor.current = audioContext.current.createScriptProcessor(4096, 1, 1);
-
-                        scriptProcessor.current.onaudioprocess = (audioProcessingEvent) => {
-                            const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                            const l = inputData.length;
-                            const int16 = new Int16Array(l);
-                             for (let i = 0; i < l; i++) {
-                                int16[i] = inputData[i] * 32768;
-                            }
-                            const pcmBlob = {
-                                data: encode(new Uint8Array(int16.buffer)),
-                                mimeType: 'audio/pcm;rate=16000',
-                            };
-                            if (sessionPromise.current) {
-                               sessionPromise.current.then(session => session.sendRealtimeInput({ media: pcmBlob }));
-                            }
-                        };
-                        mediaStreamSource.current.connect(scriptProcessor.current);
-                        scriptProcessor.current.connect(audioContext.current.destination);
+                        await openMicrophone();
                     } catch(err) {
-                         console.error("Error initializing audio input:", err);
-                         alert("Could not access the microphone at the required sample rate (16000Hz). Please check permissions and that your device supports this sample rate.");
-                         stopConversation();
+                         reportMicrophoneError(err);
+                         stopConversationRef.current();
                     }
                 },
                 onmessage: async (message: LiveServerMessage) => {
                     if (message.serverContent?.inputTranscription) {
+                        // Going by what the model heard rather than by loudness, which machines running would keep up.
+                        lastVoiceActivityRef.current = Date.now();
                         currentInputTranscription += message.serverContent.inputTranscription.text;
+                        const pending = pendingVoiceActionRef.current;
+                        if (pending?.asked && message.serverContent.inputTranscription.text?.trim()) pending.heard = true;
+                    }
+                    if (message.serverContent?.outputTranscription) {
+                        flushInput();
+                        currentOutputTranscription += message.serverContent.outputTranscription.text;
+                    }
+                    if (message.serverContent?.interrupted) {
+                        flushOutput();
                     }
                     if (message.serverContent?.turnComplete) {
-                        addTranscript('user', currentInputTranscription);
-                        currentInputTranscription = '';
+                        flushInput();
+                        flushOutput();
                     }
 
                     if (message.toolCall) {
-                        for (const fc of message.toolCall.functionCalls) {
-                            let result = "ok";
-                            try {
-                                if (fc.name === 'controlDustCollector') setDustCollectorOn((fc.args.power as string) === 'on');
-                                else if (fc.name === 'controlLights') {
-                                    const { power, r, g, b } = fc.args;
-                                    const newLightState: Partial<LightState> = {};
-                                    if (power !== undefined) newLightState.power = power as 'on' | 'off';
-                                    if (r !== undefined) newLightState.r = r as number;
-                                    if (g !== undefined) newLightState.g = g as number;
-                                    if (b !== undefined) newLightState.b = b as number;
-                                    applyLightStateFromVoice(newLightState);
-                                }
-                                else if (fc.name === 'controlCamera') setCamera(prev => ({ ...prev, ...(fc.args.power !== undefined && { power: (fc.args.power as string) === 'on' }), ...(fc.args.recording !== undefined && { recording: fc.args.recording as boolean }) }));
-                                else if (fc.name === 'startCncCycle') handleCncPlay();
-                                else if (fc.name === 'pauseCncCycle') handleCncPause();
-                                else if (fc.name === 'stopCncCycle') handleCncStop();
-                            } catch (e) {
-                                result = "error executing function";
-                            }
-                             if (sessionPromise.current) {
-                                sessionPromise.current.then(session => session.sendToolResponse({
-                                    functionResponses: { id: fc.id, name: fc.name, response: { result: result } }
-                                }));
-                            }
-                        }
+                        flushInput();
+                        flushOutput();
+                        // Each call is answered when its devices have, without holding up the audio.
+                        handleToolCall(message.toolCall.functionCalls);
                     }
 
                     const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-                    if (audioData) {
+                    // Audio still arriving after the conversation was stopped is not played.
+                    if (audioData && outputAudioContext.state !== 'closed') {
                          nextStartTime = Math.max(nextStartTime, outputAudioContext.currentTime);
                          const audioBuffer = await decodeAudioData(decode(audioData), outputAudioContext, 24000, 1);
                          const source = outputAudioContext.createBufferSource();
@@ -655,6 +837,7 @@ export const WorkshopControl: React.FC = () => {
                          source.start(nextStartTime);
                          nextStartTime += audioBuffer.duration;
                          sources.add(source);
+                         lastVoiceActivityRef.current = Date.now() + (nextStartTime - outputAudioContext.currentTime) * 1000;
                     }
                 },
                 onerror: (e) => console.error("Session error:", e),
@@ -663,251 +846,264 @@ export const WorkshopControl: React.FC = () => {
             config: {
                 responseModalities: [Modality.AUDIO],
                 inputAudioTranscription: {},
-                tools: [{ functionDeclarations: [controlDustCollector, controlLights, controlCamera, startCncCycle, pauseCncCycle, stopCncCycle] }],
+                outputAudioTranscription: {},
+                tools: [{ functionDeclarations: voiceToolsRef.current.declarations }],
                 speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-                 systemInstruction: 'You are an AI assistant for a prototyping workshop. Be concise. Respond to commands to control tools. Inform the user when an action is taken.',
+                 systemInstruction: `You are an AI assistant for a prototyping workshop. Be concise. Respond to commands to control tools. Inform the user when an action is taken, going by the status of each function response: say so when a device reports an error or is offline instead of claiming it worked. Some actions, like starting a CNC job, wait for the user's confirmation: ask for it and never confirm on their behalf. The registered devices are: ${describeDevices(devicesRef.current) || 'none'}. The saved lighting scenes are: ${scenesRef.current.map(scene => `"${scene.name}"`).join(', ') || 'none'}.`,
             }
         });
-    }, [isListening, handleCncPlay, handleCncPause, handleCncStop, stopConversation, applyLightStateFromVoice]);
-    
-    const rgbToHex = (r: number, g: number, b: number) => `#${[r, g, b].map(x => x.toString(16).padStart(2, '0')).join('')}`;
-
-    const CncStatusIndicator: React.FC<{status: CncStatus}> = ({ status }) => {
-        const statusMap = {
-            Disconnected: { text: 'text-gray-500', bg: 'bg-gray-700' },
-            Connecting: { text: 'text-blue-300', bg: 'bg-blue-900 animate-pulse' },
-            Idle: { text: 'text-cyan-300', bg: 'bg-cyan-900' },
-            Running: { text: 'text-green-300', bg: 'bg-green-900' },
-            Paused: { text: 'text-yellow-300', bg: 'bg-yellow-900' },
+        return true;
+    }, [isListening, stopConversation]);
+    startConversationRef.current = startConversation;
+    stopConversationRef.current = stopConversation;
+
+    const changeVoiceMode = useCallback((settings: VoiceModeSettings) => {
+        saveVoiceModeSettings(settings);
+        setVoiceMode(settings);
+    }, []);
+
+    // Wake word: listen locally until it is heard, then open a conversation.
+    useEffect(() => {
+        setWakeWordError('');
+        if (voiceMode.mode !== 'wakeWord' || isListening) return;
+        return listenForWakeWord({ onWake: () => startConversationRef.current(), onError: setWakeWordError });
+    }, [voiceMode.mode, isListening]);
+
+    // Hold to talk: the microphone is open as long as the mode is chosen, and
+    // heard while the key is held. The key opens a conversation if none is open.
+    useEffect(() => {
+        if (voiceMode.mode !== 'pushToTalk') return;
+        openMicrophone().catch(reportMicrophoneError);
+        return () => {
+            if (!sessionPromise.current) closeMicrophone();
         };
-        return <span className={`px-2 py-1 text-xs font-bold rounded-full ${statusMap[status].text} ${statusMap[status].bg}`}>{status}</span>;
-    }
+    }, [voiceMode.mode]);
 
-    const LightStatusIndicator: React.FC<{status: LightConnectionStatus}> = ({ status }) => {
-        const statusMap = {
-            Disconnected: { text: 'text-gray-400', Icon: PlugXIcon },
-            Connecting: { text: 'text-blue-300 animate-pulse', Icon: WifiIcon },
-            Connected: { text: 'text-green-400', Icon: WifiIcon },
-            Error: { text: 'text-red-400', Icon: PlugXIcon },
+    useEffect(() => {
+        if (voiceMode.mode !== 'pushToTalk') return;
+        const release = () => {
+            if (!talkingRef.current) return;
+            talkingRef.current = false;
+            setIsTalking(false);
+            lastVoiceActivityRef.current = Date.now();
+            // Tells the model the user has finished, so it answers straight away.
+            sessionPromise.current?.then(session => session.sendRealtimeInput({ audioStreamEnd: true }));
         };
-        const { text, Icon } = statusMap[status];
-        return <span className={`flex items-center gap-1.5 text-xs font-semibold ${text}`}>
-            <Icon className="w-4 h-4" /> {status}
-        </span>;
-    }
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.code !== voiceMode.talkKey || isTextEntry(event.target)) return;
+            event.preventDefault();
+            if (event.repeat || talkingRef.current) return;
+            talkingRef.current = true;
+            setIsTalking(true);
+            lastVoiceActivityRef.current = Date.now();
+            startConversationRef.current();
+        };
+        const onKeyUp = (event: KeyboardEvent) => {
+            if (event.code === voiceMode.talkKey) release();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        window.addEventListener('keyup', onKeyUp);
+        // The key being released in another window is never seen here.
+        window.addEventListener('blur', release);
+        return () => {
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('keyup', onKeyUp);
+            window.removeEventListener('blur', release);
+            release();
+        };
+    }, [voiceMode]);
+
+    // Conversations opened hands-free close themselves once nobody has spoken for a while.
+    useEffect(() => {
+        if (!isListening || voiceMode.mode === 'button') return;
+        const interval = setInterval(() => {
+            if (talkingRef.current || pendingVoiceActionRef.current) return;
+            if (Date.now() - lastVoiceActivityRef.current > VOICE_IDLE_TIMEOUT_MS) stopConversationRef.current();
+        }, 1000);
+        return () => clearInterval(interval);
+    }, [isListening, voiceMode.mode]);
+
+    const renderDeviceCard = (device: Device) => {
+        switch (device.kind) {
+            case 'cnc':
+                return (
+                    <CncCard
+                        key={device.id}
+                        device={device}
+                        cnc={cncStates[device.id] ?? DEFAULT_CNC_STATE}
+                        program={cncPrograms[device.id]?.id === cncStates[device.id]?.programId ? cncPrograms[device.id] : null}
+                        onConnect={(address) => connectUCCNC(device, address)}
+                        onDisconnect={() => disconnectUCCNC(device)}
+                        onPlay={() => sendCncCommand(device.id, 'play')}
+                        onPause={() => sendCncCommand(device.id, 'pause')}
+                        onStop={() => sendCncCommand(device.id, 'stop')}
+                        onUpload={(file) => uploadGcode(device.id, file)}
+                        onJog={(axis, distance) => jogCnc(device.id, axis, distance)}
+                        onHome={() => homeCnc(device.id)}
+                        onZero={(axes) => zeroCnc(device.id, axes)}
+                        onOverride={(override) => overrideCnc(device.id, override)}
+                        onReset={() => resetCnc(device.id)}
+                        queue={cncQueues[device.id] ?? EMPTY_CNC_QUEUE}
+                        onQueueAdd={(file) => queueGcode(device.id, file)}
+                        onQueueReorder={(order) => reorderCncQueue(device.id, order)}
+                        onQueueUpdate={(entryId, changes) => updateCncQueueEntry(device.id, entryId, changes)}
+                        onQueueRemove={(entryId) => removeCncQueueEntry(device.id, entryId)}
+                        onQueueStart={() => startCncQueue(device.id)}
+                        onQueueHold={() => holdCncQueue(device.id)}
+                    />
+                );
+            case 'camera':
+                return (
+                    <CameraCard
+                        key={device.id}
+                        device={device}
+                        camera={cameras[device.id] ?? DEFAULT_CAMERA_STATE}
+                        onChange={(changes) => updateCamera(device.id, changes)}
+                    />
+                );
+            case 'dustCollector':
+                return (
+                    <DustCollectorCard
+                        key={device.id}
+                        device={device}
+                        isOn={dustCollectors[device.id] ?? false}
+                        connectionStatus={dustCollectorStatuses[device.id] ?? 'Disconnected'}
+                        isUpdating={updatingDustCollectors[device.id] ?? false}
+                        onConnect={() => handleConnectDustCollector(device)}
+                        onDisconnect={() => handleDisconnect(device, setDustCollectorStatus)}
+                        onToggle={() => handleDustCollectorToggle(device)}
+                    />
+                );
+            case 'light':
+                return (
+                    <LightCard
+                        key={device.id}
+                        device={device}
+                        lights={lights[device.id] ?? DEFAULT_LIGHT_STATE}
+                        connectionStatus={lightStatuses[device.id] ?? 'Disconnected'}
+                        isUpdating={updatingLights[device.id] ?? false}
+                        onConnect={(address) => handleConnectLight(device, address)}
+                        onDisconnect={() => handleDisconnect(device, setLightStatus)}
+                        onPowerToggle={() => handleLightPowerToggle(device)}
+                        onColorChange={(color, value) => handleLightColorChange(device, color, value)}
+                    />
+                );
+            default:
+                return null;
+        }
+    };
 
-    const isCncConnected = cncStatus !== 'Disconnected' && cncStatus !== 'Connecting';
-    const isLightConnected = lightConnectionStatus === 'Connected';
-    const isLightConnectable = lightConnectionStatus === 'Disconnected' || lightConnectionStatus === 'Error';
+    const sortedDevices = [...devices].sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+    const lightDevices = sortedDevices.filter(device => device.kind === 'light');
+    const cncDevices = sortedDevices.filter(device => device.kind === 'cnc');
 
     return (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-fade-in relative">
-            {isScannerOpen && (
-                <NetworkScanner 
-                    onSelectIp={setLightIpAddress}
-                    onClose={() => setIsScannerOpen(false)}
+            {isDeviceManagerOpen && (
+                <DeviceManager
+                    devices={devices}
+                    onCreate={handleCreateDevice}
+                    onUpdate={async (id, changes) => { await handleUpdateDevice(id, changes); }}
+                    onDelete={handleDeleteDevice}
+                    onClose={() => setIsDeviceManagerOpen(false)}
                 />
             )}
-            <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6">
-                 {/* CNC Control */}
-                <div className="bg-gray-800/50 rounded-lg p-6 shadow-lg flex flex-col">
-                    <div className="flex justify-between items-center">
-                        <h3 className="text-xl font-bold text-white">CNC Control</h3>
-                        <CncIcon className={`w-6 h-6 transition-colors ${isCncConnected ? 'text-green-400' : 'text-gray-600'}`} />
-                    </div>
-                    <p className="text-gray-400 mt-2">UCCNC G-Code Reproduction</p>
-                    
-                    <div className="mt-4 flex flex-col gap-3">
-                         <div className="flex items-center justify-between">
-                            <label htmlFor="ws-address" className="text-sm text-gray-400">Bridge Address</label>
-                            <CncStatusIndicator status={cncStatus}/>
-                         </div>
-                        <div className="flex items-center gap-2">
-                             <input 
-                                id="ws-address"
-                                type="text"
-                                value={wsAddress}
-                                onChange={(e) => setWsAddress(e.target.value)}
-                                placeholder="ws://192.168.1.123:8765"
-                                disabled={isCncConnected}
-                                className="w-full bg-gray-900/50 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
-                            />
-                            <button 
-                                onClick={isCncConnected ? disconnectUCCNC : connectUCCNC} 
-                                disabled={cncStatus === 'Connecting'}
-                                className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors w-28 text-white disabled:opacity-50 disabled:cursor-wait ${isCncConnected ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}`}>
-                                {cncStatus === 'Connecting' ? 'Connecting...' : isCncConnected ? 'Disconnect' : 'Connect'}
-                            </button>
-                        </div>
-                    </div>
-
-                    <div className={`flex-grow flex flex-col transition-opacity duration-300 ${!isCncConnected ? 'opacity-30 pointer-events-none' : 'opacity-100'}`}>
-                        <div className="mt-4 p-3 bg-gray-900/50 rounded-md text-center">
-                            <p className="text-xs text-gray-400">Loaded File</p>
-                            <p className="text-base font-mono text-cyan-300 truncate h-6">{gcodeFile || 'None'}</p>
-                        </div>
-                        <div className="my-4">
-                            <div className="flex justify-between text-xs text-gray-400 mb-1">
-                                <span>Progress</span>
-                                <span>{gcodeProgress.toFixed(0)}%</span>
-                            </div>
-                            <div className="w-full bg-gray-700 rounded-full h-2.5">
-                                <div className="bg-cyan-500 h-2.5 rounded-full transition-all duration-150" style={{ width: `${gcodeProgress}%` }}></div>
-                            </div>
-                        </div>
-                        <div className="mt-auto flex items-center justify-center">
-                            <div className="flex items-center gap-4">
-                                <button onClick={handleCncPlay} disabled={!gcodeFile || cncStatus === 'Running' || !isCncConnected} className="text-green-400 hover:text-green-300 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"><PlayIcon className="w-12 h-12"/></button>
-                                <button onClick={handleCncPause} disabled={cncStatus !== 'Running'} className="text-yellow-400 hover:text-yellow-300 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"><PauseIcon className="w-12 h-12"/></button>
-                                <button onClick={handleCncStop} disabled={cncStatus !== 'Running' && cncStatus !== 'Paused'} className="text-red-400 hover:text-red-300 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"><StopIcon className="w-12 h-12"/></button>
-                            </div>
-                        </div>
-                    </div>
-                </div>
-
-
-                 {/* Camera */}
-                <div className="bg-gray-800/50 rounded-lg p-6 shadow-lg">
-                    <div className="flex justify-between items-center">
-                        <h3 className="text-xl font-bold text-white">Camera System</h3>
-                        <CameraIcon className={`w-6 h-6 transition-colors ${camera.power ? 'text-cyan-400' : 'text-gray-600'}`} />
-                    </div>
-                     <p className="text-gray-400 mt-2">Overhead camera for monitoring and recording.</p>
-                    <div className="relative mt-4 aspect-video bg-black rounded-md flex items-center justify-center border border-gray-700">
-                        {camera.power ? (
-                            <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover rounded-md"></video>
-                        ) : (
-                            <div className="text-gray-500 flex flex-col items-center gap-2">
-                                <CameraIcon className="w-10 h-10" />
-                                <p>Camera is Off</p>
-                            </div>
-                        )}
-                        {camera.recording && (
-                            <div className="absolute top-3 left-3 flex items-center gap-2 bg-red-600/80 text-white text-xs font-bold px-2 py-1 rounded-full">
-                                <span className="w-2 h-2 bg-red-400 rounded-full animate-pulse"></span>
-                                REC
-                            </div>
-                        )}
-                    </div>
-                     {zoomCapabilities && (
-                        <div className="mt-4 px-1">
-                            <label htmlFor="zoom-slider" className="mb-2 block text-sm font-medium text-gray-400">
-                                Zoom ({zoomLevel.toFixed(1)}x)
-                            </label>
-                            <input
-                                id="zoom-slider"
-                                type="range"
-                                min={zoomCapabilities.min}
-                                max={zoomCapabilities.max}
-                                step={zoomCapabilities.step}
-                                value={zoomLevel}
-                                onChange={handleZoomChange}
-                                disabled={!camera.power}
-                                className="w-full h-2 rounded-lg appearance-none cursor-pointer bg-gray-700 accent-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                            />
-                        </div>
-                    )}
-                    <div className="mt-4 flex flex-col sm:flex-row gap-4">
-                         <button onClick={() => setCamera(c => ({...c, power: !c.power}))} className={`flex-1 py-2 rounded-md font-semibold transition-colors flex items-center justify-center gap-2 ${camera.power ? 'bg-cyan-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>
-                            <PowerIcon className="w-5 h-5"/>
-                            {camera.power ? 'Power Off' : 'Power On'}
-                        </button>
-                        <button onClick={() => setCamera(c => ({...c, recording: !c.recording}))} disabled={!camera.power} className={`flex-1 py-2 rounded-md font-semibold transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${camera.recording ? 'bg-red-500 text-white animate-pulse' : 'bg-gray-700 hover:bg-gray-600'}`}>
-                           {camera.recording ? <StopCircleIcon className="w-5 h-5"/> : <CameraIcon className="w-5 h-5" />}
-                           {camera.recording ? 'Stop Recording' : 'Start Recording'}
+            {isRuleManagerOpen && (
+                <RuleManager
+                    rules={rules}
+                    activity={ruleActivity}
+                    devices={sortedDevices}
+                    scenes={scenes}
+                    onCreate={handleCreateRule}
+                    onUpdate={handleUpdateRule}
+                    onDelete={handleDeleteRule}
+                    onClose={() => setIsRuleManagerOpen(false)}
+                />
+            )}
+            {isScheduleManagerOpen && (
+                <ScheduleManager
+                    schedules={schedules}
+                    runs={scheduleRuns}
+                    devices={sortedDevices}
+                    scenes={scenes}
+                    onCreate={handleCreateSchedule}
+                    onUpdate={handleUpdateSchedule}
+                    onDelete={handleDeleteSchedule}
+                    onRunNow={handleRunSchedule}
+                    onClose={() => setIsScheduleManagerOpen(false)}
+                />
+            )}
+            {cncDevices.length > 0 && <EmergencyStopButton onStop={emergencyStopAllCnc} />}
+            {isJobHistoryOpen && (
+                <JobHistory
+                    devices={cncDevices}
+                    recentJobs={cncJobs}
+                    onClose={() => setIsJobHistoryOpen(false)}
+                />
+            )}
+            {isVoiceHistoryOpen && <VoiceSessionHistory onClose={() => setIsVoiceHistoryOpen(false)} />}
+            <div className="lg:col-span-2 flex flex-col gap-4">
+                <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-400">{devices.length} {devices.length === 1 ? 'device' : 'devices'} registered</p>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setIsRuleManagerOpen(true)}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                        >
+                            <SparklesIcon className="w-4 h-4" />
+                            Automations
                         </button>
-                    </div>
-                </div>
-                {/* Dust Collector */}
-                <div className="bg-gray-800/50 rounded-lg p-6 flex flex-col justify-between shadow-lg">
-                    <div className="flex justify-between items-center">
-                        <h3 className="text-xl font-bold text-white">Dust Collector</h3>
-                        <RssIcon className={`w-6 h-6 transition-colors ${dustCollectorOn ? 'text-green-400' : 'text-gray-600'}`} />
-                    </div>
-                    <p className="text-gray-400 mt-2">Central dust extraction system.</p>
-                    <div className="mt-6 flex items-center justify-center">
-                         <button onClick={() => setDustCollectorOn(!dustCollectorOn)} className={`relative w-40 h-16 rounded-full transition-colors duration-300 ${dustCollectorOn ? 'bg-green-500' : 'bg-gray-700'}`}>
-                            <span className="absolute top-1/2 left-8 -translate-y-1/2 text-white font-bold">OFF</span>
-                            <span className="absolute top-1/2 right-8 -translate-y-1/2 text-white font-bold">ON</span>
-                            <span className={`absolute top-1 left-1 block w-14 h-14 bg-white rounded-full shadow-md transform transition-transform duration-300 ${dustCollectorOn ? 'translate-x-[92px]' : ''}`}></span>
+                        <button
+                            onClick={() => setIsScheduleManagerOpen(true)}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                        >
+                            <ClockIcon className="w-4 h-4" />
+                            Schedules
                         </button>
-                    </div>
-                </div>
-
-                {/* Lights */}
-                <div className="bg-gray-800/50 rounded-lg p-6 shadow-lg flex flex-col">
-                    <div className="flex justify-between items-center">
-                        <h3 className="text-xl font-bold text-white">Smart Lighting</h3>
-                        <WifiIcon className={`w-6 h-6 transition-colors ${isLightConnected ? 'text-green-400' : 'text-gray-600'}`} />
-                    </div>
-                    <p className="text-gray-400 mt-2">Control WiFi lights on your local network.</p>
-                    
-                    <div className="mt-4 flex flex-col gap-3">
-                         <div className="flex items-center justify-between">
-                            <label htmlFor="light-ip" className="text-sm text-gray-400">Light IP Address</label>
-                            <LightStatusIndicator status={lightConnectionStatus}/>
-                         </div>
-                        <div className="flex items-center gap-2">
-                             <input 
-                                id="light-ip"
-                                type="text"
-                                value={lightIpAddress}
-                                onChange={(e) => setLightIpAddress(e.target.value)}
-                                placeholder="http://192.168.1.50"
-                                disabled={!isLightConnectable}
-                                className="w-full bg-gray-900/50 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
-                            />
-                             <button 
-                                onClick={() => setIsScannerOpen(true)}
-                                disabled={!isLightConnectable}
-                                className="p-1.5 rounded-md bg-gray-600 hover:bg-gray-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                                aria-label="Scan for devices"
-                             >
-                                <ScanIcon className="w-4 h-4"/>
-                             </button>
-                        </div>
-                        <button 
-                            onClick={isLightConnectable ? handleConnectLight : handleDisconnectLight} 
-                            disabled={lightConnectionStatus === 'Connecting'}
-                            className={`px-3 py-2 text-sm font-semibold rounded-md transition-colors w-full text-white disabled:opacity-50 disabled:cursor-wait ${isLightConnectable ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}>
-                            {lightConnectionStatus === 'Connecting' ? 'Connecting...' : isLightConnectable ? 'Connect' : 'Disconnect'}
+                        <button
+                            onClick={() => setIsJobHistoryOpen(true)}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                        >
+                            <ClipboardListIcon className="w-4 h-4" />
+                            Job history
                         </button>
-                    </div>
-
-                    <fieldset 
-                        disabled={!isLightConnected || isUpdatingLight}
-                        className="flex-grow flex flex-col gap-4 transition-opacity duration-300 group disabled:opacity-40 disabled:cursor-not-allowed mt-4"
-                    >
-                        <button 
-                            onClick={handleLightPowerToggle} 
-                            className={`w-full py-2 rounded-md font-semibold transition-colors relative ${lights.power === 'on' ? 'bg-yellow-400 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 group-disabled:hover:bg-gray-700'}`}
+                        <button
+                            onClick={() => setIsDeviceManagerOpen(true)}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
                         >
-                            {isUpdatingLight && (
-                                <span className="absolute left-4 top-1/2 -translate-y-1/2">
-                                    <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                    </svg>
-                                </span>
-                            )}
-                            {lights.power === 'on' ? 'Turn Off' : 'Turn On'}
+                            <ToolsIcon className="w-4 h-4" />
+                            Manage Devices
                         </button>
-                        <div className={`transition-opacity duration-300 ${lights.power === 'on' ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
-                            {['r', 'g', 'b'].map((color) => (
-                                <div key={color} className="flex items-center gap-3">
-                                    <span className={`w-4 font-mono uppercase text-${color === 'r' ? 'red' : color === 'g' ? 'green' : 'blue'}-400`}>{color}</span>
-                                    <input type="range" min="0" max="255" value={lights[color as keyof Omit<LightState, 'power'>]} onChange={(e) => handleLightColorChange(color as keyof Omit<LightState, 'power'>, parseInt(e.target.value))} className={`w-full h-2 rounded-lg appearance-none cursor-pointer bg-gray-700 accent-${color === 'r' ? 'red' : color === 'g' ? 'green' : 'blue'}-500`} />
-                                </div>
-                            ))}
-                        </div>
-                         <div style={{ backgroundColor: rgbToHex(lights.r, lights.g, lights.b) }} className={`w-full h-8 rounded-md mt-2 transition-all duration-300 ${lights.power === 'on' ? 'opacity-100' : 'opacity-20'}`}></div>
-                    </fieldset>
+                    </div>
+                </div>
+                {devicesError && <p className="text-red-400 text-sm bg-red-900/30 rounded-md p-3">{devicesError}</p>}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {sortedDevices.map(renderDeviceCard)}
+                    {lightDevices.length > 0 && (
+                        <ScenesCard
+                            scenes={scenes}
+                            lightDevices={lightDevices}
+                            lights={lights}
+                            defaultLight={DEFAULT_LIGHT_STATE}
+                            onApply={(scene) => applyScene(scene.id)}
+                            onSave={handleSaveScene}
+                            onUpdate={handleUpdateScene}
+                            onDelete={handleDeleteScene}
+                        />
+                    )}
                 </div>
             </div>
 
             {/* Voice Assistant */}
             <div className="bg-gray-800/50 rounded-lg p-6 flex flex-col shadow-lg">
                 <h3 className="text-xl font-bold text-white mb-4 text-center">Voice Assistant</h3>
+                <VoiceModeSelector
+                    settings={voiceMode}
+                    onChange={changeVoiceMode}
+                    isListening={isListening}
+                    isTalking={isTalking}
+                    wakeWordError={wakeWordError}
+                />
                 <div className="relative">
                     {!isListening ? (
                         <button 
@@ -927,15 +1123,28 @@ export const WorkshopControl: React.FC = () => {
                         </button>
                     )}
                 </div>
+                {pendingVoiceAction && (
+                    <VoiceConfirmationPrompt
+                        key={pendingVoiceAction.expiresAt}
+                        summary={pendingVoiceAction.summary}
+                        expiresAt={pendingVoiceAction.expiresAt}
+                        onConfirm={() => answerPendingVoiceAction(true)}
+                        onCancel={() => answerPendingVoiceAction(false)}
+                    />
+                )}
                 <div className="mt-4 flex-grow bg-gray-900/50 rounded-lg p-3 min-h-[200px] max-h-[400px] overflow-y-auto flex flex-col gap-3">
                     {transcripts.length === 0 && <p className="text-gray-500 text-center m-auto">Voice transcripts will appear here...</p>}
-                    {transcripts.map((t) => (
-                        <div key={t.id} className={`p-2 rounded-lg max-w-[85%] ${t.speaker === 'user' ? 'bg-cyan-900/70 self-end' : 'bg-gray-700/70 self-start'}`}>
-                            <p className="text-sm">{t.text}</p>
-                        </div>
-                    ))}
+                    <VoiceTranscript entries={transcripts} />
                 </div>
+                {voiceSaveError && <p className="text-red-400 text-xs mt-2">{voiceSaveError}</p>}
+                <button
+                    onClick={() => setIsVoiceHistoryOpen(true)}
+                    className="mt-3 flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-white transition-colors"
+                >
+                    <ClipboardListIcon className="w-4 h-4" />
+                    Saved transcripts
+                </button>
             </div>
         </div>
     );
-};
\ No newline at end of file
+};
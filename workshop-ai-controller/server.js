@@ -1,120 +1,1011 @@
 import express from 'express';
 import cors from 'cors';
+import { createDeviceRegistry } from './server/devices.js';
+import { scanForLights } from './server/drivers/light.js';
+import { CNC_COMMANDS, createCncBridges } from './server/cncBridges.js';
+import { createCncJobHistory, jobsToCsv } from './server/cncJobs.js';
+import { createCncQueues } from './server/cncQueue.js';
+import { MAX_PROGRAM_BYTES, parseProgram } from './server/gcode.js';
+import { CNC_AXES, createDeviceControl, validateAxes, validateJog, validateLightState, validateOverride } from './server/deviceControl.js';
+import { createDeviceStateStore } from './server/deviceState.js';
+import { createEventHub } from './server/events.js';
+import { createSceneRegistry } from './server/scenes.js';
+import { createActionRunner } from './server/actions.js';
+import { createRuleEngine, createRuleRegistry } from './server/rules.js';
+import { createScheduleRegistry, createScheduleRunLog, createScheduler, withNextRun } from './server/schedules.js';
+import { createOAuthClient, loadOAuthConfig } from './server/oauth.js';
+import { createSessionStore, sessionMiddleware } from './server/sessions.js';
+import { createVoiceSessions, sessionToMarkdown } from './server/voiceSessions.js';
 
 const app = express();
 const port = 3001;
 
+// Express 4 leaves a promise rejected by an async route unhandled, which ends
+// the process; hand it to the error handler at the bottom instead.
+for (const method of ['get', 'post', 'put', 'delete']) {
+    const register = app[method].bind(app);
+    app[method] = (path, ...handlers) => register(path, ...handlers.map(handler =>
+        (req, res, next) => Promise.resolve(handler(req, res, next)).catch(next)));
+}
+
 // Middleware
-// Enable Cross-Origin Resource Sharing (CORS) with a more explicit configuration.
-// This is crucial for allowing the frontend (running in the browser) to communicate
-// with this backend server. The `fetch` API in browsers enforces a same-origin policy,
-// and CORS headers are required to bypass this for legitimate requests.
-app.use(cors({
-  origin: '*', // For development, allow any origin. In production, you'd restrict this to your app's domain.
-  methods: ['GET', 'POST', 'OPTIONS'], // Allow these HTTP methods.
-  allowedHeaders: ['Content-Type'], // Allow the 'Content-Type' header, which is sent by the frontend.
-}));
+// Browsers may call the backend from the app itself (the same host, e.g.
+// through the Vite proxy) or from an origin listed in ALLOWED_ORIGINS
+// (comma-separated, default the Vite dev server). Any other web page is
+// refused, so a site the user happens to visit cannot drive the machines with
+// their session. Clients that send no Origin (curl, bridges) are not affected.
+const allowedOrigins = (process.env.ALLOWED_ORIGINS || 'http://localhost:3000')
+    .split(',').map(origin => origin.trim()).filter(Boolean);
+
+function isAllowedOrigin(origin, host) {
+    if (allowedOrigins.includes(origin)) return true;
+    try {
+        return new URL(origin).host === host;
+    } catch {
+        return false; // e.g. "null" from sandboxed pages
+    }
+}
+
+app.use((req, res, next) => {
+    const origin = req.headers.origin;
+    if (!origin || isAllowedOrigin(origin, req.headers.host)) return next();
+    console.warn(`[BACKEND] Refused a request from origin ${origin}.`);
+    res.status(403).json({ status: 'ERROR', message: `Requests from ${origin} are not allowed. Add it to ALLOWED_ORIGINS.` });
+});
+app.use(cors((req, callback) => callback(null, {
+  origin: isAllowedOrigin(req.headers.origin, req.headers.host), // Only allowed origins get CORS headers.
+  credentials: true, // Session cookies must be allowed on cross-origin requests.
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'], // Allow these HTTP methods.
+  allowedHeaders: ['Content-Type', 'Authorization'], // 'Authorization' carries bearer session ids from non-browser clients.
+})));
 app.use(express.json()); // Parse JSON bodies
 
-// --- In-memory state for simulation ---
-let googleToken = null;
-let lightState = {
-    power: 'off',
-    color: { r: 255, g: 255, b: 255 }
-};
+// --- Per-client sessions ---
+// Each client has its own session holding its sign-in, so logging out on one
+// tablet leaves the others signed in. SESSION_STORE picks "file" (default,
+// survives restarts) or "memory".
+const sessionStore = createSessionStore();
+app.use(sessionMiddleware(sessionStore));
+setInterval(() => sessionStore.prune(Date.now()), 60 * 60 * 1000).unref();
+
+// --- Google sign-in state ---
+// Signed-in tokens and profile live on the session as `session.auth = { tokens, user }`.
+// Authorization requests awaiting their callback, keyed by the OAuth `state`,
+// remember which session started them.
+const pendingAuthorizations = new Map();
+const AUTHORIZATION_TIMEOUT_MS = 10 * 60 * 1000;
+// Access tokens are refreshed this long before they actually expire.
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+const oauthConfig = loadOAuthConfig(port);
+const oauthClient = createOAuthClient(oauthConfig);
+
+// --- Persisted device registry (data/devices.json) ---
+const deviceRegistry = createDeviceRegistry();
+
+// --- Persisted lighting scenes (data/scenes.json) ---
+const sceneRegistry = createSceneRegistry();
+
+// --- Live device state ---
+// The backend keeps the last known state of every device and pushes each
+// change to all open clients over Server-Sent Events (GET /api/events).
+const deviceStates = createDeviceStateStore();
+const eventHub = createEventHub();
+const cncBridges = createCncBridges(deviceStates);
+// CNC jobs (data/cnc-jobs.json), recorded from the state changes for usage reports.
+const cncJobs = createCncJobHistory({
+    deviceRegistry,
+    deviceStates,
+    onJob: (job) => eventHub.broadcast('cnc-job', { job }),
+});
+const deviceControl = createDeviceControl({ deviceRegistry, deviceStates, cncBridges, cncJobs });
+// Files queued to run back to back on each CNC machine.
+const cncQueues = createCncQueues({
+    deviceRegistry,
+    deviceStates,
+    deviceControl,
+    onQueue: (deviceId, queue) => eventHub.broadcast('cnc-queue', { deviceId, queue }),
+});
+// Voice assistant transcripts (data/voice-sessions.json), for incident review.
+const voiceSessions = createVoiceSessions();
+const actionRunner = createActionRunner({ deviceRegistry, sceneRegistry, deviceStates, deviceControl });
+
+deviceStates.on('change', ({ deviceId, state, actor }) => {
+    eventHub.broadcast('device-state', { deviceId, state, actor });
+});
+
+// Registry edits are pushed too, so every client shows the same set of cards.
+async function broadcastDevices(actor) {
+    eventHub.broadcast('devices', { devices: await deviceRegistry.list(), actor });
+}
+
+async function broadcastScenes(actor) {
+    eventHub.broadcast('scenes', { scenes: await sceneRegistry.list(), actor });
+}
+
+// --- Automation rules (data/rules.json), evaluated here even with no client open ---
+const ruleRegistry = createRuleRegistry();
+const ruleEngine = createRuleEngine({
+    ruleRegistry,
+    deviceStates,
+    actionRunner,
+    onActivity: (ruleId, activity) => eventHub.broadcast('rule-activity', { ruleId, activity }),
+});
+
+async function broadcastRules(actor) {
+    eventHub.broadcast('rules', { rules: await ruleRegistry.list(), actor });
+}
+
+// --- Time-based schedules (data/schedules.json), run here at their cron times ---
+const scheduleRegistry = createScheduleRegistry();
+const scheduleRunLog = createScheduleRunLog();
+const scheduler = createScheduler({
+    scheduleRegistry,
+    runLog: scheduleRunLog,
+    actionRunner,
+    onRun: (run) => {
+        eventHub.broadcast('schedule-run', { run });
+        // Starting a cron run moves the schedule's next run time along.
+        if (run.trigger === 'schedule' && run.finishedAt === null) broadcastSchedules('system');
+    },
+});
+scheduler.start();
+
+const listSchedules = async () => (await scheduleRegistry.list()).map(schedule => withNextRun(schedule));
+
+async function broadcastSchedules(actor) {
+    eventHub.broadcast('schedules', { schedules: await listSchedules(), actor });
+}
 
 // --- TODO: Real Google Home API Integration ---
-// In a real application, you would use libraries like 'googleapis' and 'google-auth-library'.
-// The server would manage OAuth2 tokens and make authenticated requests to the
-// Google Home Graph API or Smart Device Management API.
-// This requires a Google Cloud project with the appropriate APIs enabled.
+// Sign-in below is a real OAuth 2.0 flow, so getGoogleAccessToken(req) yields a
+// valid access token. Calls to the Google Home Graph API or Smart Device
+// Management API still have to be added, which requires a Google Cloud project
+// with the appropriate APIs enabled and their scopes in OAUTH_SCOPES.
 // Example: https://developers.google.com/nest/device-access/authorize
 
+/**
+ * Returns a usable access token for the caller's session, refreshing it when
+ * it is about to expire. Resolves to null when the session is not signed in or
+ * the refresh was rejected.
+ */
+async function getGoogleAccessToken(req) {
+    const auth = req.session?.auth;
+    if (!auth) return null;
+    if (auth.tokens.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+        return auth.tokens.accessToken;
+    }
+    try {
+        auth.tokens = await oauthClient.refresh(auth.tokens);
+        await req.saveSession();
+        console.log(`[BACKEND] Refreshed access token for ${req.actor}.`);
+        return auth.tokens.accessToken;
+    } catch (error) {
+        console.error(`[BACKEND] Token refresh failed for ${req.actor}, signing out:`, error.message);
+        req.session.auth = null;
+        await req.saveSession();
+        return null;
+    }
+}
+
+// The OAuth popup ends on this page, which reports back to the app and closes itself.
+function authPopupPage(result) {
+    const message = JSON.stringify({ type: 'workshop-auth', ...result }).replace(/</g, '\\u003c');
+    const text = result.status === 'SUCCESS' ? 'Signed in.' : 'Sign-in failed.';
+    return `<!DOCTYPE html><html><body><p>${text} You can close this window.</p><script>
+if (window.opener) window.opener.postMessage(${message}, '*');
+window.close();
+</script></body></html>`;
+}
+
 // --- API Endpoints ---
 
-// Simulates the start of the OAuth 2.0 flow
-app.get('/api/auth/google', (req, res) => {
-    // In a real app, you would redirect to Google's OAuth consent screen:
-    // const authUrl = googleOauthClient.generateAuthUrl({ ... });
-    // res.redirect(authUrl);
-    
-    // For this demo, we'll simulate a successful authentication immediately.
-    console.log('[BACKEND] Simulating Google OAuth flow...');
-    res.send('<script>window.close();</script>');
-});
-
-// The frontend would call this after the popup closes to confirm auth
-app.post('/api/auth/verify', (req, res) => {
-    // In a real app, this would be a callback endpoint from Google with an auth code.
-    // The server would exchange the code for an access token.
-    console.log('[BACKEND] Simulating token exchange...');
-    googleToken = 'simulated_google_access_token_' + Date.now();
-    res.json({ 
+// Starts the OAuth 2.0 authorization-code flow by redirecting to the consent screen
+app.get('/api/auth/google', async (req, res) => {
+    if (!oauthClient.isConfigured()) {
+        return res.status(503).send(authPopupPage({ status: 'ERROR', message: 'Sign-in is not configured on the backend (OAUTH_CLIENT_ID is missing).' }));
+    }
+    try {
+        const session = await req.startSession();
+        const { url, state, codeVerifier } = await oauthClient.createAuthorizationRequest();
+        pendingAuthorizations.set(state, { codeVerifier, sessionId: session.id, createdAt: Date.now() });
+        setTimeout(() => pendingAuthorizations.delete(state), AUTHORIZATION_TIMEOUT_MS).unref();
+        console.log('[BACKEND] Redirecting to the OAuth consent screen...');
+        res.redirect(url);
+    } catch (error) {
+        console.error('[BACKEND] Could not start sign-in:', error.message);
+        res.status(502).send(authPopupPage({ status: 'ERROR', message: error.message }));
+    }
+});
+
+// The issuer redirects here with an authorization code to exchange for tokens
+app.get('/api/auth/callback', async (req, res) => {
+    const { code, state, error } = req.query;
+    const pending = typeof state === 'string' ? pendingAuthorizations.get(state) : undefined;
+    if (pending) pendingAuthorizations.delete(state);
+
+    if (error) {
+        return res.status(400).send(authPopupPage({ status: 'ERROR', message: `Sign-in was not completed: ${error}` }));
+    }
+    if (!pending || typeof code !== 'string') {
+        return res.status(400).send(authPopupPage({ status: 'ERROR', message: 'Sign-in request expired or is invalid. Please try again.' }));
+    }
+
+    try {
+        const tokens = await oauthClient.exchangeCode(code, pending.codeVerifier);
+        const user = await oauthClient.fetchUser(tokens.accessToken);
+        // The callback may arrive without the session cookie (e.g. a different host
+        // name in the redirect URI), so the session is looked up from the pending request.
+        const session = await sessionStore.get(pending.sessionId);
+        if (!session) {
+            return res.status(400).send(authPopupPage({ status: 'ERROR', message: 'Your session ended during sign-in. Please try again.' }));
+        }
+        session.auth = { tokens, user };
+        await sessionStore.set(session.id, session);
+        console.log(`[BACKEND] Signed in as ${user?.email ?? user?.sub ?? 'unknown user'}.`);
+        res.send(authPopupPage({ status: 'SUCCESS', user }));
+    } catch (exchangeError) {
+        console.error('[BACKEND] Token exchange failed:', exchangeError.message);
+        res.status(502).send(authPopupPage({ status: 'ERROR', message: exchangeError.message }));
+    }
+});
+
+// Reports who is signed in, refreshing an expiring access token on the way
+app.get('/api/auth/status', async (req, res) => {
+    const signedIn = Boolean(await getGoogleAccessToken(req));
+    res.json({
         status: 'SUCCESS',
-        user: { email: 'user@gmail.com' }
+        configured: oauthClient.isConfigured(),
+        signedIn,
+        user: signedIn ? req.session.auth.user : null,
+        expiresAt: signedIn ? req.session.auth.tokens.expiresAt : null,
     });
 });
 
-// Simulates logging out
-app.post('/api/auth/logout', (req, res) => {
-    console.log('[BACKEND] User logged out.');
-    googleToken = null;
+// Forces a token refresh, e.g. after the issuer revoked the current access token
+app.post('/api/auth/refresh', async (req, res) => {
+    if (!req.session?.auth) {
+        return res.status(401).json({ status: 'ERROR', message: 'Not authenticated' });
+    }
+    req.session.auth.tokens.expiresAt = 0;
+    if (!(await getGoogleAccessToken(req))) {
+        return res.status(401).json({ status: 'ERROR', message: 'Session expired, please sign in again.' });
+    }
+    res.json({ status: 'SUCCESS', expiresAt: req.session.auth.tokens.expiresAt });
+});
+
+// Signs this client out; other clients stay signed in. Issuers such as Google
+// revoke the whole grant (every session of that user), so revocation is opt-in
+// with ?revoke=true.
+app.post('/api/auth/logout', async (req, res) => {
+    if (req.session?.auth) {
+        console.log(`[BACKEND] ${req.actor} logged out.`);
+        if (req.query.revoke === 'true') {
+            await oauthClient.revoke(req.session.auth.tokens);
+        }
+    }
+    await req.endSession();
     res.json({ status: 'SUCCESS' });
 });
 
-// Endpoint to set light power
-app.post('/api/lights/power', (req, res) => {
-    if (!googleToken) {
-        return res.status(401).json({ status: 'ERROR', message: 'Not authenticated' });
+// --- Live Updates ---
+
+// Event stream: a `snapshot` ({ devices, states, scenes, rules, ruleActivity,
+// schedules, scheduleRuns, cncJobs, cncQueues }) on every (re)connect, then `devices`
+// ({ devices, actor }), `device-state` ({ deviceId, state, actor }), `scenes`
+// ({ scenes, actor }), `rules` ({ rules, actor }), `rule-activity`
+// ({ ruleId, activity }), `schedules` ({ schedules, actor }), `schedule-run`
+// ({ run }, sent when a run starts and again when it finishes), `cnc-job`
+// ({ job }, sent whenever a job starts, pauses, resumes, ends or is edited) and
+// `cnc-queue` ({ deviceId, queue }, sent whenever a job queue changes).
+app.get('/api/events', async (req, res) => {
+    const snapshot = {
+        devices: await deviceRegistry.list(),
+        states: deviceStates.snapshot(),
+        scenes: await sceneRegistry.list(),
+        rules: await ruleRegistry.list(),
+        ruleActivity: ruleEngine.activitySnapshot(),
+        schedules: await listSchedules(),
+        scheduleRuns: await scheduleRunLog.list(),
+        cncJobs: await cncJobs.list({ limit: 50 }),
+        cncQueues: cncQueues.snapshot(),
+    };
+    eventHub.subscribe(req, res, [['snapshot', snapshot]]);
+});
+
+// --- Device Registry ---
+
+app.get('/api/devices', async (req, res) => {
+    res.json({ status: 'SUCCESS', devices: await deviceRegistry.list() });
+});
+
+app.get('/api/devices/:id', async (req, res) => {
+    const device = await deviceRegistry.get(req.params.id);
+    if (!device) {
+        return res.status(404).json({ status: 'ERROR', message: 'Device not found.' });
+    }
+    res.json({ status: 'SUCCESS', device });
+});
+
+app.post('/api/devices', async (req, res) => {
+    const { device, error } = await deviceRegistry.create(req.body ?? {});
+    if (error) {
+        return res.status(400).json({ status: 'ERROR', message: error });
+    }
+    console.log(`[BACKEND] ${req.actor} registered ${device.kind} "${device.name}" at ${device.address || '(local)'}.`);
+    res.status(201).json({ status: 'SUCCESS', device });
+    broadcastDevices(req.actor);
+});
+
+app.put('/api/devices/:id', async (req, res) => {
+    const { device, error, notFound } = await deviceRegistry.update(req.params.id, req.body ?? {});
+    if (error) {
+        return res.status(notFound ? 404 : 400).json({ status: 'ERROR', message: error });
+    }
+    console.log(`[BACKEND] ${req.actor} updated ${device.kind} "${device.name}".`);
+    res.json({ status: 'SUCCESS', device });
+    broadcastDevices(req.actor);
+});
+
+// Rules and schedules that name the device, which would fail without it.
+async function findDeviceDependents(deviceId) {
+    const usesDevice = (actions) => actions.some(action => action.deviceId === deviceId);
+    const rules = (await ruleRegistry.list()).filter(rule => rule.trigger.deviceId === deviceId || usesDevice(rule.actions));
+    const schedules = (await scheduleRegistry.list()).filter(schedule => usesDevice(schedule.actions));
+    return [
+        ...rules.map(rule => `rule "${rule.name}"`),
+        ...schedules.map(schedule => `schedule "${schedule.name}"`),
+    ];
+}
+
+// Refused with 409 while rules or schedules use the device; lighting scenes just drop it.
+app.delete('/api/devices/:id', async (req, res) => {
+    const device = await deviceRegistry.get(req.params.id);
+    if (!device) {
+        return res.status(404).json({ status: 'ERROR', message: 'Device not found.' });
+    }
+    const dependents = await findDeviceDependents(device.id);
+    if (dependents.length > 0) {
+        return res.status(409).json({
+            status: 'ERROR',
+            message: `${device.name} is still used by ${dependents.join(', ')}. Change or delete ${dependents.length === 1 ? 'it' : 'them'} first.`,
+        });
+    }
+    if (!(await deviceRegistry.remove(req.params.id))) {
+        return res.status(404).json({ status: 'ERROR', message: 'Device not found.' });
+    }
+    cncBridges.disconnect(req.params.id, req.actor);
+    cncQueues.forget(req.params.id);
+    deviceStates.remove(req.params.id);
+    console.log(`[BACKEND] ${req.actor} removed device ${req.params.id}.`);
+    res.json({ status: 'SUCCESS' });
+    broadcastDevices(req.actor);
+    if (await sceneRegistry.forgetLight(req.params.id)) broadcastScenes(req.actor);
+});
+
+// Marks a device as disconnected for every client; CNC bridges are closed.
+// Cameras belong to the browser that shows them and have no shared state.
+app.post('/api/devices/:id/disconnect', async (req, res) => {
+    const device = await deviceRegistry.get(req.params.id);
+    if (!device) {
+        return res.status(404).json({ status: 'ERROR', message: 'Device not found.' });
+    }
+    if (device.kind === 'camera') {
+        return res.status(400).json({ status: 'ERROR', message: 'Cameras are connected in the browser, not by the backend.' });
+    }
+    console.log(`[BACKEND] ${req.actor} disconnects ${device.name}.`);
+    if (device.kind === 'cnc') {
+        cncBridges.disconnect(device.id, req.actor);
+    } else {
+        deviceStates.update(device.id, { connection: 'Disconnected' }, req.actor);
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// Looks up a registered device of the given kind, answering 404 itself when there is none.
+async function findDevice(req, res, kind) {
+    const device = await deviceRegistry.get(req.params.id);
+    if (!device || device.kind !== kind) {
+        res.status(404).json({ status: 'ERROR', message: `No ${kind} with id ${req.params.id}.` });
+        return null;
+    }
+    return device;
+}
+
+// --- Dust Collectors (networked relays / smart plugs) ---
+
+// Reads the actual relay state from the device.
+app.get('/api/dust-collectors/:id/power', async (req, res) => {
+    const device = await findDevice(req, res, 'dustCollector');
+    if (!device) return;
+    try {
+        res.json({ status: 'SUCCESS', power: await deviceControl.readDustCollector(device, req.actor) });
+    } catch (error) {
+        res.status(502).json({ status: 'ERROR', message: error.message });
     }
+});
+
+// Switches the relay and answers with the state read back from the device.
+app.post('/api/dust-collectors/:id/power', async (req, res) => {
+    const device = await findDevice(req, res, 'dustCollector');
+    if (!device) return;
     const { power } = req.body;
     if (power !== 'on' && power !== 'off') {
         return res.status(400).json({ status: 'ERROR', message: 'Invalid power state' });
     }
+    try {
+        res.json({ status: 'SUCCESS', power: await deviceControl.switchDustCollector(device, power, req.actor) });
+    } catch (error) {
+        res.status(502).json({ status: 'ERROR', message: error.message });
+    }
+});
 
-    console.log(`[BACKEND] Received command to turn light ${power}.`);
-    // --- TODO: Real Google API call ---
-    // Here you would make a call to the Google Smart Home API to execute the command.
-    // Example:
-    // await homegraph.devices.execute({
-    //     requestId: '...',
-    //     payload: { commands: [{...}] }
-    // });
-
-    // Simulate network latency and potential failure
-    setTimeout(() => {
-        if (Math.random() > 0.95) { // 5% chance of failure
-            console.error('[BACKEND] Simulated API call failed!');
-            res.status(500).json({ status: 'ERROR', message: 'Failed to execute command' });
-        } else {
-            lightState.power = power;
-            console.log(`[BACKEND] Light power is now ${lightState.power}`);
-            res.json({ status: 'SUCCESS' });
-        }
-    }, 500);
+// --- Smart Lights (forwarded to the device's local JSON API) ---
+// The browser never talks to the lights directly, which avoids mixed-content
+// blocking under HTTPS and lights that send no CORS headers.
+
+// Forwards a validated { power?, color? } command. Answers with the light's own
+// response and `light`, the resulting { connection, power, r, g, b } state.
+async function forwardLightState(req, res, state) {
+    const device = await findDevice(req, res, 'light');
+    if (!device) return;
+    const invalid = validateLightState(state);
+    if (invalid) {
+        return res.status(400).json({ status: 'ERROR', message: invalid });
+    }
+    try {
+        res.json({ status: 'SUCCESS', ...(await deviceControl.commandLight(device, state, req.actor)) });
+    } catch (error) {
+        res.status(502).json({ status: 'ERROR', message: error.message });
+    }
+}
+
+// Probes the local network for lights. Streams newline-delimited JSON so the
+// scanner can show progress: { type: 'progress', scanned } and { type: 'found', ip }.
+// Registered before /:id routes so "scan" is not taken for a device id.
+app.get('/api/lights/scan', async (req, res) => {
+    const subnet = String(req.query.subnet ?? '');
+    if (!/^\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(subnet)) {
+        return res.status(400).json({ status: 'ERROR', message: 'Subnet must look like 192.168.1' });
+    }
+
+    let cancelled = false;
+    res.on('close', () => { cancelled = true; });
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    const send = (event) => res.write(`${JSON.stringify(event)}\n`);
+
+    console.log(`[BACKEND] Scanning ${subnet}.1-254 for lights...`);
+    await scanForLights(subnet, {
+        onFound: (ip) => send({ type: 'found', ip }),
+        onProgress: (scanned) => send({ type: 'progress', scanned }),
+        isCancelled: () => cancelled,
+    });
+    res.end();
 });
 
-// Endpoint to set light color
-app.post('/api/lights/color', (req, res) => {
-    if (!googleToken) {
-        return res.status(401).json({ status: 'ERROR', message: 'Not authenticated' });
+// Reads the light's status, doubling as a connectivity check.
+app.get('/api/lights/:id/status', async (req, res) => {
+    const device = await findDevice(req, res, 'light');
+    if (!device) return;
+    try {
+        res.json({ status: 'SUCCESS', ...(await deviceControl.readLight(device, req.actor)) });
+    } catch (error) {
+        res.status(502).json({ status: 'ERROR', message: error.message });
     }
+});
+
+// Endpoint to set power and/or color in one command
+app.post('/api/lights/:id/state', (req, res) => {
+    const { power, color } = req.body;
+    forwardLightState(req, res, { ...(power !== undefined && { power }), ...(color !== undefined && { color }) });
+});
+
+// Endpoint to set light power
+app.post('/api/lights/:id/power', (req, res) => {
+    forwardLightState(req, res, { power: req.body.power ?? null });
+});
+
+// Endpoint to set light color
+app.post('/api/lights/:id/color', (req, res) => {
     const { r, g, b } = req.body;
-    if (r === undefined || g === undefined || b === undefined) {
-        return res.status(400).json({ status: 'ERROR', message: 'Invalid color value' });
+    forwardLightState(req, res, { color: { r, g, b } });
+});
+
+// --- Lighting Scenes ---
+
+const registeredLightIds = async () =>
+    (await deviceRegistry.list()).filter(device => device.kind === 'light').map(device => device.id);
+
+app.get('/api/scenes', async (req, res) => {
+    res.json({ status: 'SUCCESS', scenes: await sceneRegistry.list() });
+});
+
+app.post('/api/scenes', async (req, res) => {
+    const { scene, error } = await sceneRegistry.create(req.body ?? {}, await registeredLightIds());
+    if (error) {
+        return res.status(400).json({ status: 'ERROR', message: error });
+    }
+    console.log(`[BACKEND] ${req.actor} saved scene "${scene.name}".`);
+    res.status(201).json({ status: 'SUCCESS', scene });
+    broadcastScenes(req.actor);
+});
+
+app.put('/api/scenes/:id', async (req, res) => {
+    const { scene, error, notFound } = await sceneRegistry.update(req.params.id, req.body ?? {}, await registeredLightIds());
+    if (error) {
+        return res.status(notFound ? 404 : 400).json({ status: 'ERROR', message: error });
+    }
+    console.log(`[BACKEND] ${req.actor} updated scene "${scene.name}".`);
+    res.json({ status: 'SUCCESS', scene });
+    broadcastScenes(req.actor);
+});
+
+app.delete('/api/scenes/:id', async (req, res) => {
+    if (!(await sceneRegistry.remove(req.params.id))) {
+        return res.status(404).json({ status: 'ERROR', message: 'Scene not found.' });
+    }
+    console.log(`[BACKEND] ${req.actor} removed scene ${req.params.id}.`);
+    res.json({ status: 'SUCCESS' });
+    broadcastScenes(req.actor);
+});
+
+// Recalls a scene on all of its lights at once. Answers with one result per
+// light ({ deviceId, name, status, message? }); fails only if no light took it.
+app.post('/api/scenes/:id/apply', async (req, res) => {
+    const scene = await sceneRegistry.get(req.params.id);
+    if (!scene) {
+        return res.status(404).json({ status: 'ERROR', message: 'Scene not found.' });
+    }
+    const results = await deviceControl.applyScene(scene, req.actor);
+    if (results.every(result => result.status === 'ERROR')) {
+        const reasons = results.map(result => `${result.name}: ${result.message}`).join(' ');
+        return res.status(502).json({ status: 'ERROR', message: `Could not recall "${scene.name}". ${reasons}`, results });
+    }
+    res.json({ status: 'SUCCESS', results });
+});
+
+// --- Automation Rules ---
+
+const ruleContext = async () => ({ devices: await deviceRegistry.list(), scenes: await sceneRegistry.list() });
+
+app.get('/api/rules', async (req, res) => {
+    res.json({ status: 'SUCCESS', rules: await ruleRegistry.list(), activity: ruleEngine.activitySnapshot() });
+});
+
+app.post('/api/rules', async (req, res) => {
+    const { rule, error } = await ruleRegistry.create(req.body ?? {}, await ruleContext());
+    if (error) {
+        return res.status(400).json({ status: 'ERROR', message: error });
     }
+    console.log(`[BACKEND] ${req.actor} created rule "${rule.name}".`);
+    res.status(201).json({ status: 'SUCCESS', rule });
+    broadcastRules(req.actor);
+});
+
+app.put('/api/rules/:id', async (req, res) => {
+    const { rule, error, notFound } = await ruleRegistry.update(req.params.id, req.body ?? {}, await ruleContext());
+    if (error) {
+        return res.status(notFound ? 404 : 400).json({ status: 'ERROR', message: error });
+    }
+    // Delayed actions belong to the old definition.
+    ruleEngine.cancel(rule.id);
+    console.log(`[BACKEND] ${req.actor} updated rule "${rule.name}"${rule.enabled ? '' : ' (disabled)'}.`);
+    res.json({ status: 'SUCCESS', rule });
+    broadcastRules(req.actor);
+});
+
+app.delete('/api/rules/:id', async (req, res) => {
+    if (!(await ruleRegistry.remove(req.params.id))) {
+        return res.status(404).json({ status: 'ERROR', message: 'Rule not found.' });
+    }
+    ruleEngine.forget(req.params.id);
+    console.log(`[BACKEND] ${req.actor} removed rule ${req.params.id}.`);
+    res.json({ status: 'SUCCESS' });
+    broadcastRules(req.actor);
+});
+
+// --- Schedules ---
+
+app.get('/api/schedules', async (req, res) => {
+    res.json({ status: 'SUCCESS', schedules: await listSchedules() });
+});
+
+// Most recent runs first; `?scheduleId=` narrows the log to one schedule.
+app.get('/api/schedules/runs', async (req, res) => {
+    const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+    res.json({ status: 'SUCCESS', runs: await scheduleRunLog.list({ scheduleId: req.query.scheduleId, limit }) });
+});
+
+app.post('/api/schedules', async (req, res) => {
+    const { schedule, error } = await scheduleRegistry.create(req.body ?? {}, await ruleContext());
+    if (error) {
+        return res.status(400).json({ status: 'ERROR', message: error });
+    }
+    console.log(`[BACKEND] ${req.actor} created schedule "${schedule.name}" (${schedule.cron}).`);
+    res.status(201).json({ status: 'SUCCESS', schedule: withNextRun(schedule) });
+    broadcastSchedules(req.actor);
+});
+
+app.put('/api/schedules/:id', async (req, res) => {
+    const { schedule, error, notFound } = await scheduleRegistry.update(req.params.id, req.body ?? {}, await ruleContext());
+    if (error) {
+        return res.status(notFound ? 404 : 400).json({ status: 'ERROR', message: error });
+    }
+    // Delayed actions from the old version of the schedule should not run.
+    scheduler.cancel(schedule.id);
+    console.log(`[BACKEND] ${req.actor} updated schedule "${schedule.name}"${schedule.enabled ? '' : ' (disabled)'}.`);
+    res.json({ status: 'SUCCESS', schedule: withNextRun(schedule) });
+    broadcastSchedules(req.actor);
+});
+
+app.delete('/api/schedules/:id', async (req, res) => {
+    if (!(await scheduleRegistry.remove(req.params.id))) {
+        return res.status(404).json({ status: 'ERROR', message: 'Schedule not found.' });
+    }
+    scheduler.cancel(req.params.id);
+    console.log(`[BACKEND] ${req.actor} removed schedule ${req.params.id}.`);
+    res.json({ status: 'SUCCESS' });
+    broadcastSchedules(req.actor);
+});
+
+// Runs a schedule's actions now, whether or not it is enabled. Results arrive as `schedule-run` events.
+app.post('/api/schedules/:id/run', async (req, res) => {
+    const schedule = await scheduleRegistry.get(req.params.id);
+    if (!schedule) {
+        return res.status(404).json({ status: 'ERROR', message: 'Schedule not found.' });
+    }
+    const run = await scheduler.runNow(schedule, req.actor);
+    res.status(202).json({ status: 'SUCCESS', run });
+});
+
+// --- CNC (UCCNC bridge over WebSocket, held open by the backend) ---
+
+// Adds the `from` and `to` query parameters (ms since epoch) to `filters`, or answers 400 and returns null.
+function readTimeBounds(req, res, filters) {
+    for (const key of ['from', 'to']) {
+        if (req.query[key] === undefined || req.query[key] === '') continue;
+        const ms = Number(req.query[key]);
+        if (!Number.isFinite(ms)) {
+            res.status(400).json({ status: 'ERROR', message: `"${key}" must be a time in milliseconds since the epoch.` });
+            return null;
+        }
+        filters[key] = ms;
+    }
+    return filters;
+}
+
+// Reads the job history filters from the query string, or answers 400 and returns null.
+const readJobFilters = (req, res) => readTimeBounds(req, res, { deviceId: req.query.deviceId || undefined, project: req.query.project });
+
+// Most recent jobs first, filtered by machine, project and start time (`from` inclusive, `to` exclusive).
+app.get('/api/cnc/jobs', async (req, res) => {
+    const filters = readJobFilters(req, res);
+    if (!filters) return;
+    const limit = Math.min(parseInt(req.query.limit) || 200, 5000);
+    res.json({ status: 'SUCCESS', jobs: await cncJobs.list({ ...filters, limit }) });
+});
+
+// The same filters, every matching job, as a spreadsheet-friendly download.
+app.get('/api/cnc/jobs.csv', async (req, res) => {
+    const filters = readJobFilters(req, res);
+    if (!filters) return;
+    const jobs = await cncJobs.list(filters);
+    console.log(`[BACKEND] ${req.actor} exported ${jobs.length} CNC jobs.`);
+    res.attachment(`cnc-jobs-${new Date().toISOString().slice(0, 10)}.csv`);
+    res.type('text/csv').send(jobsToCsv(jobs));
+});
+
+// Assigns a finished or running job to a project (null or "" clears it).
+app.put('/api/cnc/jobs/:id', async (req, res) => {
+    const { job, error, notFound } = await cncJobs.setProject(req.params.id, req.body?.project ?? null);
+    if (error) {
+        return res.status(notFound ? 404 : 400).json({ status: 'ERROR', message: error });
+    }
+    console.log(`[BACKEND] ${req.actor} filed the ${job.file ?? 'CNC'} job of ${job.deviceName} under ${job.project ? `"${job.project}"` : 'no project'}.`);
+    res.json({ status: 'SUCCESS', job });
+    eventHub.broadcast('cnc-job', { job });
+});
+
+// Opens the bridge connection. Status changes arrive on the event stream.
+app.post('/api/cnc/:id/connect', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    console.log(`[BACKEND] ${req.actor} connects to ${device.name} at ${device.address}.`);
+    cncBridges.connect(device, req.actor);
+    res.json({ status: 'SUCCESS', cnc: deviceStates.get(device.id) });
+});
+
+app.post('/api/cnc/:id/command', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const { command } = req.body;
+    if (!CNC_COMMANDS.includes(command)) {
+        return res.status(400).json({ status: 'ERROR', message: `Invalid command. Expected one of: ${CNC_COMMANDS.join(', ')}.` });
+    }
+    try {
+        deviceControl.sendCncCommand(device, command, req.actor);
+    } catch (error) {
+        return res.status(409).json({ status: 'ERROR', message: error.message });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// Emergency stop of every CNC machine. Answers 200 with one result per machine,
+// so a client can tell which ones could not be reached.
+app.post('/api/cnc/estop', async (req, res) => {
+    const results = await deviceControl.emergencyStopAll(req.actor);
+    res.json({ status: 'SUCCESS', results });
+});
+
+app.post('/api/cnc/:id/estop', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    let command;
+    try {
+        command = deviceControl.emergencyStopCnc(device, req.actor);
+    } catch (error) {
+        return res.status(409).json({ status: 'ERROR', message: error.message });
+    }
+    res.json({ status: 'SUCCESS', command });
+});
+
+// Clears an Alarm, EStop or Error; the bridge reports when the machine is ready again.
+app.post('/api/cnc/:id/reset', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    try {
+        deviceControl.resetCnc(device, req.actor);
+    } catch (error) {
+        return res.status(409).json({ status: 'ERROR', message: error.message });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// Moves one axis by `distance` mm (negative for the minus direction).
+app.post('/api/cnc/:id/jog', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const jog = { axis: req.body.axis, distance: req.body.distance };
+    const invalid = validateJog(jog);
+    if (invalid) {
+        return res.status(400).json({ status: 'ERROR', message: invalid });
+    }
+    try {
+        deviceControl.jogCnc(device, jog, req.actor);
+    } catch (error) {
+        return res.status(409).json({ status: 'ERROR', message: error.message });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// Homes the listed axes, or all of them when `axes` is omitted.
+app.post('/api/cnc/:id/home', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const axes = req.body.axes ?? CNC_AXES;
+    const invalid = validateAxes(axes);
+    if (invalid) {
+        return res.status(400).json({ status: 'ERROR', message: invalid });
+    }
+    try {
+        deviceControl.homeCnc(device, axes, req.actor);
+    } catch (error) {
+        return res.status(409).json({ status: 'ERROR', message: error.message });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// Sets the work zero of the listed axes at the current position.
+app.post('/api/cnc/:id/zero', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const { axes } = req.body;
+    const invalid = validateAxes(axes);
+    if (invalid) {
+        return res.status(400).json({ status: 'ERROR', message: invalid });
+    }
+    try {
+        deviceControl.zeroCnc(device, axes, req.actor);
+    } catch (error) {
+        return res.status(409).json({ status: 'ERROR', message: error.message });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// Sets the feed and/or spindle override in percent; allowed while a job runs.
+app.post('/api/cnc/:id/override', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const override = { feed: req.body.feed, spindle: req.body.spindle };
+    const invalid = validateOverride(override);
+    if (invalid) {
+        return res.status(400).json({ status: 'ERROR', message: invalid });
+    }
+    try {
+        deviceControl.overrideCnc(device, override, req.actor);
+    } catch (error) {
+        return res.status(409).json({ status: 'ERROR', message: error.message });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// Uploads a G-code file (raw text body, file name in `?name=`) for 'play' to stream to the machine.
+app.post('/api/cnc/:id/program', express.text({ type: () => true, limit: MAX_PROGRAM_BYTES }), async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const program = parseProgram(req.query.name, typeof req.body === 'string' ? req.body : '');
+    if (program.error) {
+        return res.status(400).json({ status: 'ERROR', message: program.error });
+    }
+    try {
+        deviceControl.loadCncProgram(device, program, req.actor);
+    } catch (error) {
+        return res.status(409).json({ status: 'ERROR', message: error.message });
+    }
+    res.json({ status: 'SUCCESS', program: { name: program.name, lineCount: program.lines.length } });
+});
+
+// The uploaded program's lines (comments stripped), as streamed; `linesDone` in the device state indexes into them.
+app.get('/api/cnc/:id/program', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const program = cncBridges.getProgram(device.id);
+    if (!program) {
+        return res.status(404).json({ status: 'ERROR', message: `No file has been uploaded to ${device.name}.` });
+    }
+    res.json({ status: 'SUCCESS', program });
+});
+
+// --- CNC job queues ---
+// Queued files run one after the other; changes arrive as `cnc-queue` events.
+
+app.get('/api/cnc/:id/queue', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    res.json({ status: 'SUCCESS', queue: cncQueues.get(device.id) });
+});
+
+// Adds a G-code file (raw text body, file name in `?name=`) to the end of the queue.
+// `?toolChange=true&prompt=` holds the queue before it for a tool change.
+app.post('/api/cnc/:id/queue', express.text({ type: () => true, limit: MAX_PROGRAM_BYTES }), async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const program = parseProgram(req.query.name, typeof req.body === 'string' ? req.body : '');
+    if (program.error) {
+        return res.status(400).json({ status: 'ERROR', message: program.error });
+    }
+    const { entry, error } = cncQueues.add(device.id, program, {
+        toolChange: req.query.toolChange === 'true',
+        prompt: typeof req.query.prompt === 'string' ? req.query.prompt : null,
+    });
+    if (error) {
+        return res.status(400).json({ status: 'ERROR', message: error });
+    }
+    console.log(`[BACKEND] ${req.actor} queued ${entry.name} (${entry.lineCount} lines) on ${device.name}.`);
+    res.json({ status: 'SUCCESS', entry });
+});
 
-    console.log(`[BACKEND] Received command to set color to rgb(${r}, ${g}, ${b}).`);
-    // --- TODO: Real Google API call for color ---
+// Reorders the queue; `order` lists the ids of every queued file.
+app.put('/api/cnc/:id/queue', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const error = cncQueues.reorder(device.id, req.body.order);
+    if (error) {
+        return res.status(400).json({ status: 'ERROR', message: error });
+    }
+    res.json({ status: 'SUCCESS', queue: cncQueues.get(device.id) });
+});
 
-    // Simulate faster latency for color changes
-    setTimeout(() => {
-        lightState.color = { r, g, b };
-        console.log(`[BACKEND] Light color is now rgb(${lightState.color.r}, ${lightState.color.g}, ${lightState.color.b})`);
-        res.json({ status: 'SUCCESS' });
-    }, 300);
+app.put('/api/cnc/:id/queue/:entryId', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    const { entry, error, notFound } = cncQueues.update(device.id, req.params.entryId, {
+        toolChange: req.body.toolChange,
+        prompt: req.body.prompt,
+    });
+    if (error) {
+        return res.status(notFound ? 404 : 400).json({ status: 'ERROR', message: error });
+    }
+    res.json({ status: 'SUCCESS', entry });
 });
 
+app.delete('/api/cnc/:id/queue/:entryId', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    if (!cncQueues.remove(device.id, req.params.entryId)) {
+        return res.status(404).json({ status: 'ERROR', message: 'This file is not in the queue.' });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// Runs the next queued file: starts the queue, or goes on after a tool change.
+app.post('/api/cnc/:id/queue/start', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    try {
+        cncQueues.start(device, req.actor);
+    } catch (error) {
+        return res.status(409).json({ status: 'ERROR', message: error.message });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// Stops advancing; the job that is running finishes on its own.
+app.post('/api/cnc/:id/queue/hold', async (req, res) => {
+    const device = await findDevice(req, res, 'cnc');
+    if (!device) return;
+    cncQueues.hold(device, req.actor);
+    res.json({ status: 'SUCCESS' });
+});
+
+// --- Voice sessions ---
+
+// Newest first, without their entries; `q` searches what was said and the function calls.
+app.get('/api/voice/sessions', async (req, res) => {
+    const filters = readTimeBounds(req, res, { q: req.query.q || undefined });
+    if (!filters) return;
+    const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+    res.json({ status: 'SUCCESS', sessions: await voiceSessions.list({ ...filters, limit }) });
+});
+
+app.post('/api/voice/sessions', async (req, res) => {
+    const { session } = await voiceSessions.start(req.actor);
+    console.log(`[BACKEND] ${req.actor} started a voice session.`);
+    res.status(201).json({ status: 'SUCCESS', session });
+});
+
+app.get('/api/voice/sessions/:id', async (req, res) => {
+    const session = await voiceSessions.get(req.params.id);
+    if (!session) {
+        return res.status(404).json({ status: 'ERROR', message: 'Voice session not found.' });
+    }
+    res.json({ status: 'SUCCESS', session });
+});
+
+app.post('/api/voice/sessions/:id/entries', async (req, res) => {
+    const { error, notFound } = await voiceSessions.append(req.params.id, req.body?.entries);
+    if (error) {
+        return res.status(notFound ? 404 : 400).json({ status: 'ERROR', message: error });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+app.post('/api/voice/sessions/:id/end', async (req, res) => {
+    const { error } = await voiceSessions.end(req.params.id);
+    if (error) {
+        return res.status(404).json({ status: 'ERROR', message: error });
+    }
+    res.json({ status: 'SUCCESS' });
+});
+
+// One session as a download: `format=markdown` (the default) or `json`.
+app.get('/api/voice/sessions/:id/export', async (req, res) => {
+    const format = req.query.format ?? 'markdown';
+    if (format !== 'markdown' && format !== 'json') {
+        return res.status(400).json({ status: 'ERROR', message: 'The format must be "markdown" or "json".' });
+    }
+    const session = await voiceSessions.get(req.params.id);
+    if (!session) {
+        return res.status(404).json({ status: 'ERROR', message: 'Voice session not found.' });
+    }
+    console.log(`[BACKEND] ${req.actor} exported the voice session of ${new Date(session.startedAt).toISOString()}.`);
+    const name = `voice-session-${new Date(session.startedAt).toISOString().slice(0, 19).replace(/:/g, '-')}`;
+    if (format === 'json') {
+        res.attachment(`${name}.json`);
+        return res.type('application/json').send(JSON.stringify(session, null, 2));
+    }
+    res.attachment(`${name}.md`);
+    res.type('text/markdown').send(sessionToMarkdown(session));
+});
+
+// Errors thrown by routes: client errors such as malformed JSON keep their
+// status, anything else is logged and answered with a 500.
+app.use((err, req, res, next) => {
+    if (res.headersSent) return next(err);
+    const status = err.status >= 400 && err.status < 500 ? err.status : 500;
+    if (status === 500) console.error(`[BACKEND] ${req.method} ${req.path} failed:`, err);
+    res.status(status).json({ status: 'ERROR', message: status === 500 ? 'Internal server error.' : err.message });
+});
 
 app.listen(port, () => {
     console.log(`
@@ -122,13 +1013,58 @@ app.listen(port, () => {
   Workshop AI Controller Backend is running on http://localhost:${port}
 ===================================================================
 
-This is a mock server to simulate Google Home integration.
-It provides API endpoints that your frontend can call.
+It keeps the device registry, drives the workshop devices on the local network
+and handles Google sign-in. The frontend only talks to this server.
 
-- To start the OAuth flow (simulated): GET /api/auth/google
-- To control the lights:
-  - POST /api/lights/power with body { "power": "on" | "off" }
-  - POST /api/lights/color with body { "r": 255, "g": 100, "b": 50 }
+- To sign in with Google (OAuth 2.0 + PKCE): GET /api/auth/google
+  - GET /api/auth/status, POST /api/auth/refresh, POST /api/auth/logout[?revoke=true]
+  - Sessions are per client (cookie or "Authorization: Bearer <session id>")
+- To manage registered devices (stored in data/devices.json):
+  - GET /api/devices, POST /api/devices
+  - PUT /api/devices/:id, DELETE /api/devices/:id
+  - POST /api/devices/:id/disconnect
+- To follow device state live: GET /api/events (Server-Sent Events)
+- To switch a dust collector relay (http, shelly or tasmota protocol):
+  - GET /api/dust-collectors/:id/power
+  - POST /api/dust-collectors/:id/power with body { "power": "on" | "off" }
+- To control the lights (forwarded to the light's local API):
+  - GET /api/lights/:id/status
+  - POST /api/lights/:id/state with body { "power"?: "on" | "off", "color"?: { "r", "g", "b" } }
+  - POST /api/lights/:id/power with body { "power": "on" | "off" }
+  - POST /api/lights/:id/color with body { "r": 255, "g": 100, "b": 50 }
+  - GET /api/lights/scan?subnet=192.168.1 (streams newline-delimited JSON)
+- To manage and recall lighting scenes (stored in data/scenes.json):
+  - GET /api/scenes, POST /api/scenes with body { "name", "lights": [{ "deviceId", "power", "color"? }] }
+  - PUT /api/scenes/:id, DELETE /api/scenes/:id
+  - POST /api/scenes/:id/apply
+- To manage automation rules (stored in data/rules.json, run by this server):
+  - GET /api/rules, POST /api/rules with body { "name", "enabled"?, "trigger": { "deviceId", "field", "to", "from"? }, "actions": [...] }
+  - PUT /api/rules/:id, DELETE /api/rules/:id
+- To manage time-based schedules (stored in data/schedules.json, run by this server):
+  - GET /api/schedules, POST /api/schedules with body { "name", "enabled"?, "cron": "0 8 * * mon-fri", "actions": [...] }
+  - PUT /api/schedules/:id, DELETE /api/schedules/:id
+  - POST /api/schedules/:id/run, GET /api/schedules/runs?scheduleId=
+- To run the CNC through its UCCNC bridge:
+  - POST /api/cnc/:id/connect
+  - POST /api/cnc/:id/command with body { "command": "play" | "pause" | "stop" }
+  - POST /api/cnc/estop (every machine), POST /api/cnc/:id/estop, POST /api/cnc/:id/reset
+  - POST /api/cnc/:id/jog with body { "axis": "x" | "y" | "z", "distance": mm }
+  - POST /api/cnc/:id/home with body { "axes"?: ["x", "y", "z"] }
+  - POST /api/cnc/:id/zero with body { "axes": ["x", "y", "z"] }
+  - POST /api/cnc/:id/override with body { "feed"?: 10-200, "spindle"?: 10-200 } (percent)
+  - POST /api/cnc/:id/program?name=part.nc with the G-code file as the body (streamed on "play")
+  - GET /api/cnc/:id/program
+- To run files back to back on a CNC (job queue, kept in memory):
+  - GET /api/cnc/:id/queue, POST /api/cnc/:id/queue?name=part.nc[&toolChange=true&prompt=] with the file as the body
+  - PUT /api/cnc/:id/queue with body { "order": [ids] }, PUT /api/cnc/:id/queue/:entryId with body { "toolChange"?, "prompt"? }
+  - DELETE /api/cnc/:id/queue/:entryId, POST /api/cnc/:id/queue/start, POST /api/cnc/:id/queue/hold
+- To report on CNC jobs (stored in data/cnc-jobs.json):
+  - GET /api/cnc/jobs?deviceId=&project=&from=&to=&limit=, GET /api/cnc/jobs.csv (same filters)
+  - PUT /api/cnc/jobs/:id with body { "project": "name" | null }
+- To keep voice assistant transcripts (stored in data/voice-sessions.json):
+  - GET /api/voice/sessions?q=&from=&to=&limit=, POST /api/voice/sessions, GET /api/voice/sessions/:id
+  - POST /api/voice/sessions/:id/entries with body { "entries": [...] }, POST /api/voice/sessions/:id/end
+  - GET /api/voice/sessions/:id/export?format=markdown|json
 
 Make sure your frontend application is making requests to this server.
 `);
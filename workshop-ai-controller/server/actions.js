@@ -0,0 +1,166 @@
+import { CNC_COMMANDS } from './cncBridges.js';
+import { validateLightState } from './deviceControl.js';
+
+// Device actions run by the backend on its own, for automation rules and
+// schedules. An action is a plain JSON object:
+// - { type: 'dustCollector', deviceId, power: 'on' | 'off' }
+// - { type: 'light', deviceId, power?, color?: { r, g, b } }
+// - { type: 'flashLight', deviceId, color, times? } blinks, then restores the light
+// - { type: 'scene', sceneId }
+// - { type: 'cnc', deviceId, command: 'play' | 'pause' | 'stop' }
+// Any action may carry `delaySeconds`, counted from the moment its batch starts.
+
+export const ACTION_TYPES = ['dustCollector', 'light', 'flashLight', 'scene', 'cnc'];
+const ACTION_DEVICE_KINDS = { dustCollector: 'dustCollector', light: 'light', flashLight: 'light', cnc: 'cnc' };
+const MAX_DELAY_SECONDS = 24 * 60 * 60;
+const MAX_FLASHES = 10;
+const FLASH_INTERVAL_MS = 400;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Returns an error message describing why `action` is invalid, or null. */
+export function validateAction(action, devices, scenes) {
+    if (!action || !ACTION_TYPES.includes(action.type)) {
+        return `Unknown action type "${action?.type}". Expected one of: ${ACTION_TYPES.join(', ')}.`;
+    }
+    if (action.delaySeconds !== undefined
+        && !(Number.isInteger(action.delaySeconds) && action.delaySeconds >= 0 && action.delaySeconds <= MAX_DELAY_SECONDS)) {
+        return `Delays must be whole seconds between 0 and ${MAX_DELAY_SECONDS}.`;
+    }
+    if (action.type === 'scene') {
+        return scenes.some(scene => scene.id === action.sceneId) ? null : `Unknown scene "${action.sceneId}".`;
+    }
+
+    const kind = ACTION_DEVICE_KINDS[action.type];
+    if (!devices.some(device => device.id === action.deviceId && device.kind === kind)) {
+        return `Action "${action.type}" needs a registered ${kind}; "${action.deviceId}" is not one.`;
+    }
+    switch (action.type) {
+        case 'dustCollector':
+            return action.power === 'on' || action.power === 'off' ? null : 'Dust collector actions need a power state of "on" or "off".';
+        case 'light':
+            return validateLightState({ power: action.power, color: action.color });
+        case 'flashLight':
+            if (action.times !== undefined && !(Number.isInteger(action.times) && action.times >= 1 && action.times <= MAX_FLASHES)) {
+                return `Lights can flash between 1 and ${MAX_FLASHES} times.`;
+            }
+            return action.color ? validateLightState({ color: action.color }) : 'Flashing needs a color.';
+        case 'cnc':
+            return CNC_COMMANDS.includes(action.command) ? null : `CNC actions need one of: ${CNC_COMMANDS.join(', ')}.`;
+    }
+    return null;
+}
+
+/** Strips an action down to the fields of its type. */
+export function normalizeAction(action) {
+    const { type, deviceId, sceneId, power, color, times, command, delaySeconds } = action;
+    const base = { type, ...(delaySeconds && { delaySeconds }) };
+    switch (type) {
+        case 'dustCollector': return { ...base, deviceId, power };
+        case 'light': return { ...base, deviceId, ...(power && { power }), ...(color && { color: { r: color.r, g: color.g, b: color.b } }) };
+        case 'flashLight': return { ...base, deviceId, color: { r: color.r, g: color.g, b: color.b }, times: times ?? 3 };
+        case 'scene': return { ...base, sceneId };
+        case 'cnc': return { ...base, deviceId, command };
+    }
+    return base;
+}
+
+export function createActionRunner({ deviceRegistry, sceneRegistry, deviceStates, deviceControl }) {
+    const findDevice = async (id) => {
+        const device = await deviceRegistry.get(id);
+        if (!device) throw new Error(`Device ${id} is no longer registered.`);
+        return device;
+    };
+
+    const flashLight = async (device, { color, times = 3 }, actor) => {
+        const before = deviceStates.get(device.id) ?? {};
+        for (let i = 0; i < times; i++) {
+            await deviceControl.commandLight(device, { power: 'on', color }, actor);
+            await sleep(FLASH_INTERVAL_MS);
+            await deviceControl.commandLight(device, { power: 'off' }, actor);
+            await sleep(FLASH_INTERVAL_MS);
+        }
+        const hadColor = ['r', 'g', 'b'].every(c => typeof before[c] === 'number');
+        await deviceControl.commandLight(device, {
+            power: before.power ?? 'off',
+            ...(hadColor && { color: { r: before.r, g: before.g, b: before.b } }),
+        }, actor);
+    };
+
+    /** Runs one action now. Throws an Error with a user-facing message when it fails. */
+    const run = async (action, actor) => {
+        switch (action.type) {
+            case 'dustCollector':
+                await deviceControl.switchDustCollector(await findDevice(action.deviceId), action.power, actor);
+                return;
+            case 'light':
+                await deviceControl.commandLight(await findDevice(action.deviceId), {
+                    ...(action.power && { power: action.power }),
+                    ...(action.color && { color: action.color }),
+                }, actor);
+                return;
+            case 'flashLight':
+                await flashLight(await findDevice(action.deviceId), action, actor);
+                return;
+            case 'scene': {
+                const scene = await sceneRegistry.get(action.sceneId);
+                if (!scene) throw new Error(`Scene ${action.sceneId} no longer exists.`);
+                const failed = (await deviceControl.applyScene(scene, actor)).filter(result => result.status === 'ERROR');
+                if (failed.length > 0) {
+                    throw new Error(`Scene "${scene.name}" failed on ${failed.map(result => `${result.name} (${result.message})`).join(', ')}.`);
+                }
+                return;
+            }
+            case 'cnc':
+                deviceControl.sendCncCommand(await findDevice(action.deviceId), action.command, actor);
+                return;
+            default:
+                throw new Error(`Unknown action type "${action.type}".`);
+        }
+    };
+
+    /**
+     * Starts a list of actions, each after its own `delaySeconds`. Returns
+     * `{ done, cancel }`: `done` resolves to one result per action
+     * ({ status: 'SUCCESS' | 'ERROR' | 'CANCELLED', message? }) once every action
+     * has run or been cancelled; `cancel()` drops the actions still waiting.
+     */
+    const runBatch = (actions, actor) => {
+        const timers = new Set();
+        const settlers = [];
+        const results = actions.map((action, index) => new Promise(resolve => {
+            const execute = async () => {
+                try {
+                    await run(action, actor);
+                    resolve({ status: 'SUCCESS' });
+                } catch (error) {
+                    console.error(`[BACKEND] ${actor}: ${action.type} action failed:`, error.message);
+                    resolve({ status: 'ERROR', message: error.message });
+                }
+            };
+            if (!action.delaySeconds) {
+                execute();
+                return;
+            }
+            const timer = setTimeout(() => {
+                timers.delete(timer);
+                execute();
+            }, action.delaySeconds * 1000);
+            timers.add(timer);
+            settlers[index] = { timer, resolve };
+        }));
+
+        const cancel = () => {
+            settlers.forEach(settler => {
+                if (settler && timers.delete(settler.timer)) {
+                    clearTimeout(settler.timer);
+                    settler.resolve({ status: 'CANCELLED' });
+                }
+            });
+        };
+
+        return { done: Promise.all(results), cancel, isPending: () => timers.size > 0 };
+    };
+
+    return { run, runBatch };
+}
@@ -0,0 +1,447 @@
+import { randomUUID } from 'crypto';
+import WebSocket from 'ws';
+import { FAULT_STATUSES, parseBridgeMessage, PROTOCOL_VERSION } from './cncProtocol.js';
+
+// Connections to UCCNC bridges, held by the backend rather than by each
+// browser so that every client sees the same machine status. The messages are
+// described in cncProtocol.js; anything that does not match is logged and
+// dropped. Once the socket opens, the backend and the bridge exchange hellos,
+// and no command is sent before the bridge has told which protocol version it
+// speaks and what it can do.
+//
+// A program uploaded to the backend is streamed to the bridge instead of
+// playing the file the bridge has loaded: each line goes out as
+// `{ command: 'gcode', seq, line }` and the bridge answers `{ type: 'ack', seq }`
+// once the machine has taken it, or `{ type: 'ack', seq, error }` when it
+// rejects it. Only a few lines are in flight at a time, and progress counts
+// acknowledged lines. The job is only done once the bridge reports Idle after
+// the last ack, since the machine may still hold buffered lines. While
+// streaming, 'pause' is a feed hold, 'play' resumes and 'stop' aborts and
+// flushes whatever the machine still has buffered.
+//
+// Setting up a job uses three more commands, which the backend only sends
+// while no job is running: 'jog' moves one axis, 'home' runs the homing cycle
+// and 'zero' sets the work zero of the listed axes at the current position.
+// 'override' changes the feed and spindle overrides, running or not.
+//
+// Alarm, EStop and Error reported by the bridge always win: they end a
+// streamed job, and the status follows the bridge again once it reports the
+// fault cleared. 'estop' and 'reset' are sent on their own paths, so an
+// emergency stop never waits behind anything else.
+//
+// A bridge that stops answering pings is dropped, and a connection that was
+// up is retried with growing delays until it is back or someone disconnects
+// it. A streamed job does not survive that: the lines in flight are lost, so
+// the job is stopped once the bridge is back and the machine shows an Error.
+
+export const CNC_COMMANDS = ['play', 'pause', 'stop'];
+const HANDSHAKE_TIMEOUT_MS = 5000;
+// A bridge that has not answered a ping for three intervals is considered gone.
+const HEARTBEAT_INTERVAL_MS = 5000;
+const STALE_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS;
+// Reconnect delays double from the first to the last.
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// Lines sent but not yet acknowledged; enough to keep the machine's planner fed.
+const STREAM_WINDOW = 8;
+const DISCONNECTED = {
+    status: 'Disconnected', alarm: null, gcodeFile: null, programId: null, progress: 0, linesDone: null, linesTotal: null,
+    machinePosition: null, workPosition: null, feedOverride: null, spindleOverride: null, feedRate: null,
+    spindleSpeed: null, bridge: null, reconnectAt: null,
+};
+// Readings that change all the time, whoever owns the job status.
+const READINGS = ['feedOverride', 'spindleOverride', 'feedRate', 'spindleSpeed'];
+
+const samePosition = (a, b) => a && b && a.x === b.x && a.y === b.y && a.z === b.z;
+
+export function createCncBridges(deviceStates) {
+    const sockets = new Map();
+    // deviceId → { name, protocol, capabilities } from the bridge's hello; set once the handshake is done.
+    const bridges = new Map();
+    // deviceId → { timer, attempt } while waiting to reconnect.
+    const retries = new Map();
+    // deviceId → { device, program, next, inFlight: Set<seq>, acked, state: 'ready' | 'streaming' | 'draining' | 'paused', interrupted? }
+    const jobs = new Map();
+    // Sockets closed on purpose, which are not reconnected.
+    const abandoned = new WeakSet();
+    // Devices whose bridge reported a fault that it has not cleared yet.
+    const faulted = new Set();
+    let seq = 0;
+
+    const isConnected = (id) => bridges.has(id) && sockets.get(id)?.readyState === WebSocket.OPEN;
+
+    /** Whether the connected bridge announced `capability` (see CAPABILITIES in cncProtocol.js). */
+    const hasCapability = (id, capability) => bridges.get(id)?.capabilities.includes(capability) ?? false;
+
+    const isRunning = (job) => job?.state === 'streaming' || job?.state === 'draining';
+
+    const isStreaming = (job) => isRunning(job) || job?.state === 'paused';
+
+    const transmit = (id, message) => sockets.get(id).send(JSON.stringify(message));
+
+    // Progress is rounded to 0.1 % so that long files do not flood the event stream.
+    const reportProgress = (job) => {
+        const total = job.program.lines.length;
+        const progress = Math.floor((job.acked / total) * 1000) / 10;
+        if (progress === deviceStates.get(job.device.id)?.progress && job.acked !== total) return;
+        deviceStates.update(job.device.id, { progress, linesDone: job.acked, linesTotal: total }, job.device.name);
+    };
+
+    const reset = (job, state) => {
+        job.state = state;
+        job.next = 0;
+        job.acked = 0;
+        job.inFlight.clear();
+    };
+
+    const pump = (job) => {
+        const { lines } = job.program;
+        while (job.state === 'streaming' && job.inFlight.size < STREAM_WINDOW && job.next < lines.length) {
+            const id = ++seq;
+            job.inFlight.add(id);
+            transmit(job.device.id, { command: 'gcode', seq: id, line: lines[job.next++] });
+        }
+        // Everything is acknowledged; the machine works through its buffer.
+        if (job.state === 'streaming' && job.acked === lines.length) job.state = 'draining';
+    };
+
+    const handleAck = (job, { seq: ack, error }) => {
+        // Late acks for lines of a stopped run are ignored.
+        if (!job.inFlight.delete(ack)) return;
+        if (error) {
+            console.error(`[BACKEND] ${job.device.name} rejected a line of ${job.program.name}: ${error}`);
+            transmit(job.device.id, { command: 'stop', user: job.device.name });
+            job.state = 'ready';
+            job.inFlight.clear();
+            deviceStates.update(job.device.id, { status: 'Error' }, job.device.name);
+            return;
+        }
+        job.acked++;
+        reportProgress(job);
+        pump(job);
+    };
+
+    // Positions, overrides and actual speeds are reported whether or not a
+    // job is running; unchanged ones are dropped so an idle machine does not
+    // flood the event stream.
+    const applyReadings = (device, message) => {
+        const current = deviceStates.get(device.id);
+        const changes = {};
+        for (const key of ['machinePosition', 'workPosition']) {
+            if (message[key] && !samePosition(message[key], current?.[key])) changes[key] = message[key];
+        }
+        for (const key of READINGS) {
+            if (message[key] !== undefined) changes[key] = message[key];
+        }
+        deviceStates.update(device.id, changes, device.name);
+    };
+
+    // Once a program is loaded the backend owns the job status: what the bridge
+    // reports about its own file is meaningless then, except for faults and
+    // the Idle that ends a draining job.
+    const applyBridgeStatus = (device, message) => {
+        applyReadings(device, message);
+        const job = jobs.get(device.id);
+        const changes = {};
+        if (message.alarm !== undefined) changes.alarm = message.alarm;
+        if (FAULT_STATUSES.includes(message.status)) {
+            if (!faulted.has(device.id)) {
+                console.error(`[BACKEND] ${device.name} reports ${message.status}${message.alarm ? `: ${message.alarm}` : ''}${isStreaming(job) ? ` while streaming ${job.program.name}` : ''}.`);
+            }
+            faulted.add(device.id);
+            // The machine drops whatever it had buffered.
+            if (job) {
+                job.state = 'ready';
+                job.inFlight.clear();
+            }
+            changes.status = message.status;
+        } else if (faulted.has(device.id) && message.status) {
+            console.log(`[BACKEND] ${device.name} is out of ${deviceStates.get(device.id)?.status}.`);
+            faulted.delete(device.id);
+            changes.status = message.status;
+            changes.alarm = message.alarm ?? null;
+            // The uploaded file starts over, as after a stop.
+            if (job) Object.assign(changes, { progress: 0, linesDone: 0 });
+        } else if (!job) {
+            if (message.status) changes.status = message.status;
+            if (message.gcodeFile !== undefined) changes.gcodeFile = message.gcodeFile;
+            if (message.progress !== undefined) changes.progress = message.progress;
+        } else if (job.state === 'draining' && message.status === 'Idle') {
+            console.log(`[BACKEND] ${device.name} finished ${job.program.name}.`);
+            job.state = 'ready';
+            changes.status = 'Idle';
+        }
+        deviceStates.update(device.id, changes, device.name);
+    };
+
+    // Completes the handshake; a job cut off by a lost connection is stopped now.
+    const applyHello = (device, hello) => {
+        const bridge = { name: hello.bridge, protocol: hello.protocol, capabilities: hello.capabilities };
+        bridges.set(device.id, bridge);
+        faulted.delete(device.id);
+        console.log(`[BACKEND] ${device.name} runs ${hello.bridge ?? 'an unnamed bridge'} (protocol ${hello.protocol}, ${hello.capabilities.join(', ') || 'no extras'}).`);
+
+        const job = jobs.get(device.id);
+        if (job?.interrupted) {
+            transmit(device.id, { command: 'stop', user: device.name });
+            deviceStates.update(device.id, { status: 'Error', bridge, reconnectAt: null, lastError: job.interrupted }, device.name);
+            delete job.interrupted;
+            return;
+        }
+        // The bridge follows up with its actual status.
+        deviceStates.update(device.id, { status: 'Idle', bridge, reconnectAt: null, lastError: null }, device.name);
+    };
+
+    // `attempt` is 0 for a connection asked for by a client and counts up while reconnecting.
+    const open = (device, actor, attempt) => {
+        deviceStates.update(device.id, attempt === 0
+            ? { ...DISCONNECTED, status: 'Connecting', lastError: null }
+            : { status: 'Reconnecting', reconnectAt: null }, actor);
+        const socket = new WebSocket(device.address, { handshakeTimeout: HANDSHAKE_TIMEOUT_MS });
+        sockets.set(device.id, socket);
+
+        let established = false;
+        let lastSeen = Date.now();
+        let heartbeat = null;
+        let helloTimer = null;
+        // Why the connection went down, shown as `lastError`.
+        let failure = null;
+
+        // The close handler logs the reason when it retries.
+        const fail = (reason, retry) => {
+            failure = reason;
+            if (!retry) {
+                console.error(`[BACKEND] ${reason}`);
+                abandoned.add(socket);
+            }
+            socket.terminate();
+        };
+
+        socket.on('open', () => {
+            console.log(`[BACKEND] Connected to ${device.name} at ${device.address}.`);
+            lastSeen = Date.now();
+            socket.send(JSON.stringify({ command: 'hello', protocol: PROTOCOL_VERSION }));
+            // Retrying would not teach an outdated bridge the protocol, but a
+            // bridge that answered before is only slow.
+            helloTimer = setTimeout(() => {
+                fail(attempt === 0
+                    ? `${device.name} did not answer the hello of bridge protocol ${PROTOCOL_VERSION}; is the bridge up to date?`
+                    : `${device.name} did not answer the hello.`, attempt > 0);
+            }, HANDSHAKE_TIMEOUT_MS);
+            heartbeat = setInterval(() => {
+                if (Date.now() - lastSeen > STALE_AFTER_MS) {
+                    fail(`${device.name} stopped answering.`, true);
+                    return;
+                }
+                socket.ping();
+            }, HEARTBEAT_INTERVAL_MS);
+        });
+
+        socket.on('pong', () => {
+            lastSeen = Date.now();
+        });
+
+        socket.on('message', (raw) => {
+            lastSeen = Date.now();
+            const { message, error } = parseBridgeMessage(raw.toString());
+            if (error) {
+                console.error(`[BACKEND] Ignoring an invalid message from ${device.name} (${error}):`, raw.toString().slice(0, 200));
+                return;
+            }
+            if (message.type === 'hello') {
+                if (message.protocol !== PROTOCOL_VERSION) {
+                    fail(`${device.name} speaks bridge protocol ${message.protocol}; this backend speaks ${PROTOCOL_VERSION}.`, false);
+                    return;
+                }
+                clearTimeout(helloTimer);
+                established = true;
+                applyHello(device, message);
+                return;
+            }
+            if (!bridges.has(device.id)) {
+                console.error(`[BACKEND] Ignoring a ${message.type} message that ${device.name} sent before its hello.`);
+                return;
+            }
+            if (message.type === 'ack') {
+                const job = jobs.get(device.id);
+                if (job) handleAck(job, message);
+                return;
+            }
+            applyBridgeStatus(device, message);
+        });
+
+        socket.on('error', (error) => {
+            console.error(`[BACKEND] Connection to ${device.name} failed:`, error.message);
+            failure ??= `Could not reach ${device.name}: ${error.message}.`;
+        });
+
+        socket.on('close', () => {
+            clearInterval(heartbeat);
+            clearTimeout(helloTimer);
+            sockets.delete(device.id);
+            bridges.delete(device.id);
+            faulted.delete(device.id);
+
+            // Only a connection that was up, or is being retried, is retried.
+            if (abandoned.has(socket) || (!established && attempt === 0)) {
+                console.log(`[BACKEND] Connection to ${device.name} closed.`);
+                jobs.delete(device.id);
+                deviceStates.update(device.id, { ...DISCONNECTED, lastError: failure }, device.name);
+                return;
+            }
+
+            const job = jobs.get(device.id);
+            if (isStreaming(job)) {
+                job.interrupted = `Lost the connection after line ${job.acked} of ${job.program.name}; the job was stopped.`;
+                job.state = 'ready';
+                job.inFlight.clear();
+            }
+            const next = established ? 1 : attempt + 1;
+            const delay = Math.min(RECONNECT_MIN_MS * 2 ** (next - 1), RECONNECT_MAX_MS);
+            const reason = failure ?? `Lost the connection to ${device.name}.`;
+            console.warn(`[BACKEND] ${reason} Reconnecting in ${delay / 1000} s (attempt ${next}).`);
+            const timer = setTimeout(() => {
+                retries.delete(device.id);
+                open(device, device.name, next);
+            }, delay);
+            retries.set(device.id, { timer, attempt: next });
+            deviceStates.update(device.id, {
+                status: 'Reconnecting',
+                reconnectAt: Date.now() + delay,
+                lastError: reason,
+                alarm: null,
+                bridge: null,
+                machinePosition: null,
+                workPosition: null,
+            }, device.name);
+        });
+    };
+
+    /** Opens the bridge connection unless one is already open, opening or about to be retried. */
+    const connect = (device, actor) => {
+        if (sockets.has(device.id) || retries.has(device.id)) return;
+        open(device, actor, 0);
+    };
+
+    /** Closes the connection, or gives up reconnecting. */
+    const disconnect = (id, actor) => {
+        const retry = retries.get(id);
+        if (retry) {
+            clearTimeout(retry.timer);
+            retries.delete(id);
+            jobs.delete(id);
+            deviceStates.update(id, { ...DISCONNECTED, lastError: null }, actor);
+            return;
+        }
+        const socket = sockets.get(id);
+        if (!socket) return;
+        abandoned.add(socket);
+        // terminate() also aborts a handshake that is still in progress.
+        socket.terminate();
+    };
+
+    /**
+     * Makes `program` ({ name, lines }, see gcode.js) the file that 'play'
+     * streams. Returns false when the bridge is not connected or a streamed
+     * job is still running or paused.
+     */
+    const loadProgram = (device, { name, lines }, actor) => {
+        if (!isConnected(device.id) || isStreaming(jobs.get(device.id))) return false;
+        // The id tells clients to fetch the new file even when it has the same name.
+        const program = { id: randomUUID(), name, lines };
+        jobs.set(device.id, { device, program, next: 0, inFlight: new Set(), acked: 0, state: 'ready' });
+        deviceStates.update(device.id, {
+            status: 'Idle',
+            gcodeFile: program.name,
+            programId: program.id,
+            progress: 0,
+            linesDone: 0,
+            linesTotal: program.lines.length,
+        }, actor);
+        return true;
+    };
+
+    /** Sends a job command. Returns false when the bridge is not connected. */
+    const send = (id, command, actor) => {
+        if (!isConnected(id)) return false;
+        const job = jobs.get(id);
+        // In a fault the status is the bridge's to report.
+        if (!job || faulted.has(id) || (command === 'pause' && !isRunning(job))) {
+            transmit(id, { command, user: actor });
+            return true;
+        }
+
+        if (command === 'play' && job.state === 'ready') {
+            reset(job, 'streaming');
+            deviceStates.update(id, { status: 'Running', progress: 0, linesDone: 0, lastError: null }, job.device.name);
+            pump(job);
+        } else if (command === 'play' && job.state === 'paused') {
+            job.state = 'streaming';
+            transmit(id, { command: 'play', user: actor });
+            deviceStates.update(id, { status: 'Running' }, job.device.name);
+            pump(job);
+        } else if (command === 'pause' && isRunning(job)) {
+            job.state = 'paused';
+            transmit(id, { command: 'pause', user: actor });
+            deviceStates.update(id, { status: 'Paused' }, job.device.name);
+        } else if (command === 'stop') {
+            reset(job, 'ready');
+            transmit(id, { command: 'stop', user: actor });
+            deviceStates.update(id, { status: 'Idle', progress: 0, linesDone: 0, lastError: null }, job.device.name);
+        }
+        return true;
+    };
+
+    /**
+     * Sends a command other than play/pause/stop ({ command: 'jog' | 'home' |
+     * 'zero' | 'override', ... }). Returns false when the bridge is not
+     * connected; whether a job is running and whether the bridge supports the
+     * command is for the caller to check.
+     */
+    const sendMessage = (id, message, actor) => {
+        if (!isConnected(id)) return false;
+        transmit(id, { ...message, user: actor });
+        return true;
+    };
+
+    /**
+     * Emergency stop: flushes a streamed job and sends 'estop', or 'stop' to
+     * a bridge without it. Resolves to the command sent, or null when the
+     * bridge is not connected.
+     */
+    const emergencyStop = (id, actor) => {
+        if (!isConnected(id)) return null;
+        if (!hasCapability(id, 'estop')) {
+            send(id, 'stop', actor);
+            return 'stop';
+        }
+        const job = jobs.get(id);
+        if (job) reset(job, 'ready');
+        transmit(id, { command: 'estop', user: actor });
+        // The bridge confirms with an EStop status.
+        return 'estop';
+    };
+
+    /**
+     * Clears a fault. The bridge's own faults are reset on the bridge ('reset',
+     * or 'stop' for bridges without it) and clear once it reports so; the
+     * backend's (a rejected line, a lost connection) clear right away.
+     * Returns false when the bridge is not connected.
+     */
+    const resetFault = (id, actor) => {
+        if (!isConnected(id)) return false;
+        const job = jobs.get(id);
+        if (job) reset(job, 'ready');
+        if (faulted.has(id)) {
+            transmit(id, { command: hasCapability(id, 'reset') ? 'reset' : 'stop', user: actor });
+        } else {
+            deviceStates.update(id, { status: 'Idle', alarm: null, lastError: null, ...(job && { progress: 0, linesDone: 0 }) }, actor);
+        }
+        return true;
+    };
+
+    /** The uploaded program ({ id, name, lines }) loaded for the device, or null. */
+    const getProgram = (id) => jobs.get(id)?.program ?? null;
+
+    return { connect, disconnect, send, sendMessage, emergencyStop, resetFault, loadProgram, getProgram, isConnected, hasCapability };
+}
@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from './jsonStore.js';
+
+// History of CNC jobs, for reporting machine usage. A job is recorded from the
+// moment a machine starts Running until it is neither Running nor Paused any
+// more, whether it was started from a Control Panel, by voice, by a schedule
+// or at the machine itself: entries follow the live device state
+// (deviceState.js) rather than the commands.
+//
+// Entry: { id, deviceId, deviceName, file, source: 'upload' | 'bridge',
+// operator, project, startedAt, endedAt, pauses, pausedMs, progress,
+// linesDone, linesTotal, outcome, stoppedBy }. `operator` is whoever sent the
+// 'play' (null when started at the machine), `project` is set afterwards for
+// reporting, `outcome` is null while the job runs, then 'completed',
+// 'stopped', 'failed' or 'disconnected', and `stoppedBy` is whoever sent the
+// 'stop' of a stopped job.
+
+const MAX_LOGGED_JOBS = 5000;
+const MAX_PROJECT_LENGTH = 64;
+// A 'play' or 'stop' explains a status change this soon after it.
+const COMMAND_MATCH_MS = 10000;
+const ACTIVE = ['Running', 'Paused'];
+
+/**
+ * Records CNC jobs from the device state changes. `onJob(job)` is called when
+ * a job starts, pauses, resumes and ends.
+ */
+export function createCncJobHistory({ deviceRegistry, deviceStates, onJob = () => {}, fileName = 'cnc-jobs.json' }) {
+    const store = createJsonStore(fileName, { jobs: [] });
+    // deviceId → { id, pauses, pausedMs, pausedAt } of the job in progress.
+    const open = new Map();
+    // deviceId → { play?, stop? }, each { actor, at }.
+    const commands = new Map();
+
+    // Status changes arrive faster than the file is written; queue the read-modify-writes.
+    let queue = Promise.resolve();
+    const mutate = (change) => {
+        const result = queue.then(async () => {
+            const { jobs } = await store.read();
+            const { jobs: next, value } = await change(jobs);
+            await store.write({ jobs: next });
+            return value;
+        });
+        queue = result.catch(() => {});
+        return result;
+    };
+
+    const patch = (id, changes) => mutate(jobs => {
+        const job = jobs.find(j => j.id === id);
+        if (!job) return { jobs, value: null };
+        const patched = { ...job, ...changes };
+        return { jobs: jobs.map(j => (j.id === id ? patched : j)), value: patched };
+    });
+
+    const recentActor = (deviceId, command) => {
+        const noted = commands.get(deviceId)?.[command];
+        return noted && Date.now() - noted.at < COMMAND_MATCH_MS ? noted.actor : null;
+    };
+
+    const publish = (promise) => promise
+        .then(job => job && onJob(job))
+        .catch(error => console.error('[BACKEND] Could not record a CNC job:', error.message));
+
+    const start = (deviceId, state) => {
+        const id = randomUUID();
+        open.set(deviceId, { id, pauses: 0, pausedMs: 0, pausedAt: null });
+        const operator = recentActor(deviceId, 'play');
+        publish(mutate(async jobs => {
+            const device = await deviceRegistry.get(deviceId);
+            const job = {
+                id,
+                deviceId,
+                deviceName: device?.name ?? deviceId,
+                file: state.gcodeFile ?? null,
+                source: state.programId ? 'upload' : 'bridge',
+                operator,
+                project: null,
+                startedAt: Date.now(),
+                endedAt: null,
+                pauses: 0,
+                pausedMs: 0,
+                progress: state.progress ?? 0,
+                linesDone: state.linesDone ?? null,
+                linesTotal: state.linesTotal ?? null,
+                outcome: null,
+                stoppedBy: null,
+            };
+            console.log(`[BACKEND] ${job.deviceName} started ${job.file ?? 'a job'}${operator ? ` for ${operator}` : ' at the machine'}.`);
+            return { jobs: [job, ...jobs].slice(0, MAX_LOGGED_JOBS), value: job };
+        }));
+    };
+
+    // `previous` still holds the progress that the final status change may reset.
+    const finish = (deviceId, state, previous) => {
+        const current = open.get(deviceId);
+        open.delete(deviceId);
+        const now = Date.now();
+        const pausedMs = current.pausedMs + (current.pausedAt ? now - current.pausedAt : 0);
+        const progress = Math.max(previous.progress ?? 0, state.progress ?? 0);
+        const stopper = recentActor(deviceId, 'stop');
+        let outcome = 'disconnected';
+        if (state.status === 'Error' || state.status === 'Alarm') outcome = 'failed';
+        else if (state.status === 'EStop') outcome = 'stopped';
+        else if (state.status === 'Idle') outcome = progress >= 100 && !stopper ? 'completed' : 'stopped';
+        const stoppedBy = outcome === 'stopped' ? stopper : null;
+        publish(patch(current.id, {
+            endedAt: now,
+            pauses: current.pauses,
+            pausedMs,
+            progress,
+            linesDone: previous.linesDone ?? state.linesDone ?? null,
+            outcome,
+            stoppedBy,
+        }));
+    };
+
+    deviceStates.on('change', ({ deviceId, state, previous }) => {
+        // Only CNC states have a status; progress updates need no entry of their own.
+        if (state.status === undefined || state.status === previous.status) return;
+        const current = open.get(deviceId);
+        if (!current) {
+            if (state.status === 'Running') start(deviceId, state);
+        } else if (!ACTIVE.includes(state.status)) {
+            finish(deviceId, state, previous);
+        } else if (state.status === 'Paused') {
+            current.pauses++;
+            current.pausedAt = Date.now();
+            publish(patch(current.id, { pauses: current.pauses }));
+        } else if (current.pausedAt) {
+            current.pausedMs += Date.now() - current.pausedAt;
+            current.pausedAt = null;
+            publish(patch(current.id, { pausedMs: current.pausedMs }));
+        }
+    });
+
+    // Jobs that were running when the backend stopped lost their connection with it.
+    mutate(jobs => ({
+        jobs: jobs.map(job => (job.outcome === null ? { ...job, outcome: 'disconnected' } : job)),
+        value: null,
+    })).catch(error => console.error('[BACKEND] Could not close interrupted CNC jobs:', error.message));
+
+    /** Remembers who sent a job command, to credit the status change it causes. */
+    const noteCommand = (deviceId, command, actor) => {
+        const noted = command === 'play' ? {} : commands.get(deviceId);
+        commands.set(deviceId, { ...noted, [command]: { actor, at: Date.now() } });
+    };
+
+    /**
+     * Jobs newest first. `from` and `to` (ms since epoch) bound the start
+     * time, `project` matches case-insensitively and '' finds jobs without one.
+     */
+    const list = async ({ deviceId, project, from, to, limit } = {}) => {
+        const wanted = project?.trim().toLowerCase();
+        const jobs = (await store.read()).jobs.filter(job =>
+            (!deviceId || job.deviceId === deviceId)
+            && (wanted === undefined || (job.project ?? '').toLowerCase() === wanted)
+            && (from === undefined || job.startedAt >= from)
+            && (to === undefined || job.startedAt < to));
+        return limit === undefined ? jobs : jobs.slice(0, limit);
+    };
+
+    /** Sets or clears (null or '') the project of a job. Resolves to { job } or { error, notFound? }. */
+    const setProject = async (id, project) => {
+        if (project !== null && typeof project !== 'string') return { error: 'Project must be a string.' };
+        const name = project?.trim() || null;
+        if (name && name.length > MAX_PROJECT_LENGTH) {
+            return { error: `Project must be ${MAX_PROJECT_LENGTH} characters or fewer.` };
+        }
+        const job = await patch(id, { project: name });
+        return job ? { job } : { error: 'Job not found.', notFound: true };
+    };
+
+    return { list, setProject, noteCommand };
+}
+
+const pad = (n) => String(n).padStart(2, '0');
+
+// Local time of the backend, in a form spreadsheets read as a date.
+const formatTimestamp = (ms) => {
+    if (ms === null) return '';
+    const d = new Date(ms);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+const minutes = (ms) => (ms === null ? '' : (ms / 60000).toFixed(1));
+
+const csvField = (value) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = [
+    ['Started', job => formatTimestamp(job.startedAt)],
+    ['Ended', job => formatTimestamp(job.endedAt)],
+    ['Machine', job => job.deviceName],
+    ['File', job => job.file],
+    ['Source', job => job.source],
+    ['Operator', job => job.operator ?? 'at the machine'],
+    ['Project', job => job.project],
+    ['Outcome', job => job.outcome ?? 'running'],
+    ['Progress (%)', job => job.progress],
+    ['Lines done', job => job.linesDone],
+    ['Lines total', job => job.linesTotal],
+    ['Pauses', job => job.pauses],
+    ['Paused (min)', job => minutes(job.pausedMs)],
+    ['Run time (min)', job => minutes(job.endedAt === null ? null : job.endedAt - job.startedAt - job.pausedMs)],
+    ['Stopped by', job => job.stoppedBy],
+];
+
+/** The jobs as CSV, oldest first, one row per job. */
+export function jobsToCsv(jobs) {
+    const rows = [CSV_COLUMNS.map(([title]) => title)];
+    for (const job of [...jobs].reverse()) rows.push(CSV_COLUMNS.map(([, value]) => value(job)));
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,122 @@
+// Version 1 of the protocol spoken with UCCNC bridges over WebSocket. Every
+// message is a JSON object.
+//
+// Bridge → backend, told apart by `type`:
+// - { type: 'hello', protocol, bridge?, capabilities }: the answer to the
+//   backend's hello, followed by a status message. `capabilities` lists what
+//   the bridge supports beyond play/pause/stop (see CAPABILITIES).
+// - { type: 'status', status?, alarm?, gcodeFile?, progress?, machinePosition?,
+//   workPosition?, feedOverride?, spindleOverride?, feedRate?, spindleSpeed? }:
+//   anything that changed, with positions as { x, y, z } in mm, overrides in
+//   percent, the actual feed in mm/min and the actual spindle speed in RPM.
+//   `alarm` is the controller's text for an Alarm, EStop or Error status, and
+//   null once the fault is cleared.
+// - { type: 'ack', seq, error? }: a streamed line was taken, or rejected.
+//
+// Backend → bridge, told apart by `command`:
+// - { command: 'hello', protocol }: sent as soon as the socket opens.
+// - { command: 'play' | 'pause' | 'stop', user }
+// - { command: 'gcode', seq, line } ('stream')
+// - { command: 'jog', axis, distance, user } ('jog'), { command: 'home',
+//   axes, user } ('home') and { command: 'zero', axes, user } ('zero')
+// - { command: 'override', feed?, spindle?, user } ('override'), in percent
+// - { command: 'estop', user } ('estop'): the emergency stop, answered with an
+//   EStop status; { command: 'reset', user } ('reset') clears an Alarm or EStop.
+//   Bridges without them get 'stop' instead.
+//
+// Liveness is checked with WebSocket ping frames, which every WebSocket
+// library answers on its own.
+
+export const PROTOCOL_VERSION = 1;
+export const CAPABILITIES = ['stream', 'jog', 'home', 'zero', 'override', 'estop', 'reset'];
+// Statuses in which the machine will not move until the fault is cleared.
+export const FAULT_STATUSES = ['Alarm', 'EStop', 'Error'];
+// What a bridge may report; Disconnected and the like are the backend's to decide.
+const BRIDGE_STATUSES = ['Idle', 'Running', 'Paused', ...FAULT_STATUSES];
+const MAX_ALARM_LENGTH = 200;
+const AXES = ['x', 'y', 'z'];
+// Non-negative numbers, rounded to whole units.
+const READINGS = ['feedOverride', 'spindleOverride', 'feedRate', 'spindleSpeed'];
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A { x, y, z } position rounded to the micron, or null if malformed.
+const readPosition = (value) => {
+    if (!isObject(value) || !AXES.every(axis => typeof value[axis] === 'number' && Number.isFinite(value[axis]))) return null;
+    return Object.fromEntries(AXES.map(axis => [axis, Math.round(value[axis] * 1000) / 1000]));
+};
+
+function parseHello(data) {
+    if (!Number.isInteger(data.protocol)) return { error: 'hello without a protocol version' };
+    if (!Array.isArray(data.capabilities) || !data.capabilities.every(c => typeof c === 'string')) {
+        return { error: 'hello without a list of capabilities' };
+    }
+    return {
+        message: {
+            type: 'hello',
+            protocol: data.protocol,
+            bridge: typeof data.bridge === 'string' ? data.bridge.slice(0, 64) : null,
+            capabilities: data.capabilities,
+        },
+    };
+}
+
+function parseStatus(data) {
+    const message = { type: 'status' };
+    if (data.status !== undefined) {
+        if (!BRIDGE_STATUSES.includes(data.status)) return { error: `unknown status ${JSON.stringify(data.status)}` };
+        message.status = data.status;
+    }
+    if (data.alarm !== undefined) {
+        if (data.alarm !== null && typeof data.alarm !== 'string') return { error: 'alarm is not a string' };
+        message.alarm = data.alarm?.slice(0, MAX_ALARM_LENGTH) || null;
+    }
+    if (data.gcodeFile !== undefined) {
+        if (data.gcodeFile !== null && typeof data.gcodeFile !== 'string') return { error: 'gcodeFile is not a string' };
+        message.gcodeFile = data.gcodeFile;
+    }
+    if (data.progress !== undefined) {
+        if (typeof data.progress !== 'number' || !(data.progress >= 0 && data.progress <= 100)) {
+            return { error: 'progress is not a percentage' };
+        }
+        message.progress = data.progress;
+    }
+    for (const key of ['machinePosition', 'workPosition']) {
+        if (data[key] === undefined) continue;
+        const position = readPosition(data[key]);
+        if (!position) return { error: `${key} is not an { x, y, z } position` };
+        message[key] = position;
+    }
+    for (const key of READINGS) {
+        if (data[key] === undefined) continue;
+        if (typeof data[key] !== 'number' || !(data[key] >= 0 && data[key] < Infinity)) return { error: `${key} is not a non-negative number` };
+        message[key] = Math.round(data[key]);
+    }
+    return { message };
+}
+
+function parseAck(data) {
+    if (!Number.isInteger(data.seq) || data.seq < 1) return { error: 'ack without a valid seq' };
+    if (data.error !== undefined && typeof data.error !== 'string') return { error: 'ack with a non-string error' };
+    return { message: { type: 'ack', seq: data.seq, ...(data.error !== undefined && { error: data.error }) } };
+}
+
+const PARSERS = { hello: parseHello, status: parseStatus, ack: parseAck };
+
+/**
+ * Validates a raw message from a bridge. Returns `{ message }` with only the
+ * known fields, or `{ error }` describing what is wrong with it.
+ */
+export function parseBridgeMessage(raw) {
+    let data;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return { error: 'not JSON' };
+    }
+    if (!isObject(data)) return { error: 'not a JSON object' };
+    // Own keys only: a type such as "constructor" must not find Object's.
+    const parse = typeof data.type === 'string' && Object.hasOwn(PARSERS, data.type) ? PARSERS[data.type] : null;
+    if (!parse) return { error: `unknown message type ${JSON.stringify(data.type)}` };
+    return parse(data);
+}
@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseBridgeMessage } from './cncProtocol.js';
+
+test('parses a known message type', () => {
+    assert.deepEqual(parseBridgeMessage('{"type":"ack","seq":3}'), { message: { type: 'ack', seq: 3 } });
+});
+
+test('rejects an unknown message type', () => {
+    assert.deepEqual(parseBridgeMessage('{"type":"reboot"}'), { error: 'unknown message type "reboot"' });
+});
+
+test('rejects a message type that names an Object prototype key', () => {
+    for (const type of ['constructor', 'toString', 'hasOwnProperty', '__proto__']) {
+        assert.deepEqual(parseBridgeMessage(JSON.stringify({ type })), { error: `unknown message type ${JSON.stringify(type)}` });
+    }
+});
@@ -0,0 +1,211 @@
+import { randomUUID } from 'crypto';
+
+// Job queues: files to run back to back on one CNC machine (facing, roughing,
+// finishing, drilling). The backend runs a queue so that it keeps going with
+// no browser open: when the bridge reports a queued job done, the next file is
+// loaded and played as if uploaded and started from the card. A file marked
+// for a tool change holds the queue until someone confirms the change.
+//
+// Queues live in memory like the uploaded programs they feed, so a backend
+// restart empties them.
+//
+// Queue: { state, entries, current, startedBy, notice }. `state` is 'idle',
+// 'running' (a queued job is loaded or running) or 'toolChange' (waiting for
+// the tool change before entries[0]). `entries` are the files still to run,
+// { id, name, lineCount, toolChange, prompt }; `current` is the one running,
+// `notice` says why the queue stopped on its own.
+
+const MAX_QUEUED_FILES = 20;
+const MAX_PROMPT_LENGTH = 200;
+
+const describe = ({ lines, ...entry }) => ({ ...entry, lineCount: lines.length });
+
+/**
+ * Runs queued files through deviceControl as the device state reports each
+ * job done. `onQueue(deviceId, queue)` is called whenever a queue changes.
+ */
+export function createCncQueues({ deviceRegistry, deviceStates, deviceControl, onQueue = () => {} }) {
+    // deviceId → { state, entries: [{ id, name, lines, toolChange, prompt }], current, programId, device,
+    // startedBy, notice, starting }. `device` is the one last started, for log and notice messages.
+    const queues = new Map();
+
+    const queueOf = (deviceId) => {
+        if (!queues.has(deviceId)) {
+            queues.set(deviceId, { state: 'idle', entries: [], current: null, programId: null, device: null, startedBy: null, notice: null, starting: false });
+        }
+        return queues.get(deviceId);
+    };
+
+    /** The queue of a device as sent to clients (without the G-code). */
+    const get = (deviceId) => {
+        const { state, entries, current, startedBy, notice } = queueOf(deviceId);
+        return { state, entries: entries.map(describe), current: current && describe(current), startedBy, notice };
+    };
+
+    const publish = (deviceId) => onQueue(deviceId, get(deviceId));
+
+    const halt = (deviceId, notice) => {
+        const queue = queueOf(deviceId);
+        Object.assign(queue, { state: 'idle', current: null, programId: null, notice });
+        if (notice) console.warn(`[BACKEND] ${notice}`);
+        publish(deviceId);
+    };
+
+    // Loads and plays entries[0] on behalf of `actor`, who is recorded as
+    // startedBy only once it plays; throws what deviceControl throws, leaving
+    // the entry queued and the queue as it was.
+    const runNext = (device, actor) => {
+        const queue = queueOf(device.id);
+        const [entry] = queue.entries;
+        // The status changes caused by loading and playing are not the queue's to act on.
+        queue.starting = true;
+        try {
+            deviceControl.loadCncProgram(device, { name: entry.name, lines: entry.lines }, actor);
+            queue.programId = deviceStates.get(device.id)?.programId ?? null;
+            deviceControl.sendCncCommand(device, 'play', actor);
+        } finally {
+            queue.starting = false;
+        }
+        queue.entries.shift();
+        Object.assign(queue, { state: 'running', current: entry, device, startedBy: actor, notice: null });
+        console.log(`[BACKEND] ${device.name} runs ${entry.name} from its queue (${queue.entries.length} left).`);
+        publish(device.id);
+    };
+
+    const advance = async (deviceId) => {
+        const queue = queueOf(deviceId);
+        const finished = queue.current;
+        const [next] = queue.entries;
+        if (!next) {
+            console.log(`[BACKEND] The queue of ${queue.device.name} is done.`);
+            halt(deviceId, null);
+            return;
+        }
+        if (next.toolChange) {
+            Object.assign(queue, { state: 'toolChange', current: null, programId: null });
+            console.log(`[BACKEND] Waiting for a tool change before ${next.name}${next.prompt ? `: ${next.prompt}` : ''}.`);
+            publish(deviceId);
+            return;
+        }
+        const device = await deviceRegistry.get(deviceId);
+        if (!device) {
+            halt(deviceId, null);
+            return;
+        }
+        try {
+            runNext(device, queue.startedBy ?? device.name);
+        } catch (error) {
+            halt(deviceId, `${device.name} finished ${finished.name} but could not start ${next.name}: ${error.message}`);
+        }
+    };
+
+    // A queued job is done once the machine is Idle with the whole file acknowledged.
+    deviceStates.on('change', ({ deviceId, state, previous }) => {
+        const queue = queues.get(deviceId);
+        if (queue?.state !== 'running' || queue.starting || state.status === undefined) return;
+        if (state.programId !== queue.programId) {
+            halt(deviceId, `Another file was loaded on ${queue.device.name}; its queue is on hold.`);
+            return;
+        }
+        if (state.status === previous.status || state.status === 'Running' || state.status === 'Paused') return;
+        if (state.status === 'Idle' && state.progress >= 100) {
+            advance(deviceId).catch(error => halt(deviceId, `The queue of ${queue.device.name} stopped: ${error.message}`));
+            return;
+        }
+        const ending = state.status === 'Idle' ? 'was stopped' : `ended in ${state.status}`;
+        halt(deviceId, `${queue.current.name} ${ending}; the rest of the queue is on hold.`);
+    });
+
+    const validateChanges = ({ toolChange, prompt }) => {
+        if (toolChange !== undefined && typeof toolChange !== 'boolean') return 'toolChange must be true or false.';
+        if (prompt !== undefined && prompt !== null && typeof prompt !== 'string') return 'The prompt must be a string.';
+        if (typeof prompt === 'string' && prompt.trim().length > MAX_PROMPT_LENGTH) {
+            return `The prompt must be ${MAX_PROMPT_LENGTH} characters or fewer.`;
+        }
+        return null;
+    };
+
+    /**
+     * Appends a parsed program ({ name, lines }, see gcode.js) with optional
+     * { toolChange, prompt }. Returns { entry } or { error }.
+     */
+    const add = (deviceId, { name, lines }, { toolChange = false, prompt = null } = {}) => {
+        const queue = queueOf(deviceId);
+        if (queue.entries.length >= MAX_QUEUED_FILES) {
+            return { error: `The queue is full; it holds up to ${MAX_QUEUED_FILES} files.` };
+        }
+        const invalid = validateChanges({ toolChange, prompt });
+        if (invalid) return { error: invalid };
+        const entry = { id: randomUUID(), name, lines, toolChange, prompt: prompt?.trim() || null };
+        queue.entries.push(entry);
+        publish(deviceId);
+        return { entry: describe(entry) };
+    };
+
+    /** Changes { toolChange?, prompt? } of a queued file. Returns { entry } or { error, notFound? }. */
+    const update = (deviceId, entryId, changes) => {
+        const entry = queueOf(deviceId).entries.find(e => e.id === entryId);
+        if (!entry) return { error: 'This file is not in the queue.', notFound: true };
+        const invalid = validateChanges(changes);
+        if (invalid) return { error: invalid };
+        if (changes.toolChange !== undefined) entry.toolChange = changes.toolChange;
+        if (changes.prompt !== undefined) entry.prompt = changes.prompt?.trim() || null;
+        publish(deviceId);
+        return { entry: describe(entry) };
+    };
+
+    /** Removes a file that has not run yet. Returns false when it is not queued. */
+    const remove = (deviceId, entryId) => {
+        const queue = queueOf(deviceId);
+        const index = queue.entries.findIndex(e => e.id === entryId);
+        if (index === -1) return false;
+        queue.entries.splice(index, 1);
+        // Nothing left to change the tool for.
+        if (queue.state === 'toolChange' && queue.entries.length === 0) queue.state = 'idle';
+        publish(deviceId);
+        return true;
+    };
+
+    /** Reorders the queued files; `ids` lists every one of them once. Returns an error message or null. */
+    const reorder = (deviceId, ids) => {
+        const queue = queueOf(deviceId);
+        const byId = new Map(queue.entries.map(entry => [entry.id, entry]));
+        if (!Array.isArray(ids) || ids.length !== byId.size || new Set(ids).size !== ids.length || !ids.every(id => byId.has(id))) {
+            return 'The order must list every queued file once.';
+        }
+        queue.entries = ids.map(id => byId.get(id));
+        publish(deviceId);
+        return null;
+    };
+
+    /**
+     * Runs the next file: starts an idle queue, or goes on after a tool
+     * change. Throws user-facing Errors.
+     */
+    const start = (device, actor) => {
+        const queue = queueOf(device.id);
+        if (queue.state === 'running') {
+            throw new Error(`The queue of ${device.name} is already running.`);
+        }
+        if (queue.entries.length === 0) {
+            throw new Error(`The queue of ${device.name} is empty.`);
+        }
+        runNext(device, actor);
+    };
+
+    /** Stops advancing after the current job, which keeps running. */
+    const hold = (device, actor) => {
+        const queue = queueOf(device.id);
+        if (queue.state === 'idle') return;
+        console.log(`[BACKEND] ${actor} holds the queue of ${device.name}.`);
+        halt(device.id, null);
+    };
+
+    /** Queues of every device that has one, as sent to clients. */
+    const snapshot = () => Object.fromEntries([...queues.keys()].map(deviceId => [deviceId, get(deviceId)]));
+
+    /** Drops the queue of a removed device. */
+    const forget = (deviceId) => queues.delete(deviceId);
+
+    return { get, add, update, remove, reorder, start, hold, snapshot, forget };
+}
@@ -0,0 +1,127 @@
+// Five-field cron expressions ("minute hour day-of-month month day-of-week"),
+// evaluated in the backend's local time zone. Supports `*`, lists, ranges,
+// steps, month and weekday names (`0 8 * * mon-fri`) and the @hourly, @daily,
+// @weekly, @monthly and @yearly shorthands. As in classic cron, when both
+// day fields are restricted a day matches if either of them does.
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: MONTH_NAMES, offset: 1 },
+    // 7 is accepted as Sunday, like most crons.
+    { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, offset: 0 },
+];
+
+const SHORTHANDS = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+    '@yearly': '0 0 1 1 *',
+};
+
+// Give up looking for the next run after this long (covers Feb 29 schedules).
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(text, field) {
+    const index = field.names?.indexOf(text.toLowerCase()) ?? -1;
+    if (index !== -1) return index + field.offset;
+    if (!/^\d+$/.test(text)) throw new Error(`"${text}" is not a valid ${field.name}.`);
+    const value = Number(text);
+    if (value < field.min || value > field.max) {
+        throw new Error(`${field.name} must be between ${field.min} and ${field.max}, not ${value}.`);
+    }
+    return value;
+}
+
+function parseField(text, field) {
+    const values = new Set();
+    for (const part of text.split(',')) {
+        const [range, stepText, extra] = part.split('/');
+        if (extra !== undefined || !range) throw new Error(`"${part}" is not a valid ${field.name}.`);
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) throw new Error(`"${stepText}" is not a valid step.`);
+
+        let start;
+        let end;
+        if (range === '*') {
+            [start, end] = [field.min, field.max];
+        } else if (range.includes('-')) {
+            const [from, to] = range.split('-');
+            [start, end] = [parseValue(from, field), parseValue(to, field)];
+            if (start > end) throw new Error(`Range "${range}" runs backwards.`);
+        } else {
+            start = parseValue(range, field);
+            // "5/15" means every 15 starting at 5.
+            end = stepText === undefined ? start : field.max;
+        }
+        for (let value = start; value <= end; value += step) values.add(value);
+    }
+    return values;
+}
+
+/**
+ * Parses a cron expression. Returns `{ matches(date), next(after) }`, where
+ * next() is the first matching minute after `after` (or null if there is none
+ * within five years). Throws an Error with a user-facing message when the
+ * expression is invalid.
+ */
+export function parseCron(expression) {
+    const text = String(expression ?? '').trim();
+    const parts = (SHORTHANDS[text.toLowerCase()] ?? text).split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+        throw new Error(`Cron expressions need ${FIELDS.length} fields (minute hour day month weekday), got "${text}".`);
+    }
+
+    let minutes, hours, days, months, weekdays;
+    try {
+        [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i]));
+    } catch (error) {
+        throw new Error(`Invalid cron expression "${text}": ${error.message}`);
+    }
+    if (weekdays.delete(7)) weekdays.add(0);
+
+    const daysRestricted = !parts[2].startsWith('*');
+    const weekdaysRestricted = !parts[4].startsWith('*');
+    const dayMatches = (date) => {
+        const byDay = days.has(date.getDate());
+        const byWeekday = weekdays.has(date.getDay());
+        if (daysRestricted && weekdaysRestricted) return byDay || byWeekday;
+        return byDay && byWeekday;
+    };
+
+    const matches = (date) => minutes.has(date.getMinutes())
+        && hours.has(date.getHours())
+        && months.has(date.getMonth() + 1)
+        && dayMatches(date);
+
+    const next = (after = new Date()) => {
+        const date = new Date(after);
+        date.setSeconds(0, 0);
+        date.setMinutes(date.getMinutes() + 1);
+        const limit = date.getTime() + SEARCH_LIMIT_MS;
+        // Skips whole months, days and hours that cannot match instead of testing every minute.
+        while (date.getTime() < limit) {
+            if (!months.has(date.getMonth() + 1)) {
+                date.setMonth(date.getMonth() + 1, 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!dayMatches(date)) {
+                date.setDate(date.getDate() + 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!hours.has(date.getHours())) {
+                date.setHours(date.getHours() + 1, 0, 0, 0);
+            } else if (!minutes.has(date.getMinutes())) {
+                date.setMinutes(date.getMinutes() + 1, 0, 0);
+            } else {
+                return date;
+            }
+        }
+        return null;
+    };
+
+    return { matches, next };
+}
@@ -0,0 +1,284 @@
+import { readRelayPower, setRelayPower } from './drivers/relay.js';
+import { lightStateFrom, readLightStatus, sendLightState } from './drivers/light.js';
+import { FAULT_STATUSES } from './cncProtocol.js';
+
+// Every command the backend sends to a device goes through here, whether it
+// comes from an HTTP route, an automation rule or a schedule, so the outcome
+// is always logged and recorded in the live device state. Calls throw Errors
+// with user-facing messages.
+
+const isColorChannel = (value) => Number.isInteger(value) && value >= 0 && value <= 255;
+
+/** Returns an error message for an invalid { power?, color? } light command, or null. */
+export function validateLightState(state) {
+    if (state.power !== undefined && state.power !== 'on' && state.power !== 'off') {
+        return 'Invalid power state';
+    }
+    if (state.color !== undefined && !['r', 'g', 'b'].every(c => isColorChannel(state.color?.[c]))) {
+        return 'Invalid color value';
+    }
+    if (state.power === undefined && state.color === undefined) {
+        return 'Nothing to change';
+    }
+    return null;
+}
+
+export const CNC_AXES = ['x', 'y', 'z'];
+const MAX_JOG_DISTANCE = 1000;
+
+/** Returns an error message for an invalid { axis, distance } jog, or null. */
+export function validateJog({ axis, distance }) {
+    if (!CNC_AXES.includes(axis)) {
+        return `Invalid axis. Expected one of: ${CNC_AXES.join(', ')}.`;
+    }
+    if (typeof distance !== 'number' || !Number.isFinite(distance) || distance === 0 || Math.abs(distance) > MAX_JOG_DISTANCE) {
+        return `The jog distance must be a non-zero number of millimetres, at most ${MAX_JOG_DISTANCE} either way.`;
+    }
+    return null;
+}
+
+/** Returns an error message for an invalid list of axes to home or zero, or null. */
+export function validateAxes(axes) {
+    if (!Array.isArray(axes) || axes.length === 0 || !axes.every(axis => CNC_AXES.includes(axis))) {
+        return `Axes must be a non-empty list of: ${CNC_AXES.join(', ')}.`;
+    }
+    return null;
+}
+
+// Feed and spindle overrides, in percent of the programmed values.
+export const OVERRIDE_MIN = 10;
+export const OVERRIDE_MAX = 200;
+
+/** Returns an error message for an invalid { feed?, spindle? } override, or null. */
+export function validateOverride({ feed, spindle }) {
+    if (feed === undefined && spindle === undefined) {
+        return 'Nothing to change. Give a feed and/or spindle override.';
+    }
+    for (const [name, value] of [['feed', feed], ['spindle', spindle]]) {
+        if (value === undefined) continue;
+        if (typeof value !== 'number' || !(value >= OVERRIDE_MIN && value <= OVERRIDE_MAX)) {
+            return `The ${name} override must be a percentage from ${OVERRIDE_MIN} to ${OVERRIDE_MAX}.`;
+        }
+    }
+    return null;
+}
+
+// "CNC Router is in alarm (Limit switch X+). Reset it first."
+const describeFault = (device, { status, alarm }) =>
+    `${device.name} is in ${status === 'EStop' ? 'emergency stop' : status.toLowerCase()}${alarm ? ` (${alarm})` : ''}. Reset it first.`;
+
+// Setup commands are also bridge capabilities (see cncProtocol.js).
+const SETUP_VERBS = { jog: 'jog', home: 'home the machine', zero: 'set a work zero' };
+
+export function createDeviceControl({ deviceRegistry, deviceStates, cncBridges, cncJobs }) {
+    // Runs a driver call and marks the device Connected or Error accordingly.
+    const track = async (device, actor, failureVerb, call) => {
+        try {
+            return await call();
+        } catch (error) {
+            console.error(`[BACKEND] Could not ${failureVerb} ${device.name}:`, error.message);
+            deviceStates.update(device.id, { connection: 'Error' }, actor);
+            throw error;
+        }
+    };
+
+    /** Reads a light's status, doubling as a connectivity check. Resolves to { response, light }. */
+    const readLight = (device, actor) => track(device, actor, 'reach', async () => {
+        const response = await readLightStatus(device, { actor });
+        const light = deviceStates.update(device.id, { connection: 'Connected', ...lightStateFrom(response) }, actor);
+        return { response, light };
+    });
+
+    /**
+     * Sends { power?, color? } to a light. Resolves to the light's own response
+     * and `light`, the resulting { connection, power, r, g, b } state.
+     */
+    const commandLight = (device, state, actor) => track(device, actor, 'control', async () => {
+        console.log(`[BACKEND] ${actor} sends ${JSON.stringify(state)} to ${device.name} (${device.address}).`);
+        const response = await sendLightState(device, state, { actor });
+        // Lights that answer with their new state win over what was asked for.
+        const light = deviceStates.update(device.id, { connection: 'Connected', ...lightStateFrom(state), ...lightStateFrom(response) }, actor);
+        return { response, light };
+    });
+
+    /** Reads the actual relay state from a dust collector. */
+    const readDustCollector = (device, actor) => track(device, actor, 'read', async () => {
+        const power = await readRelayPower(device, { actor });
+        deviceStates.update(device.id, { connection: 'Connected', power }, actor);
+        return power;
+    });
+
+    /** Switches a dust collector and resolves to the state read back from the relay. */
+    const switchDustCollector = (device, power, actor) => track(device, actor, 'switch', async () => {
+        console.log(`[BACKEND] ${actor} turns ${device.name} ${power}.`);
+        const actual = await setRelayPower(device, power, { actor });
+        if (actual !== power) {
+            console.warn(`[BACKEND] ${device.name} reports ${actual} after being switched ${power}.`);
+        }
+        deviceStates.update(device.id, { connection: 'Connected', power: actual }, actor);
+        return actual;
+    });
+
+    const sendCncCommand = (device, command, actor) => {
+        const state = deviceStates.get(device.id) ?? {};
+        if (command === 'play' && FAULT_STATUSES.includes(state.status)) {
+            throw new Error(describeFault(device, state));
+        }
+        // Noted first: the bridge's state changes as soon as the command is sent.
+        cncJobs.noteCommand(device.id, command, actor);
+        if (!cncBridges.send(device.id, command, actor)) {
+            throw new Error(`${device.name} is not connected.`);
+        }
+        console.log(`[BACKEND] ${actor} sends "${command}" to ${device.name}.`);
+    };
+
+    /** Loads an uploaded program ({ name, lines }) for the next 'play' to stream. */
+    const loadCncProgram = (device, program, actor) => {
+        if (!cncBridges.isConnected(device.id)) {
+            throw new Error(`${device.name} is not connected.`);
+        }
+        if (!cncBridges.hasCapability(device.id, 'stream')) {
+            throw new Error(`The bridge of ${device.name} cannot stream uploaded files.`);
+        }
+        if (!cncBridges.loadProgram(device, program, actor)) {
+            throw new Error(`Stop the job running on ${device.name} before loading another file.`);
+        }
+        console.log(`[BACKEND] ${actor} loaded ${program.name} (${program.lines.length} lines) for ${device.name}.`);
+    };
+
+    // Jogging, homing and zeroing would fight a running job for the machine.
+    const sendCncSetup = (device, message, actor) => {
+        const state = deviceStates.get(device.id) ?? {};
+        if (state.status === 'Running' || state.status === 'Paused') {
+            throw new Error(`Stop the job running on ${device.name} first.`);
+        }
+        if (FAULT_STATUSES.includes(state.status)) {
+            throw new Error(describeFault(device, state));
+        }
+        if (!cncBridges.isConnected(device.id)) {
+            throw new Error(`${device.name} is not connected.`);
+        }
+        if (!cncBridges.hasCapability(device.id, message.command)) {
+            throw new Error(`The bridge of ${device.name} cannot ${SETUP_VERBS[message.command]}.`);
+        }
+        cncBridges.sendMessage(device.id, message, actor);
+        console.log(`[BACKEND] ${actor} sends ${JSON.stringify(message)} to ${device.name}.`);
+    };
+
+    /**
+     * Moves one axis by `distance` mm. Refused when the machine limits (in
+     * work coordinates) are known and the move would end outside them.
+     */
+    const jogCnc = (device, { axis, distance }, actor) => {
+        const from = deviceStates.get(device.id)?.workPosition?.[axis];
+        const min = device.limits?.[`${axis}Min`];
+        const max = device.limits?.[`${axis}Max`];
+        if (typeof from === 'number') {
+            const to = Math.round((from + distance) * 1000) / 1000;
+            const label = axis.toUpperCase();
+            if (min !== undefined && to < min) {
+                throw new Error(`Jogging ${label} by ${distance} mm would take it to ${to} mm, below the ${min} mm limit of ${device.name}.`);
+            }
+            if (max !== undefined && to > max) {
+                throw new Error(`Jogging ${label} by ${distance} mm would take it to ${to} mm, beyond the ${max} mm limit of ${device.name}.`);
+            }
+        }
+        sendCncSetup(device, { command: 'jog', axis, distance }, actor);
+    };
+
+    /** Runs the homing cycle on the given axes. */
+    const homeCnc = (device, axes, actor) => sendCncSetup(device, { command: 'home', axes }, actor);
+
+    /** Makes the current position the work zero of the given axes. */
+    const zeroCnc = (device, axes, actor) => sendCncSetup(device, { command: 'zero', axes }, actor);
+
+    /**
+     * Sets the feed and/or spindle override (whole percent). Unlike setup
+     * commands these are meant for a running job; the device state follows
+     * once the bridge reports the new values.
+     */
+    const overrideCnc = (device, { feed, spindle }, actor) => {
+        if (!cncBridges.isConnected(device.id)) {
+            throw new Error(`${device.name} is not connected.`);
+        }
+        if (!cncBridges.hasCapability(device.id, 'override')) {
+            throw new Error(`The bridge of ${device.name} cannot override the feed or spindle speed.`);
+        }
+        const message = {
+            command: 'override',
+            ...(feed !== undefined && { feed: Math.round(feed) }),
+            ...(spindle !== undefined && { spindle: Math.round(spindle) }),
+        };
+        cncBridges.sendMessage(device.id, message, actor);
+        console.log(`[BACKEND] ${actor} sends ${JSON.stringify(message)} to ${device.name}.`);
+    };
+
+    /**
+     * Emergency stop of one machine. Never refused while connected; resolves
+     * to the command the bridge got, 'estop' or 'stop' for bridges without it.
+     */
+    const emergencyStopCnc = (device, actor) => {
+        cncJobs.noteCommand(device.id, 'stop', actor);
+        const sent = cncBridges.emergencyStop(device.id, actor);
+        if (!sent) {
+            throw new Error(`${device.name} is not connected. Use the emergency stop on the machine.`);
+        }
+        if (sent === 'estop') console.warn(`[BACKEND] EMERGENCY STOP of ${device.name} by ${actor}.`);
+        else console.warn(`[BACKEND] EMERGENCY STOP of ${device.name} by ${actor}; its bridge has no E-stop, so it was sent "stop".`);
+        return sent;
+    };
+
+    /**
+     * Emergency stop of every CNC machine at once. Resolves to one result per
+     * machine: { deviceId, name, status: 'SUCCESS' | 'ERROR', command?, message? }.
+     */
+    const emergencyStopAll = async (actor) => {
+        const machines = (await deviceRegistry.list()).filter(device => device.kind === 'cnc');
+        return machines.map(device => {
+            try {
+                return { deviceId: device.id, name: device.name, status: 'SUCCESS', command: emergencyStopCnc(device, actor) };
+            } catch (error) {
+                return { deviceId: device.id, name: device.name, status: 'ERROR', message: error.message };
+            }
+        });
+    };
+
+    /** Clears an Alarm, EStop or Error so the machine can run again. */
+    const resetCnc = (device, actor) => {
+        const state = deviceStates.get(device.id) ?? {};
+        if (!FAULT_STATUSES.includes(state.status)) {
+            throw new Error(`${device.name} is not in alarm.`);
+        }
+        if (!cncBridges.isConnected(device.id)) {
+            throw new Error(`${device.name} is not connected.`);
+        }
+        if (state.status !== 'Error' && !cncBridges.hasCapability(device.id, 'reset')) {
+            throw new Error(`The bridge of ${device.name} cannot reset it; reset it on the UCCNC screen.`);
+        }
+        cncBridges.resetFault(device.id, actor);
+        console.log(`[BACKEND] ${actor} resets ${device.name} from ${state.status}.`);
+    };
+
+    /**
+     * Recalls a scene on all of its lights at once. Resolves to one result per
+     * light: { deviceId, name, status: 'SUCCESS' | 'ERROR', message? }.
+     */
+    const applyScene = async (scene, actor) => {
+        console.log(`[BACKEND] ${actor} recalls scene "${scene.name}".`);
+        const devices = await deviceRegistry.list();
+        return Promise.all(scene.lights.map(async ({ deviceId, ...state }) => {
+            const device = devices.find(d => d.id === deviceId && d.kind === 'light');
+            if (!device) {
+                return { deviceId, name: deviceId, status: 'ERROR', message: 'This light is no longer registered.' };
+            }
+            try {
+                await commandLight(device, state, actor);
+                return { deviceId, name: device.name, status: 'SUCCESS' };
+            } catch (error) {
+                return { deviceId, name: device.name, status: 'ERROR', message: error.message };
+            }
+        }));
+    };
+
+    return { readLight, commandLight, readDustCollector, switchDustCollector, sendCncCommand, loadCncProgram, jogCnc, homeCnc, zeroCnc, overrideCnc, emergencyStopCnc, emergencyStopAll, resetCnc, applyScene };
+}
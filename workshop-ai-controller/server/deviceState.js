@@ -0,0 +1,49 @@
+import { EventEmitter } from 'events';
+
+// The backend's view of every device's current state, keyed by device id.
+// Drivers report what a device answered; this store merges it and emits a
+// 'change' event ({ deviceId, state, previous, actor }) whenever something
+// actually changed. State is not persisted: after a restart devices are
+// unknown until a client connects to them again.
+//
+// Shapes by kind:
+// - light:         { connection, power, r, g, b }
+// - dustCollector: { connection, power }
+// - cnc:           { status, alarm, gcodeFile, programId, progress, linesDone,
+//                  linesTotal, machinePosition, workPosition, feedOverride,
+//                  spindleOverride, feedRate, spindleSpeed, bridge,
+//                  lastError, reconnectAt }, with programId and the line
+//                  counts null unless the backend streams the file, positions
+//                  ({ x, y, z } in mm), overrides (%) and actual speeds
+//                  (mm/min, RPM) null until the bridge reports them,
+//                  alarm the controller's text for an Alarm, EStop or Error,
+//                  bridge ({ name, protocol, capabilities }) null until its
+//                  hello, and reconnectAt set while waiting to reconnect
+// plus `updatedAt` and `updatedBy` (the actor behind the last change).
+
+export function createDeviceStateStore() {
+    const states = new Map();
+    const events = new EventEmitter();
+
+    return {
+        on: (event, listener) => events.on(event, listener),
+
+        get: (id) => states.get(id) ?? null,
+
+        snapshot: () => Object.fromEntries(states),
+
+        /** Merges `changes` into the device's state; returns the resulting state. */
+        update(id, changes, actor = 'system') {
+            const previous = states.get(id) ?? {};
+            const changed = Object.entries(changes).some(([key, value]) => previous[key] !== value);
+            if (!changed) return previous;
+
+            const state = { ...previous, ...changes, updatedAt: Date.now(), updatedBy: actor };
+            states.set(id, state);
+            events.emit('change', { deviceId: id, state, previous, actor });
+            return state;
+        },
+
+        remove: (id) => states.delete(id),
+    };
+}
@@ -0,0 +1,159 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from './jsonStore.js';
+import { RELAY_PROTOCOLS } from './drivers/relay.js';
+
+// Every device kind the Control Panel knows how to render, with the protocols
+// the backend accepts for it and the URL schemes a valid address may use.
+export const DEVICE_KINDS = {
+    light: { protocols: ['http'], schemes: ['http:', 'https:'] },
+    dustCollector: { protocols: RELAY_PROTOCOLS, schemes: ['http:', 'https:'] },
+    camera: { protocols: ['browser'], schemes: null }, // address is an optional media deviceId
+    cnc: { protocols: ['uccnc-ws'], schemes: ['ws:', 'wss:'] },
+};
+
+// Optional machine limits of a CNC (see CncLimits in types.ts); travel ranges come in min/max pairs.
+const LIMIT_RANGES = [['xMin', 'xMax'], ['yMin', 'yMax'], ['zMin', 'zMax'], ['minSpindle', 'maxSpindle']];
+const POSITIVE_LIMITS = ['maxFeed', 'rapidRate', 'minSpindle', 'maxSpindle'];
+const LIMIT_KEYS = [...LIMIT_RANGES.flat(), 'maxFeed', 'rapidRate'];
+
+function validateLimits(limits) {
+    if (typeof limits !== 'object' || Array.isArray(limits)) {
+        return 'Machine limits must be an object.';
+    }
+    for (const [key, value] of Object.entries(limits)) {
+        if (!LIMIT_KEYS.includes(key)) return `Unknown machine limit "${key}". Expected: ${LIMIT_KEYS.join(', ')}.`;
+        if (typeof value !== 'number' || !Number.isFinite(value)) return `Machine limit "${key}" must be a number.`;
+        if (POSITIVE_LIMITS.includes(key) && value <= 0) return `Machine limit "${key}" must be greater than zero.`;
+    }
+    for (const [low, high] of LIMIT_RANGES) {
+        if (limits[low] !== undefined && limits[high] !== undefined && limits[low] >= limits[high]) {
+            return `Machine limit "${low}" must be below "${high}".`;
+        }
+    }
+    return null;
+}
+
+// Seeded on first run so a fresh install looks like the original single-device panel.
+const DEFAULT_DEVICES = [
+    { id: 'cnc-1', kind: 'cnc', name: 'CNC Router', address: 'ws://192.168.1.123:8765', protocol: 'uccnc-ws' },
+    { id: 'camera-1', kind: 'camera', name: 'Overhead Camera', address: '', protocol: 'browser' },
+    { id: 'dust-collector-1', kind: 'dustCollector', name: 'Dust Collector', address: 'http://192.168.1.60', protocol: 'http' },
+    { id: 'light-1', kind: 'light', name: 'Workshop Lights', address: 'http://192.168.1.50', protocol: 'http' },
+];
+
+/**
+ * Returns an error message describing why `device` is not a valid registry
+ * entry, or null when it is fine. `others` is used to keep names unique, since
+ * the voice assistant addresses devices by name.
+ */
+// Own kinds only, so "constructor" and the like are unknown kinds.
+const kindOf = (name) => (Object.hasOwn(DEVICE_KINDS, name) ? DEVICE_KINDS[name] : null);
+
+function validateDevice(device, others) {
+    const kind = kindOf(device.kind);
+    if (!kind) {
+        return `Unknown device kind "${device.kind}". Expected one of: ${Object.keys(DEVICE_KINDS).join(', ')}.`;
+    }
+    if (typeof device.name !== 'string' || !device.name.trim()) {
+        return 'Device name is required.';
+    }
+    if (device.name.length > 64) {
+        return 'Device name must be 64 characters or fewer.';
+    }
+    const lowerName = device.name.trim().toLowerCase();
+    if (others.some(other => other.name.toLowerCase() === lowerName)) {
+        return `A device named "${device.name.trim()}" already exists.`;
+    }
+    if (!kind.protocols.includes(device.protocol)) {
+        return `Protocol "${device.protocol}" is not supported for ${device.kind}. Expected one of: ${kind.protocols.join(', ')}.`;
+    }
+    if (typeof device.address !== 'string') {
+        return 'Device address must be a string.';
+    }
+    if (kind.schemes) {
+        let url;
+        try {
+            url = new URL(device.address.trim());
+        } catch {
+            return `"${device.address}" is not a valid address.`;
+        }
+        if (!kind.schemes.includes(url.protocol)) {
+            return `Address for ${device.kind} must start with ${kind.schemes.map(s => `${s}//`).join(' or ')}.`;
+        }
+    }
+    if (device.limits) {
+        if (device.kind !== 'cnc') return 'Only CNC machines have machine limits.';
+        return validateLimits(device.limits);
+    }
+    return null;
+}
+
+const normalize = ({ id, kind, name, address, protocol, limits }) => ({
+    id,
+    kind,
+    name: name.trim(),
+    address: address.trim().replace(/\/+$/, ''),
+    protocol,
+    ...(limits && Object.keys(limits).length > 0 && { limits }),
+});
+
+/**
+ * Persisted registry of workshop devices. Mutating calls resolve to
+ * `{ device }` on success or `{ error }` with a user-facing message.
+ */
+export function createDeviceRegistry(fileName = 'devices.json') {
+    const store = createJsonStore(fileName, { devices: DEFAULT_DEVICES });
+
+    const list = async () => (await store.read()).devices;
+
+    const get = async (id) => (await list()).find(device => device.id === id) || null;
+
+    const create = async (input) => {
+        const devices = await list();
+        const candidate = {
+            id: randomUUID(),
+            kind: input.kind,
+            name: input.name,
+            address: input.address ?? '',
+            protocol: input.protocol ?? kindOf(input.kind)?.protocols[0],
+            limits: input.limits ?? undefined,
+        };
+        const error = validateDevice(candidate, devices);
+        if (error) return { error };
+
+        const device = normalize(candidate);
+        await store.write({ devices: [...devices, device] });
+        return { device };
+    };
+
+    const update = async (id, changes) => {
+        const devices = await list();
+        const existing = devices.find(device => device.id === id);
+        if (!existing) return { error: 'Device not found.', notFound: true };
+
+        // The kind decides which card and driver handle a device, so it is fixed at creation.
+        const candidate = {
+            ...existing,
+            ...(changes.name !== undefined && { name: changes.name }),
+            ...(changes.address !== undefined && { address: changes.address }),
+            ...(changes.protocol !== undefined && { protocol: changes.protocol }),
+            // null or {} clears the limits.
+            ...(changes.limits !== undefined && { limits: changes.limits ?? undefined }),
+        };
+        const error = validateDevice(candidate, devices.filter(device => device.id !== id));
+        if (error) return { error };
+
+        const device = normalize(candidate);
+        await store.write({ devices: devices.map(d => (d.id === id ? device : d)) });
+        return { device };
+    };
+
+    const remove = async (id) => {
+        const devices = await list();
+        if (!devices.some(device => device.id === id)) return false;
+        await store.write({ devices: devices.filter(device => device.id !== id) });
+        return true;
+    };
+
+    return { list, get, create, update, remove };
+}
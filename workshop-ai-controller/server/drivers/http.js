@@ -0,0 +1,37 @@
+// Shared plumbing for drivers that talk to devices over plain HTTP on the LAN.
+
+const DEVICE_TIMEOUT_MS = 3000;
+
+/**
+ * Sends a request to a device and returns its parsed JSON body (or raw text
+ * when the device does not answer with JSON). Throws an Error with a
+ * user-facing message on timeouts, network failures and non-2xx responses.
+ * `actor` is the user behind the command; devices that keep a log can read it
+ * from the X-Workshop-User header.
+ */
+export async function requestDevice(url, { method = 'GET', body, timeoutMs = DEVICE_TIMEOUT_MS, actor } = {}) {
+    let response;
+    try {
+        response = await fetch(url, {
+            method,
+            headers: {
+                ...(body !== undefined && { 'Content-Type': 'application/json' }),
+                ...(actor && { 'X-Workshop-User': actor }),
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+    } catch (error) {
+        const reason = error.name === 'TimeoutError' ? `timed out after ${timeoutMs / 1000}s` : error.cause?.code || error.message;
+        throw new Error(`Device at ${new URL(url).host} is unreachable (${reason}).`);
+    }
+    const text = await response.text();
+    if (!response.ok) {
+        throw new Error(`Device at ${new URL(url).host} answered with HTTP ${response.status}.`);
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
@@ -0,0 +1,56 @@
+import { requestDevice } from './http.js';
+
+// Smart lights with the local JSON API the Control Panel has always used:
+// GET /status answers with the light's state and POST /state accepts
+// `{ power?: 'on' | 'off', color?: { r, g, b } }`.
+
+/** Reads the light's status document exactly as the device returns it. */
+export async function readLightStatus(device, context = {}) {
+    return requestDevice(`${device.address}/status`, { actor: context.actor });
+}
+
+/** Forwards a state change to the light and resolves to the device's response. */
+export async function sendLightState(device, state, context = {}) {
+    return requestDevice(`${device.address}/state`, { method: 'POST', body: state, actor: context.actor });
+}
+
+/**
+ * Picks `{ power?, r?, g?, b? }` out of a light's status document or command.
+ * Lights report either flat `r/g/b` fields or a nested `color` object.
+ */
+export function lightStateFrom(document) {
+    if (!document || typeof document !== 'object') return {};
+    const color = document.color && typeof document.color === 'object' ? document.color : document;
+    const state = {};
+    if (document.power === 'on' || document.power === 'off') state.power = document.power;
+    ['r', 'g', 'b'].forEach(channel => {
+        if (typeof color[channel] === 'number') state[channel] = color[channel];
+    });
+    return state;
+}
+
+const SCAN_CONCURRENCY = 32;
+const SCAN_TIMEOUT_MS = 1500;
+
+/**
+ * Probes `${subnet}.1` to `${subnet}.254` for a `/status` endpoint. Calls
+ * `onFound(ip)` for every responding host and `onProgress(scanned)` after each
+ * probe. Stops early once `isCancelled()` returns true.
+ */
+export async function scanForLights(subnet, { onFound, onProgress, isCancelled }) {
+    let next = 1;
+    let scanned = 0;
+    const worker = async () => {
+        while (next <= 254 && !isCancelled()) {
+            const ip = `${subnet}.${next++}`;
+            try {
+                await requestDevice(`http://${ip}/status`, { timeoutMs: SCAN_TIMEOUT_MS });
+                onFound(ip);
+            } catch {
+                // Ignore errors (timeouts, network errors, etc.)
+            }
+            onProgress(++scanned);
+        }
+    };
+    await Promise.all(Array.from({ length: SCAN_CONCURRENCY }, worker));
+}
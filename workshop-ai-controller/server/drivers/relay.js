@@ -0,0 +1,57 @@
+import { requestDevice } from './http.js';
+
+// Networked relays and smart plugs that switch mains-powered tools such as the
+// dust collector. Each protocol maps "read power" and "set power" onto the
+// device's own local API and reports the state the device itself returns.
+const PROTOCOLS = {
+    // Generic JSON API, same shape as the smart lights: GET /status, POST /state.
+    http: {
+        read: async (address, options) => (await requestDevice(`${address}/status`, options)).power,
+        write: async (address, power, options) => {
+            await requestDevice(`${address}/state`, { ...options, method: 'POST', body: { power } });
+        },
+    },
+    // Shelly Gen1 relay API (Shelly 1, Plug S, ...).
+    shelly: {
+        read: async (address, options) => ((await requestDevice(`${address}/relay/0`, options)).ison ? 'on' : 'off'),
+        write: async (address, power, options) => {
+            await requestDevice(`${address}/relay/0?turn=${power}`, options);
+        },
+    },
+    // Tasmota firmware HTTP command API.
+    tasmota: {
+        read: async (address, options) => String((await requestDevice(`${address}/cm?cmnd=Power`, options)).POWER).toLowerCase(),
+        write: async (address, power, options) => {
+            await requestDevice(`${address}/cm?cmnd=${encodeURIComponent(`Power ${power === 'on' ? 'On' : 'Off'}`)}`, options);
+        },
+    },
+};
+
+export const RELAY_PROTOCOLS = Object.keys(PROTOCOLS);
+
+const protocolFor = (device) => {
+    const protocol = PROTOCOLS[device.protocol];
+    if (!protocol) throw new Error(`Unsupported relay protocol "${device.protocol}".`);
+    return protocol;
+};
+
+const normalizePower = (device, value) => {
+    if (value !== 'on' && value !== 'off') {
+        throw new Error(`${device.name} reported an unexpected power state: ${JSON.stringify(value)}.`);
+    }
+    return value;
+};
+
+// `context.actor` (the user behind the command) is passed through to the device request.
+
+/** Reads the relay's actual power state, `'on'` or `'off'`. */
+export async function readRelayPower(device, context = {}) {
+    return normalizePower(device, await protocolFor(device).read(device.address, { actor: context.actor }));
+}
+
+/** Switches the relay and resolves to the power state read back from the device. */
+export async function setRelayPower(device, power, context = {}) {
+    const protocol = protocolFor(device);
+    await protocol.write(device.address, power, { actor: context.actor });
+    return normalizePower(device, await protocol.read(device.address, { actor: context.actor }));
+}
@@ -0,0 +1,46 @@
+// Server-Sent Events hub. Every open Control Panel keeps one GET /api/events
+// stream and receives the same broadcasts, so a change made on one tablet (or
+// by the voice assistant on another) shows up everywhere.
+//
+// Events are sent as `event: <type>` with a JSON `data:` line. Browsers
+// reconnect on their own after `retry` ms; every (re)connect starts with the
+// events passed to subscribe(), typically a full snapshot.
+
+const HEARTBEAT_MS = 25 * 1000; // keeps proxies from closing idle streams
+const RETRY_MS = 3000;
+
+const formatEvent = (type, data) => `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+export function createEventHub() {
+    const clients = new Set();
+
+    return {
+        /** Turns `res` into an event stream; `initialEvents` is a list of [type, data] pairs. */
+        subscribe(req, res, initialEvents = []) {
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache, no-transform',
+                Connection: 'keep-alive',
+                'X-Accel-Buffering': 'no',
+            });
+            res.write(`retry: ${RETRY_MS}\n\n`);
+            initialEvents.forEach(([type, data]) => res.write(formatEvent(type, data)));
+            clients.add(res);
+
+            const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+            res.on('close', () => {
+                clearInterval(heartbeat);
+                clients.delete(res);
+            });
+        },
+
+        broadcast(type, data) {
+            const message = formatEvent(type, data);
+            clients.forEach(res => res.write(message));
+        },
+
+        get clientCount() {
+            return clients.size;
+        },
+    };
+}
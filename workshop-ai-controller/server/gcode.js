@@ -0,0 +1,31 @@
+// G-code programs uploaded from the Control Panel and streamed to a CNC
+// bridge line by line (see cncBridges.js).
+
+export const MAX_PROGRAM_BYTES = 20 * 1024 * 1024;
+const MAX_LINE_LENGTH = 256;
+
+/**
+ * Turns the text of a .nc/.gcode file into the lines worth sending: comments
+ * (`; ...` and `( ... )`), `%` tape markers and blank lines are dropped.
+ * Returns `{ name, lines }` or `{ error }`.
+ */
+export function parseProgram(name, text) {
+    const lines = [];
+    const rows = String(text ?? '').split(/\r?\n/);
+    for (let i = 0; i < rows.length; i++) {
+        const line = rows[i]
+            .replace(/\([^)]*\)/g, '')
+            .replace(/;.*$/, '')
+            .trim();
+        if (!line || line === '%') continue;
+        if (line.length > MAX_LINE_LENGTH) {
+            return { error: `Line ${i + 1} is longer than ${MAX_LINE_LENGTH} characters; is this really a G-code file?` };
+        }
+        lines.push(line);
+    }
+    if (lines.length === 0) {
+        return { error: 'The file contains no G-code.' };
+    }
+    const fileName = String(name ?? '').trim().slice(0, 128) || 'program.nc';
+    return { name: fileName, lines };
+}
@@ -0,0 +1,48 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// All persisted backend state lives in one directory so it is easy to back up
+// or wipe. Override with DATA_DIR when running the server from somewhere else.
+export const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '..', 'data');
+
+/**
+ * Creates a small JSON-file backed store. The file is read once and cached;
+ * writes are serialized and go through a temp file + rename so a crash never
+ * leaves a half-written file behind.
+ */
+export function createJsonStore(fileName, defaultValue) {
+    const filePath = path.join(DATA_DIR, fileName);
+    let cache = null;
+    let pendingWrite = Promise.resolve();
+
+    const read = async () => {
+        if (cache !== null) return cache;
+        try {
+            cache = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                console.error(`[BACKEND] Could not read ${filePath}, starting from defaults:`, error.message);
+            }
+            cache = structuredClone(defaultValue);
+        }
+        return cache;
+    };
+
+    const write = (data) => {
+        cache = data;
+        pendingWrite = pendingWrite.then(async () => {
+            await fs.mkdir(DATA_DIR, { recursive: true });
+            const tempPath = `${filePath}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+            await fs.rename(tempPath, filePath);
+        }).catch(error => {
+            console.error(`[BACKEND] Failed to persist ${filePath}:`, error.message);
+        });
+        return pendingWrite;
+    };
+
+    return { read, write, filePath };
+}
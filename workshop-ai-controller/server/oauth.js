@@ -0,0 +1,170 @@
+import { createHash, randomBytes } from 'crypto';
+
+// OAuth 2.0 authorization-code flow with PKCE (RFC 7636). Google is the
+// default issuer; every endpoint can be overridden through OAUTH_* variables,
+// or discovered from OAUTH_ISSUER's /.well-known/openid-configuration, so the
+// same code runs against a local mock issuer in development.
+const GOOGLE_ENDPOINTS = {
+    authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+    revocationUrl: 'https://oauth2.googleapis.com/revoke',
+};
+
+const base64Url = (buffer) => buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export function loadOAuthConfig(port, env = process.env) {
+    return {
+        issuer: env.OAUTH_ISSUER || null,
+        clientId: env.OAUTH_CLIENT_ID || '',
+        clientSecret: env.OAUTH_CLIENT_SECRET || '',
+        redirectUri: env.OAUTH_REDIRECT_URI || `http://localhost:${port}/api/auth/callback`,
+        scopes: env.OAUTH_SCOPES || 'openid email profile',
+        // Explicit endpoints win over discovery, which wins over the Google defaults.
+        overrides: {
+            authorizationUrl: env.OAUTH_AUTHORIZATION_URL,
+            tokenUrl: env.OAUTH_TOKEN_URL,
+            userInfoUrl: env.OAUTH_USERINFO_URL,
+            revocationUrl: env.OAUTH_REVOCATION_URL,
+        },
+    };
+}
+
+async function postForm(url, params) {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        body: new URLSearchParams(params),
+        signal: AbortSignal.timeout(10000),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(`Token endpoint rejected the request: ${body.error_description || body.error || `HTTP ${response.status}`}`);
+    }
+    return body;
+}
+
+/**
+ * Converts a token endpoint response into the shape kept server-side.
+ * Refresh responses usually omit the refresh token, so the previous one is kept.
+ */
+const normalizeTokens = (body, previousRefreshToken = null) => ({
+    accessToken: body.access_token,
+    refreshToken: body.refresh_token || previousRefreshToken,
+    idToken: body.id_token || null,
+    scope: body.scope || null,
+    expiresAt: Date.now() + (Number(body.expires_in) || 3600) * 1000,
+});
+
+export function createOAuthClient(config) {
+    let endpointsPromise = null;
+
+    const resolveEndpoints = () => {
+        if (!endpointsPromise) {
+            endpointsPromise = (async () => {
+                let discovered = {};
+                if (config.issuer) {
+                    const url = `${config.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+                    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+                    if (!response.ok) throw new Error(`OpenID discovery failed at ${url} (HTTP ${response.status}).`);
+                    const document = await response.json();
+                    discovered = {
+                        authorizationUrl: document.authorization_endpoint,
+                        tokenUrl: document.token_endpoint,
+                        userInfoUrl: document.userinfo_endpoint,
+                        revocationUrl: document.revocation_endpoint,
+                    };
+                }
+                const defaults = config.issuer ? {} : GOOGLE_ENDPOINTS;
+                const pick = (key) => config.overrides[key] || discovered[key] || defaults[key] || null;
+                return {
+                    authorizationUrl: pick('authorizationUrl'),
+                    tokenUrl: pick('tokenUrl'),
+                    userInfoUrl: pick('userInfoUrl'),
+                    revocationUrl: pick('revocationUrl'),
+                };
+            })();
+            // Let the next attempt retry discovery instead of caching a failure.
+            endpointsPromise.catch(() => { endpointsPromise = null; });
+        }
+        return endpointsPromise;
+    };
+
+    const clientCredentials = () => ({
+        client_id: config.clientId,
+        ...(config.clientSecret && { client_secret: config.clientSecret }),
+    });
+
+    return {
+        isConfigured: () => Boolean(config.clientId),
+
+        /** Builds the consent-screen URL plus the state and PKCE verifier the callback must match. */
+        async createAuthorizationRequest() {
+            const { authorizationUrl } = await resolveEndpoints();
+            const state = base64Url(randomBytes(16));
+            const codeVerifier = base64Url(randomBytes(32));
+            const codeChallenge = base64Url(createHash('sha256').update(codeVerifier).digest());
+            const url = new URL(authorizationUrl);
+            url.search = new URLSearchParams({
+                response_type: 'code',
+                client_id: config.clientId,
+                redirect_uri: config.redirectUri,
+                scope: config.scopes,
+                state,
+                code_challenge: codeChallenge,
+                code_challenge_method: 'S256',
+                // Google only returns a refresh token for offline access with explicit consent.
+                access_type: 'offline',
+                prompt: 'consent',
+            }).toString();
+            return { url: url.toString(), state, codeVerifier };
+        },
+
+        async exchangeCode(code, codeVerifier) {
+            const { tokenUrl } = await resolveEndpoints();
+            const body = await postForm(tokenUrl, {
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: config.redirectUri,
+                code_verifier: codeVerifier,
+                ...clientCredentials(),
+            });
+            return normalizeTokens(body);
+        },
+
+        async refresh(tokens) {
+            if (!tokens.refreshToken) throw new Error('No refresh token was issued; sign in again.');
+            const { tokenUrl } = await resolveEndpoints();
+            const body = await postForm(tokenUrl, {
+                grant_type: 'refresh_token',
+                refresh_token: tokens.refreshToken,
+                ...clientCredentials(),
+            });
+            return normalizeTokens(body, tokens.refreshToken);
+        },
+
+        async fetchUser(accessToken) {
+            const { userInfoUrl } = await resolveEndpoints();
+            if (!userInfoUrl) return null;
+            const response = await fetch(userInfoUrl, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+                signal: AbortSignal.timeout(10000),
+            });
+            if (!response.ok) throw new Error(`Userinfo endpoint answered with HTTP ${response.status}.`);
+            const { sub, email, name, picture } = await response.json();
+            return { sub, email: email || null, name: name || email || sub, picture: picture || null };
+        },
+
+        /** Best-effort revocation; sign-out proceeds even if the issuer does not support it. */
+        async revoke(tokens) {
+            const { revocationUrl } = await resolveEndpoints().catch(() => ({}));
+            const token = tokens.refreshToken || tokens.accessToken;
+            if (!revocationUrl || !token) return;
+            try {
+                await postForm(revocationUrl, { token, ...clientCredentials() });
+            } catch (error) {
+                console.warn('[BACKEND] Token revocation failed:', error.message);
+            }
+        },
+    };
+}
@@ -0,0 +1,198 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from './jsonStore.js';
+import { normalizeAction, validateAction } from './actions.js';
+
+// If-this-then-that automation rules, evaluated by the backend so they fire
+// even when no browser is open. A rule is
+// { id, name, enabled, trigger: { deviceId, field, to, from? }, actions: [...] }:
+// when the trigger device's `field` changes to `to` (optionally only coming
+// from `from`), the actions run (see actions.js), each after its own delay.
+
+// State fields a rule can watch, with the values they take.
+export const TRIGGER_FIELDS = {
+    // Bridges report 'Alarm', 'EStop' or 'Error' when the machine faults.
+    cnc: { status: ['Disconnected', 'Idle', 'Running', 'Paused', 'Alarm', 'EStop', 'Error'] },
+    dustCollector: { power: ['on', 'off'], connection: ['Connected', 'Disconnected', 'Error'] },
+    light: { power: ['on', 'off'], connection: ['Connected', 'Disconnected', 'Error'] },
+};
+
+const MAX_ACTIONS = 10;
+
+// Actions started by a rule carry this actor prefix, which is also what keeps
+// rules from triggering each other in a loop.
+const RULE_ACTOR_PREFIX = 'rule:';
+
+/** Returns an error message describing why `rule` is invalid, or null. */
+function validateRule(rule, { devices, scenes }) {
+    if (typeof rule.name !== 'string' || !rule.name.trim()) {
+        return 'Rule name is required.';
+    }
+    if (rule.name.length > 64) {
+        return 'Rule name must be 64 characters or fewer.';
+    }
+    if (typeof rule.enabled !== 'boolean') {
+        return '"enabled" must be true or false.';
+    }
+
+    const trigger = rule.trigger ?? {};
+    const device = devices.find(d => d.id === trigger.deviceId);
+    if (!device || !Object.hasOwn(TRIGGER_FIELDS, device.kind)) {
+        return 'The trigger needs a registered light, dust collector or CNC machine.';
+    }
+    // Own fields only: "constructor" and the like are not state fields.
+    const values = Object.hasOwn(TRIGGER_FIELDS[device.kind], trigger.field) ? TRIGGER_FIELDS[device.kind][trigger.field] : null;
+    if (!values) {
+        return `A ${device.kind} trigger can watch: ${Object.keys(TRIGGER_FIELDS[device.kind]).join(', ')}.`;
+    }
+    if (!values.includes(trigger.to) || (trigger.from !== undefined && !values.includes(trigger.from))) {
+        return `"${trigger.field}" can be one of: ${values.join(', ')}.`;
+    }
+    if (trigger.from === trigger.to) {
+        return 'The trigger must change from one value to a different one.';
+    }
+
+    if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+        return 'A rule needs at least one action.';
+    }
+    if (rule.actions.length > MAX_ACTIONS) {
+        return `A rule can have at most ${MAX_ACTIONS} actions.`;
+    }
+    for (const action of rule.actions) {
+        const error = validateAction(action, devices, scenes);
+        if (error) return error;
+    }
+    return null;
+}
+
+const normalize = ({ id, name, enabled, trigger, actions }) => ({
+    id,
+    name: name.trim(),
+    enabled,
+    trigger: {
+        deviceId: trigger.deviceId,
+        field: trigger.field,
+        to: trigger.to,
+        ...(trigger.from !== undefined && { from: trigger.from }),
+    },
+    actions: actions.map(normalizeAction),
+});
+
+/**
+ * Persisted rule list. Mutating calls take `{ devices, scenes }` to validate
+ * against and resolve to `{ rule }` or `{ error }`.
+ */
+export function createRuleRegistry(fileName = 'rules.json') {
+    const store = createJsonStore(fileName, { rules: [] });
+
+    const list = async () => (await store.read()).rules;
+
+    const create = async (input, context) => {
+        const rules = await list();
+        const candidate = { id: randomUUID(), name: input.name, enabled: input.enabled ?? true, trigger: input.trigger, actions: input.actions };
+        const error = validateRule(candidate, context);
+        if (error) return { error };
+
+        const rule = normalize(candidate);
+        await store.write({ rules: [...rules, rule] });
+        return { rule };
+    };
+
+    const update = async (id, changes, context) => {
+        const rules = await list();
+        const existing = rules.find(rule => rule.id === id);
+        if (!existing) return { error: 'Rule not found.', notFound: true };
+
+        const candidate = {
+            ...existing,
+            ...(changes.name !== undefined && { name: changes.name }),
+            ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+            ...(changes.trigger !== undefined && { trigger: changes.trigger }),
+            ...(changes.actions !== undefined && { actions: changes.actions }),
+        };
+        const error = validateRule(candidate, context);
+        if (error) return { error };
+
+        const rule = normalize(candidate);
+        await store.write({ rules: rules.map(r => (r.id === id ? rule : r)) });
+        return { rule };
+    };
+
+    const remove = async (id) => {
+        const rules = await list();
+        if (!rules.some(rule => rule.id === id)) return false;
+        await store.write({ rules: rules.filter(rule => rule.id !== id) });
+        return true;
+    };
+
+    return { list, create, update, remove };
+}
+
+// Values a device passes through while its connection drops and comes back;
+// moving to one of them does not cancel delayed actions.
+const TRANSIENT_VALUES = ['Disconnected', 'Connecting', 'Reconnecting'];
+
+/**
+ * Watches live device state and fires matching rules. Delayed actions are
+ * cancelled when the trigger field moves away from `to` again (e.g. "dust
+ * collector off two minutes after the job stops" is dropped if a new job
+ * starts within those two minutes) and when the rule is edited or removed.
+ * A device that merely loses its connection in the meantime keeps them.
+ *
+ * `onActivity(ruleId, activity)` reports { lastFiredAt, pending, results }
+ * whenever a rule fires or finishes.
+ */
+export function createRuleEngine({ ruleRegistry, deviceStates, actionRunner, onActivity = () => {} }) {
+    const batches = new Map(); // ruleId → batch still running or waiting
+    const activity = new Map();
+
+    const report = (ruleId, changes) => {
+        const next = { ...activity.get(ruleId), ...changes };
+        activity.set(ruleId, next);
+        onActivity(ruleId, next);
+    };
+
+    /** Drops the rule's delayed actions that have not run yet. */
+    const cancel = (ruleId) => {
+        batches.get(ruleId)?.cancel();
+    };
+
+    const fire = (rule, previousValue) => {
+        const { field, to } = rule.trigger;
+        console.log(`[BACKEND] Rule "${rule.name}" fired: ${field} changed from ${previousValue ?? 'unknown'} to ${to}.`);
+        // A new firing replaces whatever the previous one still had waiting.
+        cancel(rule.id);
+        const batch = actionRunner.runBatch(rule.actions, `${RULE_ACTOR_PREFIX}${rule.name}`);
+        batches.set(rule.id, batch);
+        report(rule.id, { lastFiredAt: Date.now(), pending: true, results: null });
+
+        batch.done.then(results => {
+            // A batch replaced by a newer firing finishes after that one reported pending.
+            if (batches.get(rule.id) !== batch) return;
+            batches.delete(rule.id);
+            report(rule.id, { pending: false, results });
+        });
+    };
+
+    deviceStates.on('change', async ({ deviceId, state, previous, actor }) => {
+        const rules = await ruleRegistry.list();
+        for (const rule of rules) {
+            const { field, to, from } = rule.trigger;
+            if (!rule.enabled || rule.trigger.deviceId !== deviceId || state[field] === previous[field]) continue;
+
+            if (state[field] !== to) {
+                if (!TRANSIENT_VALUES.includes(state[field])) cancel(rule.id);
+            } else if ((from === undefined || previous[field] === from) && !actor.startsWith(RULE_ACTOR_PREFIX)) {
+                fire(rule, previous[field]);
+            }
+        }
+    });
+
+    return {
+        cancel,
+        activitySnapshot: () => Object.fromEntries(activity),
+        forget: (ruleId) => {
+            cancel(ruleId);
+            activity.delete(ruleId);
+        },
+    };
+}
@@ -0,0 +1,115 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from './jsonStore.js';
+
+// Named lighting scenes ("Soldering – bright white") spanning one or more
+// lights. Each entry of `lights` is the command sent to that light when the
+// scene is recalled: { deviceId, power, color? }.
+
+const isColorChannel = (value) => Number.isInteger(value) && value >= 0 && value <= 255;
+
+/**
+ * Returns an error message describing why `scene` is invalid, or null.
+ * `others` keeps names unique, since the voice assistant recalls scenes by
+ * name; `lightIds` are the registered lights a scene may refer to.
+ */
+function validateScene(scene, others, lightIds) {
+    if (typeof scene.name !== 'string' || !scene.name.trim()) {
+        return 'Scene name is required.';
+    }
+    if (scene.name.length > 64) {
+        return 'Scene name must be 64 characters or fewer.';
+    }
+    const lowerName = scene.name.trim().toLowerCase();
+    if (others.some(other => other.name.toLowerCase() === lowerName)) {
+        return `A scene named "${scene.name.trim()}" already exists.`;
+    }
+    if (!Array.isArray(scene.lights) || scene.lights.length === 0) {
+        return 'A scene needs at least one light.';
+    }
+    for (const light of scene.lights) {
+        if (!lightIds.includes(light?.deviceId)) {
+            return `Unknown light "${light?.deviceId}".`;
+        }
+        if (light.power !== 'on' && light.power !== 'off') {
+            return 'Each light needs a power state of "on" or "off".';
+        }
+        if (light.color !== undefined && !['r', 'g', 'b'].every(c => isColorChannel(light.color?.[c]))) {
+            return 'Color values must be whole numbers from 0 to 255.';
+        }
+    }
+    if (new Set(scene.lights.map(light => light.deviceId)).size !== scene.lights.length) {
+        return 'Each light can only appear once in a scene.';
+    }
+    return null;
+}
+
+const normalize = ({ id, name, lights }) => ({
+    id,
+    name: name.trim(),
+    lights: lights.map(({ deviceId, power, color }) => ({
+        deviceId,
+        power,
+        ...(color && { color: { r: color.r, g: color.g, b: color.b } }),
+    })),
+});
+
+/**
+ * Persisted scene list. Mutating calls take the ids of the currently
+ * registered lights and resolve to `{ scene }` or `{ error }`.
+ */
+export function createSceneRegistry(fileName = 'scenes.json') {
+    const store = createJsonStore(fileName, { scenes: [] });
+
+    const list = async () => (await store.read()).scenes;
+
+    const get = async (id) => (await list()).find(scene => scene.id === id) || null;
+
+    const create = async (input, lightIds) => {
+        const scenes = await list();
+        const candidate = { id: randomUUID(), name: input.name, lights: input.lights };
+        const error = validateScene(candidate, scenes, lightIds);
+        if (error) return { error };
+
+        const scene = normalize(candidate);
+        await store.write({ scenes: [...scenes, scene] });
+        return { scene };
+    };
+
+    const update = async (id, changes, lightIds) => {
+        const scenes = await list();
+        const existing = scenes.find(scene => scene.id === id);
+        if (!existing) return { error: 'Scene not found.', notFound: true };
+
+        const candidate = {
+            ...existing,
+            ...(changes.name !== undefined && { name: changes.name }),
+            ...(changes.lights !== undefined && { lights: changes.lights }),
+        };
+        const error = validateScene(candidate, scenes.filter(scene => scene.id !== id), lightIds);
+        if (error) return { error };
+
+        const scene = normalize(candidate);
+        await store.write({ scenes: scenes.map(s => (s.id === id ? scene : s)) });
+        return { scene };
+    };
+
+    const remove = async (id) => {
+        const scenes = await list();
+        if (!scenes.some(scene => scene.id === id)) return false;
+        await store.write({ scenes: scenes.filter(scene => scene.id !== id) });
+        return true;
+    };
+
+    /** Drops a removed light from every scene, and scenes left without lights. Resolves to true if anything changed. */
+    const forgetLight = async (deviceId) => {
+        const scenes = await list();
+        if (!scenes.some(scene => scene.lights.some(light => light.deviceId === deviceId))) return false;
+        const remaining = scenes
+            .map(scene => ({ ...scene, lights: scene.lights.filter(light => light.deviceId !== deviceId) }))
+            .filter(scene => scene.lights.length > 0);
+        await store.write({ scenes: remaining });
+        return true;
+    };
+
+    return { list, get, create, update, remove, forgetLight };
+}
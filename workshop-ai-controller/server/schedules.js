@@ -0,0 +1,208 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from './jsonStore.js';
+import { normalizeAction, validateAction } from './actions.js';
+import { parseCron } from './cron.js';
+
+// Time-based schedules: { id, name, enabled, cron, actions }. The backend
+// runs a schedule's actions (see actions.js) at every minute its cron
+// expression matches, and records each run in a log.
+
+const MAX_ACTIONS = 10;
+const MAX_LOGGED_RUNS = 200;
+
+/** Returns an error message describing why `schedule` is invalid, or null. */
+function validateSchedule(schedule, { devices, scenes }) {
+    if (typeof schedule.name !== 'string' || !schedule.name.trim()) {
+        return 'Schedule name is required.';
+    }
+    if (schedule.name.length > 64) {
+        return 'Schedule name must be 64 characters or fewer.';
+    }
+    if (typeof schedule.enabled !== 'boolean') {
+        return '"enabled" must be true or false.';
+    }
+    try {
+        parseCron(schedule.cron);
+    } catch (error) {
+        return error.message;
+    }
+    if (!Array.isArray(schedule.actions) || schedule.actions.length === 0) {
+        return 'A schedule needs at least one action.';
+    }
+    if (schedule.actions.length > MAX_ACTIONS) {
+        return `A schedule can have at most ${MAX_ACTIONS} actions.`;
+    }
+    for (const action of schedule.actions) {
+        const error = validateAction(action, devices, scenes);
+        if (error) return error;
+    }
+    return null;
+}
+
+const normalize = ({ id, name, enabled, cron, actions }) => ({
+    id,
+    name: name.trim(),
+    enabled,
+    cron: cron.trim().replace(/\s+/g, ' '),
+    actions: actions.map(normalizeAction),
+});
+
+/**
+ * Persisted schedule list. Mutating calls take `{ devices, scenes }` to
+ * validate against and resolve to `{ schedule }` or `{ error }`.
+ */
+export function createScheduleRegistry(fileName = 'schedules.json') {
+    const store = createJsonStore(fileName, { schedules: [] });
+
+    const list = async () => (await store.read()).schedules;
+
+    const get = async (id) => (await list()).find(schedule => schedule.id === id) || null;
+
+    const create = async (input, context) => {
+        const schedules = await list();
+        const candidate = { id: randomUUID(), name: input.name, enabled: input.enabled ?? true, cron: input.cron, actions: input.actions };
+        const error = validateSchedule(candidate, context);
+        if (error) return { error };
+
+        const schedule = normalize(candidate);
+        await store.write({ schedules: [...schedules, schedule] });
+        return { schedule };
+    };
+
+    const update = async (id, changes, context) => {
+        const schedules = await list();
+        const existing = schedules.find(schedule => schedule.id === id);
+        if (!existing) return { error: 'Schedule not found.', notFound: true };
+
+        const candidate = {
+            ...existing,
+            ...(changes.name !== undefined && { name: changes.name }),
+            ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+            ...(changes.cron !== undefined && { cron: changes.cron }),
+            ...(changes.actions !== undefined && { actions: changes.actions }),
+        };
+        const error = validateSchedule(candidate, context);
+        if (error) return { error };
+
+        const schedule = normalize(candidate);
+        await store.write({ schedules: schedules.map(s => (s.id === id ? schedule : s)) });
+        return { schedule };
+    };
+
+    const remove = async (id) => {
+        const schedules = await list();
+        if (!schedules.some(schedule => schedule.id === id)) return false;
+        await store.write({ schedules: schedules.filter(schedule => schedule.id !== id) });
+        return true;
+    };
+
+    return { list, get, create, update, remove };
+}
+
+/** Adds `nextRunAt` (ms since epoch, or null when disabled or never) for display. */
+export const withNextRun = (schedule, now = new Date()) => ({
+    ...schedule,
+    nextRunAt: schedule.enabled ? parseCron(schedule.cron).next(now)?.getTime() ?? null : null,
+});
+
+/**
+ * Log of schedule runs, newest first, capped at the last few hundred. An
+ * entry is { id, scheduleId, name, trigger: 'schedule' | 'manual', actor,
+ * startedAt, finishedAt, results } where results is null while running.
+ */
+export function createScheduleRunLog(fileName = 'schedule-runs.json') {
+    const store = createJsonStore(fileName, { runs: [] });
+
+    const list = async ({ scheduleId, limit = 50 } = {}) => (await store.read()).runs
+        .filter(run => !scheduleId || run.scheduleId === scheduleId)
+        .slice(0, limit);
+
+    // Several schedules can start in the same minute; queue the read-modify-writes so none is lost.
+    let queue = Promise.resolve();
+    const mutate = (change) => {
+        const result = queue.then(async () => {
+            const { runs } = await store.read();
+            const { runs: next, value } = change(runs);
+            await store.write({ runs: next });
+            return value;
+        });
+        queue = result.catch(() => {});
+        return result;
+    };
+
+    const start = (entry) => mutate(runs => {
+        const run = { id: randomUUID(), ...entry, startedAt: Date.now(), finishedAt: null, results: null };
+        return { runs: [run, ...runs].slice(0, MAX_LOGGED_RUNS), value: run };
+    });
+
+    const finish = (id, results) => mutate(runs => {
+        const run = runs.find(r => r.id === id);
+        if (!run) return { runs, value: null };
+        const finished = { ...run, finishedAt: Date.now(), results };
+        return { runs: runs.map(r => (r.id === id ? finished : r)), value: finished };
+    });
+
+    return { list, start, finish };
+}
+
+/**
+ * Checks every enabled schedule at the start of each minute and runs the
+ * matching ones. `onRun(run)` is called when a run starts and again when all
+ * of its actions (including delayed ones) are done.
+ */
+export function createScheduler({ scheduleRegistry, runLog, actionRunner, onRun = () => {} }) {
+    const batches = new Map(); // scheduleId → batch with delayed actions still waiting
+    let timer = null;
+    let lastMinute = null;
+
+    const run = async (schedule, trigger, actor = `schedule:${schedule.name}`) => {
+        console.log(`[BACKEND] Running schedule "${schedule.name}" (${trigger === 'manual' ? `started by ${actor}` : schedule.cron}).`);
+        const entry = await runLog.start({ scheduleId: schedule.id, name: schedule.name, trigger, actor });
+        onRun(entry);
+
+        const batch = actionRunner.runBatch(schedule.actions, `schedule:${schedule.name}`);
+        batches.set(schedule.id, batch);
+        batch.done.then(async (results) => {
+            if (batches.get(schedule.id) === batch) batches.delete(schedule.id);
+            const failed = results.filter(result => result.status === 'ERROR').length;
+            console.log(`[BACKEND] Schedule "${schedule.name}" finished${failed ? ` with ${failed} failed action(s)` : ''}.`);
+            onRun(await runLog.finish(entry.id, results));
+        });
+        return entry;
+    };
+
+    const tick = async () => {
+        const minute = Math.floor(Date.now() / 60000) * 60000;
+        // Timers can fire twice within one minute around clock adjustments.
+        if (minute !== lastMinute) {
+            lastMinute = minute;
+            const now = new Date(minute);
+            for (const schedule of await scheduleRegistry.list()) {
+                if (schedule.enabled && parseCron(schedule.cron).matches(now)) {
+                    run(schedule, 'schedule').catch(error => console.error(`[BACKEND] Schedule "${schedule.name}" could not run:`, error.message));
+                }
+            }
+        }
+        scheduleTick();
+    };
+
+    const scheduleTick = () => {
+        // Wake just after the next minute boundary.
+        timer = setTimeout(tick, 60000 - (Date.now() % 60000) + 50);
+        timer.unref?.();
+    };
+
+    return {
+        start: () => {
+            if (!timer) scheduleTick();
+        },
+        stop: () => {
+            clearTimeout(timer);
+            timer = null;
+        },
+        /** Runs a schedule right away, outside its cron times. */
+        runNow: (schedule, actor) => run(schedule, 'manual', actor),
+        /** Drops delayed actions of the schedule's current run. */
+        cancel: (scheduleId) => batches.get(scheduleId)?.cancel(),
+    };
+}
@@ -0,0 +1,148 @@
+import { randomBytes } from 'crypto';
+import { createJsonStore } from './jsonStore.js';
+
+// Per-client sessions. Each browser (or API client) gets its own session, so
+// signing out on one tablet no longer signs out the whole workshop.
+//
+// A session store is any object with async get(id), set(id, session),
+// destroy(id) and prune(now). Two are provided: in-memory, and a JSON file in
+// the data directory that survives backend restarts. Pick one with
+// SESSION_STORE=memory|file.
+
+export const SESSION_COOKIE = 'workshop_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// lastSeenAt is only persisted when it moved by more than this, to avoid a write per request.
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export function createMemorySessionStore() {
+    const sessions = new Map();
+    return {
+        get: async (id) => sessions.get(id) ?? null,
+        set: async (id, session) => { sessions.set(id, session); },
+        destroy: async (id) => { sessions.delete(id); },
+        prune: async (now) => {
+            for (const [id, session] of sessions) {
+                if (session.expiresAt <= now) sessions.delete(id);
+            }
+        },
+    };
+}
+
+export function createFileSessionStore(fileName = 'sessions.json') {
+    const store = createJsonStore(fileName, { sessions: {} });
+    const update = async (mutate) => {
+        const data = await store.read();
+        mutate(data.sessions);
+        await store.write(data);
+    };
+    return {
+        get: async (id) => (await store.read()).sessions[id] ?? null,
+        set: (id, session) => update(sessions => { sessions[id] = session; }),
+        destroy: (id) => update(sessions => { delete sessions[id]; }),
+        prune: (now) => update(sessions => {
+            for (const [id, session] of Object.entries(sessions)) {
+                if (session.expiresAt <= now) delete sessions[id];
+            }
+        }),
+    };
+}
+
+export function createSessionStore(kind = process.env.SESSION_STORE || 'file') {
+    if (kind === 'memory') return createMemorySessionStore();
+    if (kind === 'file') return createFileSessionStore();
+    throw new Error(`Unknown SESSION_STORE "${kind}". Use "memory" or "file".`);
+}
+
+// A cookie whose value is not valid percent-encoding (e.g. "%E0") is ignored.
+const decodeCookie = (value) => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return undefined;
+    }
+};
+
+const parseCookies = (header = '') => Object.fromEntries(
+    header.split(';')
+        .map(part => part.trim().split('='))
+        .filter(([name, value]) => name && value !== undefined)
+        .map(([name, ...value]) => [name, decodeCookie(value.join('='))])
+        .filter(([, value]) => value !== undefined),
+);
+
+// Browsers send the session cookie; scripts and kiosks may send the same id as a bearer token.
+function readSessionId(req) {
+    const authorization = req.headers.authorization ?? '';
+    if (authorization.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+    return parseCookies(req.headers.cookie)[SESSION_COOKIE] ?? null;
+}
+
+/** The identity recorded with device commands: the signed-in user, or 'anonymous'. */
+export const actorOf = (session) => session?.auth?.user?.email || session?.auth?.user?.name || 'anonymous';
+
+/**
+ * Express middleware that loads the caller's session into `req.session` (null
+ * when there is none) and adds:
+ * - `req.actor`: see actorOf()
+ * - `req.startSession()`: creates a session and sets the cookie, unless one exists
+ * - `req.saveSession()`: persists changes made to `req.session`
+ * - `req.endSession()`: destroys the session and clears the cookie
+ */
+export function sessionMiddleware(store) {
+    const setCookie = (req, res, id, maxAgeMs) => {
+        const secure = req.secure ? '; Secure' : '';
+        res.append('Set-Cookie', `${SESSION_COOKIE}=${encodeURIComponent(id)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${Math.floor(maxAgeMs / 1000)}${secure}`);
+    };
+
+    return async (req, res, next) => {
+        try {
+            const now = Date.now();
+            const id = readSessionId(req);
+            let session = id ? await store.get(id) : null;
+            if (session && session.expiresAt <= now) {
+                await store.destroy(id);
+                session = null;
+            }
+            if (session && now - session.lastSeenAt > TOUCH_INTERVAL_MS) {
+                session.lastSeenAt = now;
+                session.expiresAt = now + SESSION_TTL_MS;
+                await store.set(session.id, session);
+                setCookie(req, res, session.id, SESSION_TTL_MS);
+            }
+
+            req.session = session;
+            req.actor = actorOf(session);
+
+            req.startSession = async () => {
+                if (req.session) return req.session;
+                const created = {
+                    id: randomBytes(32).toString('base64url'),
+                    createdAt: now,
+                    lastSeenAt: now,
+                    expiresAt: now + SESSION_TTL_MS,
+                    auth: null,
+                };
+                await store.set(created.id, created);
+                setCookie(req, res, created.id, SESSION_TTL_MS);
+                req.session = created;
+                return created;
+            };
+
+            req.saveSession = async () => {
+                if (req.session) await store.set(req.session.id, req.session);
+                req.actor = actorOf(req.session);
+            };
+
+            req.endSession = async () => {
+                if (req.session) await store.destroy(req.session.id);
+                setCookie(req, res, '', 0);
+                req.session = null;
+                req.actor = actorOf(null);
+            };
+
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from './jsonStore.js';
+
+// Voice assistant conversations, kept for incident review: what the user
+// said, what the model answered and every function it called, with the
+// arguments and the response it got. A Control Panel starts a session when a
+// conversation starts and appends entries as they happen.
+//
+// Session: { id, startedBy, startedAt, endedAt, entries }. `endedAt` is null
+// until the conversation is stopped (and stays null when the page was closed
+// instead). Entry: { at, speaker: 'user' | 'model', text } or
+// { at, speaker: 'tool', name, args, response }.
+
+const MAX_SESSIONS = 200;
+const MAX_ENTRIES = 1000;
+// Longer entries are kept cut short, marked with TRUNCATED, rather than lost.
+const MAX_TEXT_LENGTH = 4000;
+// Arguments and responses are kept as sent up to this size as JSON, each.
+const MAX_CALL_JSON_LENGTH = 8000;
+const TRUNCATED = '…[truncated]';
+const MAX_MATCHES = 5;
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Returns an error message describing why `entry` is invalid, or null. */
+function validateEntry(entry) {
+    if (!isObject(entry) || !Number.isFinite(entry.at)) {
+        return 'Each entry needs a time ("at") in milliseconds since the epoch.';
+    }
+    if (entry.speaker === 'user' || entry.speaker === 'model') {
+        if (typeof entry.text !== 'string') return 'What was said must be a string.';
+        return null;
+    }
+    if (entry.speaker === 'tool') {
+        if (typeof entry.name !== 'string' || !entry.name) return 'A function call needs the function name.';
+        if (!isObject(entry.args) || !isObject(entry.response)) return 'A function call needs its arguments and response as objects.';
+        return null;
+    }
+    return 'The speaker must be "user", "model" or "tool".';
+}
+
+const truncate = (text, maxLength) => (text.length > maxLength ? text.slice(0, maxLength) + TRUNCATED : text);
+
+// An oversized object keeps its status and message; the rest is kept as cut-short JSON.
+const truncateObject = (value) => {
+    const json = JSON.stringify(value);
+    if (json.length <= MAX_CALL_JSON_LENGTH) return value;
+    return {
+        ...(typeof value.status === 'string' && { status: truncate(value.status, 100) }),
+        ...(typeof value.message === 'string' && { message: truncate(value.message, MAX_TEXT_LENGTH) }),
+        json: truncate(json, MAX_CALL_JSON_LENGTH),
+    };
+};
+
+const normalizeEntry = (entry) => entry.speaker === 'tool'
+    ? { at: entry.at, speaker: 'tool', name: truncate(entry.name, 100), args: truncateObject(entry.args), response: truncateObject(entry.response) }
+    : { at: entry.at, speaker: entry.speaker, text: truncate(entry.text, MAX_TEXT_LENGTH) };
+
+// What a search matches against: the words spoken, or the function call as JSON.
+const searchableText = (entry) => entry.speaker === 'tool'
+    ? `${entry.name} ${JSON.stringify(entry.args)} ${JSON.stringify(entry.response)}`
+    : entry.text;
+
+/**
+ * Persisted voice sessions (data/voice-sessions.json), newest first. Mutating
+ * calls resolve to `{ session }` or `{ error, notFound? }`.
+ */
+export function createVoiceSessions(fileName = 'voice-sessions.json') {
+    const store = createJsonStore(fileName, { sessions: [] });
+
+    // Entries arrive one by one while a conversation runs; queue the read-modify-writes.
+    let queue = Promise.resolve();
+    const mutate = (change) => {
+        const result = queue.then(async () => {
+            const { sessions } = await store.read();
+            const { sessions: next, value } = change(sessions);
+            if (next !== sessions) await store.write({ sessions: next });
+            return value;
+        });
+        queue = result.catch(() => {});
+        return result;
+    };
+
+    const patch = (id, change) => mutate(sessions => {
+        const session = sessions.find(s => s.id === id);
+        if (!session) return { sessions, value: { error: 'Voice session not found.', notFound: true } };
+        const patched = change(session);
+        if (patched.error) return { sessions, value: patched };
+        return { sessions: sessions.map(s => (s.id === id ? patched : s)), value: { session: patched } };
+    });
+
+    const start = (actor) => mutate(sessions => {
+        const session = { id: randomUUID(), startedBy: actor, startedAt: Date.now(), endedAt: null, entries: [] };
+        return { sessions: [session, ...sessions].slice(0, MAX_SESSIONS), value: { session } };
+    });
+
+    const append = (id, entries) => {
+        if (!Array.isArray(entries) || entries.length === 0) {
+            return Promise.resolve({ error: 'Send at least one entry.' });
+        }
+        const invalid = entries.map(validateEntry).find(Boolean);
+        if (invalid) return Promise.resolve({ error: invalid });
+        return patch(id, session => {
+            if (session.entries.length + entries.length > MAX_ENTRIES) {
+                return { error: `A voice session holds up to ${MAX_ENTRIES} entries.` };
+            }
+            return { ...session, entries: [...session.entries, ...entries.map(normalizeEntry)] };
+        });
+    };
+
+    const end = (id) => patch(id, session => ({ ...session, endedAt: session.endedAt ?? Date.now() }));
+
+    const get = async (id) => (await store.read()).sessions.find(s => s.id === id) ?? null;
+
+    /**
+     * Sessions newest first, without their entries. `q` finds sessions where
+     * something said or a function call contains it (case-insensitively) and
+     * lists the first matching entries; `from` and `to` (ms since epoch)
+     * bound the start time.
+     */
+    const list = async ({ q, from, to, limit } = {}) => {
+        const wanted = q?.trim().toLowerCase();
+        const found = [];
+        for (const { entries, ...session } of (await store.read()).sessions) {
+            if (limit !== undefined && found.length >= limit) break;
+            if ((from !== undefined && session.startedAt < from) || (to !== undefined && session.startedAt >= to)) continue;
+            const matches = wanted ? entries.filter(entry => searchableText(entry).toLowerCase().includes(wanted)) : [];
+            if (wanted && matches.length === 0) continue;
+            found.push({
+                ...session,
+                entryCount: entries.length,
+                preview: entries.find(entry => entry.speaker === 'user')?.text ?? null,
+                ...(wanted && { matches: matches.slice(0, MAX_MATCHES) }),
+            });
+        }
+        return found;
+    };
+
+    return { start, append, end, get, list };
+}
+
+const pad = (n) => String(n).padStart(2, '0');
+
+// Local time of the backend.
+const formatTime = (ms) => {
+    const d = new Date(ms);
+    return `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+const formatDate = (ms) => {
+    const d = new Date(ms);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${formatTime(ms)}`;
+};
+
+const SPEAKERS = { user: 'User', model: 'Assistant' };
+
+/** A session as Markdown, one paragraph per entry, for pasting into an incident report. */
+export function sessionToMarkdown(session) {
+    const lines = [
+        `# Voice session ${formatDate(session.startedAt)}`,
+        '',
+        `Started by ${session.startedBy}, ${session.endedAt === null ? 'not ended' : `ended ${formatDate(session.endedAt)}`}. ${session.entries.length} entries.`,
+    ];
+    for (const entry of session.entries) {
+        lines.push('');
+        if (entry.speaker === 'tool') {
+            lines.push(`**${formatTime(entry.at)} Function \`${entry.name}\`** called with \`${JSON.stringify(entry.args)}\`, answered \`${JSON.stringify(entry.response)}\``);
+        } else {
+            lines.push(`**${formatTime(entry.at)} ${SPEAKERS[entry.speaker]}:** ${entry.text}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,20 @@
+import { DeviceAction, DeviceKind } from '../types';
+
+// Labels and targets for the actions rules and schedules can run (server/actions.js).
+
+export const ACTION_LABELS: Record<DeviceAction['type'], string> = {
+    dustCollector: 'Switch dust collector',
+    light: 'Set light',
+    flashLight: 'Flash light',
+    scene: 'Recall scene',
+    cnc: 'CNC command',
+};
+
+// The device kind each action type targets; scenes target no device.
+export const ACTION_DEVICE_KINDS: Record<DeviceAction['type'], DeviceKind | null> = {
+    dustCollector: 'dustCollector',
+    light: 'light',
+    flashLight: 'light',
+    scene: null,
+    cnc: 'cnc',
+};
@@ -0,0 +1,27 @@
+// Base URL of server.js. Empty means same origin, which is what the Vite dev
+// server provides by proxying /api to the backend.
+export const API_BASE_URL = process.env.BACKEND_URL || '';
+
+/**
+ * Calls a backend endpoint and returns its JSON body. The backend answers with
+ * `{ status: 'SUCCESS' | 'ERROR', message? }`; anything other than SUCCESS is
+ * thrown as an Error carrying the backend's message.
+ */
+export async function apiRequest<T = Record<string, unknown>>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+        ...init,
+        // Sends the session cookie, which identifies this client to the backend.
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+    let body: any = null;
+    try {
+        body = await response.json();
+    } catch {
+        // Non-JSON error pages fall through to the status check below.
+    }
+    if (!response.ok || body?.status !== 'SUCCESS') {
+        throw new Error(body?.message || `Request to ${path} failed with status ${response.status}.`);
+    }
+    return body as T;
+}
@@ -0,0 +1,55 @@
+import { API_BASE_URL, apiRequest } from './api';
+
+export interface AuthUser {
+    sub: string;
+    email: string | null;
+    name: string;
+    picture: string | null;
+}
+
+export interface AuthStatus {
+    configured: boolean;
+    signedIn: boolean;
+    user: AuthUser | null;
+    expiresAt: number | null;
+}
+
+export const getAuthStatus = () => apiRequest<AuthStatus>('/api/auth/status');
+
+export const signOut = async () => {
+    await apiRequest('/api/auth/logout', { method: 'POST' });
+};
+
+/**
+ * Runs the backend's OAuth flow in a popup. Resolves once the popup reports
+ * back or is closed; callers should re-read the auth status afterwards.
+ * Rejects with the backend's message when sign-in failed.
+ */
+export function signIn(): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const popup = window.open(`${API_BASE_URL}/api/auth/google`, 'workshop-auth', 'width=500,height=650');
+        if (!popup) {
+            reject(new Error('The sign-in popup was blocked. Allow popups for this site and try again.'));
+            return;
+        }
+
+        const finish = () => {
+            window.removeEventListener('message', handleMessage);
+            clearInterval(closedPoll);
+        };
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== popup || event.data?.type !== 'workshop-auth') return;
+            finish();
+            if (event.data.status === 'SUCCESS') resolve();
+            else reject(new Error(event.data.message || 'Sign-in failed.'));
+        };
+        // The user may simply close the popup, which sends no message.
+        const closedPoll = setInterval(() => {
+            if (popup.closed) {
+                finish();
+                resolve();
+            }
+        }, 500);
+        window.addEventListener('message', handleMessage);
+    });
+}
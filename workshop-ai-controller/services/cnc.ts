@@ -0,0 +1,155 @@
+import { API_BASE_URL, apiRequest } from './api';
+import { CncJob, CncProgram, CncQueue, CncQueueEntry, CncStatus } from '../types';
+
+export type CncCommand = 'play' | 'pause' | 'stop';
+export type CncAxis = 'x' | 'y' | 'z';
+
+export const CNC_AXES: CncAxis[] = ['x', 'y', 'z'];
+/** Feed and spindle override range in percent, as accepted by the backend. */
+export const OVERRIDE_MIN = 10;
+export const OVERRIDE_MAX = 200;
+
+const cncPath = (id: string) => `/api/cnc/${encodeURIComponent(id)}`;
+
+// The backend holds the bridge connection; status changes arrive on the event stream.
+export const connectCnc = async (id: string) => {
+    await apiRequest(`${cncPath(id)}/connect`, { method: 'POST' });
+};
+
+/** Uploads a G-code file to the backend, which streams it to the machine on 'play'. */
+export const uploadGcode = async (id: string, file: File) =>
+    (await apiRequest<{ program: { name: string; lineCount: number } }>(`${cncPath(id)}/program?name=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: await file.text(),
+    })).program;
+
+export const getCncProgram = async (id: string) =>
+    (await apiRequest<{ program: CncProgram }>(`${cncPath(id)}/program`)).program;
+
+export const sendCncCommand = async (id: string, command: CncCommand) => {
+    await apiRequest(`${cncPath(id)}/command`, { method: 'POST', body: JSON.stringify({ command }) });
+};
+
+/** Moves one axis by `distance` mm; refused while a job is running or beyond the machine limits. */
+export const jogCnc = async (id: string, axis: CncAxis, distance: number) => {
+    await apiRequest(`${cncPath(id)}/jog`, { method: 'POST', body: JSON.stringify({ axis, distance }) });
+};
+
+export const homeCnc = async (id: string, axes: CncAxis[] = CNC_AXES) => {
+    await apiRequest(`${cncPath(id)}/home`, { method: 'POST', body: JSON.stringify({ axes }) });
+};
+
+/** Makes the current position the work zero of `axes`. */
+export const zeroCnc = async (id: string, axes: CncAxis[]) => {
+    await apiRequest(`${cncPath(id)}/zero`, { method: 'POST', body: JSON.stringify({ axes }) });
+};
+
+/** Statuses in which the machine will not run until it is reset. */
+export const CNC_FAULTS: CncStatus[] = ['Alarm', 'EStop', 'Error'];
+
+export interface EmergencyStopResult {
+    deviceId: string;
+    name: string;
+    status: 'SUCCESS' | 'ERROR';
+    /** What the bridge got: 'estop', or 'stop' when it has no emergency stop. */
+    command?: 'estop' | 'stop';
+    message?: string;
+}
+
+/** Emergency stop of every CNC machine; one result per machine. */
+export const emergencyStopAllCnc = async () =>
+    (await apiRequest<{ results: EmergencyStopResult[] }>('/api/cnc/estop', { method: 'POST' })).results;
+
+export const emergencyStopCnc = async (id: string) =>
+    (await apiRequest<{ command: 'estop' | 'stop' }>(`${cncPath(id)}/estop`, { method: 'POST' })).command;
+
+/** Clears an Alarm, EStop or Error; the new status arrives on the event stream. */
+export const resetCnc = async (id: string) => {
+    await apiRequest(`${cncPath(id)}/reset`, { method: 'POST' });
+};
+
+/** Sets the feed and/or spindle override in percent; works while a job runs. */
+export const overrideCnc = async (id: string, override: { feed?: number; spindle?: number }) => {
+    await apiRequest(`${cncPath(id)}/override`, { method: 'POST', body: JSON.stringify(override) });
+};
+
+/** The queue of a machine that has never had one. */
+export const EMPTY_CNC_QUEUE: CncQueue = { state: 'idle', entries: [], current: null, startedBy: null, notice: null };
+
+/** Adds a G-code file to the end of the machine's job queue. */
+export const queueGcode = async (id: string, file: File) =>
+    (await apiRequest<{ entry: CncQueueEntry }>(`${cncPath(id)}/queue?name=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: await file.text(),
+    })).entry;
+
+/** Reorders the queue; `order` lists the ids of every queued file. */
+export const reorderCncQueue = async (id: string, order: string[]) => {
+    await apiRequest(`${cncPath(id)}/queue`, { method: 'PUT', body: JSON.stringify({ order }) });
+};
+
+/** Sets whether the queue holds for a tool change before a file, and what to tell the operator. */
+export const updateCncQueueEntry = async (id: string, entryId: string, changes: { toolChange?: boolean; prompt?: string | null }) =>
+    (await apiRequest<{ entry: CncQueueEntry }>(`${cncPath(id)}/queue/${encodeURIComponent(entryId)}`, {
+        method: 'PUT',
+        body: JSON.stringify(changes),
+    })).entry;
+
+export const removeCncQueueEntry = async (id: string, entryId: string) => {
+    await apiRequest(`${cncPath(id)}/queue/${encodeURIComponent(entryId)}`, { method: 'DELETE' });
+};
+
+/** Runs the next queued file: starts the queue, or goes on after a tool change. */
+export const startCncQueue = async (id: string) => {
+    await apiRequest(`${cncPath(id)}/queue/start`, { method: 'POST' });
+};
+
+/** Stops the queue advancing; the running job finishes. */
+export const holdCncQueue = async (id: string) => {
+    await apiRequest(`${cncPath(id)}/queue/hold`, { method: 'POST' });
+};
+
+export interface CncJobFilters {
+    deviceId?: string;
+    project?: string;
+    /** Start time bounds in ms since epoch, `to` exclusive. */
+    from?: number;
+    to?: number;
+}
+
+const jobQuery = (filters: CncJobFilters, limit?: number) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries({ ...filters, limit })) {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    return params.toString();
+};
+
+/** Recorded jobs, newest first. */
+export const listCncJobs = async (filters: CncJobFilters = {}, limit = 500) =>
+    (await apiRequest<{ jobs: CncJob[] }>(`/api/cnc/jobs?${jobQuery(filters, limit)}`)).jobs;
+
+/** Files a job under a project for usage reports; null clears it. */
+export const setCncJobProject = async (jobId: string, project: string | null) =>
+    (await apiRequest<{ job: CncJob }>(`/api/cnc/jobs/${encodeURIComponent(jobId)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ project }),
+    })).job;
+
+/** Downloads every job matching `filters` as a CSV file. */
+export async function exportCncJobs(filters: CncJobFilters) {
+    const response = await fetch(`${API_BASE_URL}/api/cnc/jobs.csv?${jobQuery(filters)}`, { credentials: 'include' });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `Export failed with status ${response.status}.`);
+    }
+    const name = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'cnc-jobs.csv';
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,34 @@
+import { apiRequest } from './api';
+import { Device, NewDevice } from '../types';
+
+export const DEVICE_KIND_LABELS: Record<Device['kind'], string> = {
+    cnc: 'CNC Bridge',
+    camera: 'Camera',
+    dustCollector: 'Dust Collector',
+    light: 'Smart Light',
+};
+
+// Mirrors DEVICE_KINDS in server/devices.js.
+export const DEVICE_PROTOCOLS: Record<Device['kind'], string[]> = {
+    cnc: ['uccnc-ws'],
+    camera: ['browser'],
+    dustCollector: ['http', 'shelly', 'tasmota'],
+    light: ['http'],
+};
+
+export const listDevices = async () => (await apiRequest<{ devices: Device[] }>('/api/devices')).devices;
+
+export const createDevice = async (device: NewDevice) =>
+    (await apiRequest<{ device: Device }>('/api/devices', { method: 'POST', body: JSON.stringify(device) })).device;
+
+export const updateDevice = async (id: string, changes: Partial<NewDevice>) =>
+    (await apiRequest<{ device: Device }>(`/api/devices/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(changes) })).device;
+
+export const deleteDevice = async (id: string) => {
+    await apiRequest(`/api/devices/${encodeURIComponent(id)}`, { method: 'DELETE' });
+};
+
+/** Marks a device as disconnected on every client (closes the bridge for CNC machines). */
+export const disconnectDevice = async (id: string) => {
+    await apiRequest(`/api/devices/${encodeURIComponent(id)}/disconnect`, { method: 'POST' });
+};
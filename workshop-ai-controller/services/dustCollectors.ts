@@ -0,0 +1,10 @@
+import { apiRequest } from './api';
+
+type Power = 'on' | 'off';
+
+// Both calls resolve to the power state the relay itself reports.
+export const readDustCollectorPower = async (id: string) =>
+    (await apiRequest<{ power: Power }>(`/api/dust-collectors/${encodeURIComponent(id)}/power`)).power;
+
+export const setDustCollectorPower = async (id: string, power: Power) =>
+    (await apiRequest<{ power: Power }>(`/api/dust-collectors/${encodeURIComponent(id)}/power`, { method: 'POST', body: JSON.stringify({ power }) })).power;
@@ -0,0 +1,62 @@
+import { API_BASE_URL } from './api';
+import { CncJob, CncQueue, Device, DeviceState, Rule, RuleActivity, Scene, Schedule, ScheduleRun } from '../types';
+
+export interface WorkshopSnapshot {
+    devices: Device[];
+    states: Record<string, DeviceState>;
+    scenes: Scene[];
+    rules: Rule[];
+    ruleActivity: Record<string, RuleActivity>;
+    schedules: Schedule[];
+    /** Most recent schedule runs, newest first. */
+    scheduleRuns: ScheduleRun[];
+    /** Most recent CNC jobs, newest first. */
+    cncJobs: CncJob[];
+    /** Job queues by device id, for the machines that have one. */
+    cncQueues: Record<string, CncQueue>;
+}
+
+export interface WorkshopEventHandlers {
+    /** Sent on every (re)connect with the full registry and all known states. */
+    onSnapshot: (snapshot: WorkshopSnapshot) => void;
+    onDevices: (devices: Device[], actor: string) => void;
+    onDeviceState: (deviceId: string, state: DeviceState, actor: string) => void;
+    onScenes: (scenes: Scene[], actor: string) => void;
+    onRules: (rules: Rule[], actor: string) => void;
+    onRuleActivity: (ruleId: string, activity: RuleActivity) => void;
+    onSchedules: (schedules: Schedule[], actor: string) => void;
+    /** Sent when a run starts and again when it finishes. */
+    onScheduleRun: (run: ScheduleRun) => void;
+    /** Sent when a job starts, pauses, resumes, ends or is filed under a project. */
+    onCncJob: (job: CncJob) => void;
+    onCncQueue: (deviceId: string, queue: CncQueue) => void;
+}
+
+/**
+ * Follows the backend's live event stream. The browser reconnects on its own
+ * after network drops, and each reconnect starts with a fresh snapshot.
+ * Returns a function that closes the stream.
+ */
+export function subscribeToWorkshopEvents(handlers: WorkshopEventHandlers): () => void {
+    const source = new EventSource(`${API_BASE_URL}/api/events`, { withCredentials: true });
+    const listen = (type: string, handle: (data: any) => void) => {
+        source.addEventListener(type, (event) => {
+            try {
+                handle(JSON.parse((event as MessageEvent).data));
+            } catch (error) {
+                console.error(`Malformed "${type}" event:`, error);
+            }
+        });
+    };
+    listen('snapshot', handlers.onSnapshot);
+    listen('devices', ({ devices, actor }) => handlers.onDevices(devices, actor));
+    listen('device-state', ({ deviceId, state, actor }) => handlers.onDeviceState(deviceId, state, actor));
+    listen('scenes', ({ scenes, actor }) => handlers.onScenes(scenes, actor));
+    listen('rules', ({ rules, actor }) => handlers.onRules(rules, actor));
+    listen('rule-activity', ({ ruleId, activity }) => handlers.onRuleActivity(ruleId, activity));
+    listen('schedules', ({ schedules, actor }) => handlers.onSchedules(schedules, actor));
+    listen('schedule-run', ({ run }) => handlers.onScheduleRun(run));
+    listen('cnc-job', ({ job }) => handlers.onCncJob(job));
+    listen('cnc-queue', ({ deviceId, queue }) => handlers.onCncQueue(deviceId, queue));
+    return () => source.close();
+}
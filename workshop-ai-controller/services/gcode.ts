@@ -0,0 +1,338 @@
+// Interprets the G-code lines the backend streams (comments already stripped)
+// well enough to draw the toolpath and check the job before it runs: G0/G1
+// moves, G2/G3 arcs (I/J/K centers or R radius, in any plane), G90/G91
+// positioning, G20/G21 units, feeds, spindle speeds and tool changes.
+// Everything is converted to millimetres in work coordinates.
+
+import { CncLimits } from '../types';
+
+export interface Point3 {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export interface ToolpathSegment {
+    from: Point3;
+    to: Point3;
+    rapid: boolean;
+    /** Index of the program line the segment belongs to; arcs span several segments. */
+    line: number;
+}
+
+export interface Toolpath {
+    segments: ToolpathSegment[];
+    /** Extent of all moves, or null when the program never moves. */
+    bounds: { min: Point3; max: Point3 } | null;
+}
+
+type Axis = 'x' | 'y' | 'z';
+
+// Arc planes: the two axes the arc is drawn in, the linear axis, and the center offset words.
+const PLANES: Record<number, { a: Axis; b: Axis; linear: Axis; offsets: [string, string] }> = {
+    17: { a: 'x', b: 'y', linear: 'z', offsets: ['I', 'J'] },
+    18: { a: 'z', b: 'x', linear: 'y', offsets: ['K', 'I'] },
+    19: { a: 'y', b: 'z', linear: 'x', offsets: ['J', 'K'] },
+};
+
+// Arcs are drawn as straight pieces of at most this many degrees.
+const ARC_STEP_DEGREES = 5;
+
+const WORD_PATTERN = /([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/gi;
+
+/** Splits a line into its letter/number words, e.g. "G1X10" → [['G', 1], ['X', 10]]. */
+function parseWords(line: string): [string, number][] {
+    return Array.from(line.matchAll(WORD_PATTERN), ([, letter, value]) => [letter.toUpperCase(), Number(value)] as [string, number]);
+}
+
+interface Move {
+    from: Point3;
+    to: Point3;
+    /** 0 rapid, 1 feed, 2 clockwise arc, 3 counter-clockwise arc. */
+    motion: 0 | 1 | 2 | 3;
+    line: number;
+    /** Feed rate in effect (mm/min), null until the program sets one. */
+    feed: number | null;
+    /** Straight pieces approximating the move; a single piece for linear moves. */
+    pieces: [Point3, Point3][];
+}
+
+/**
+ * Runs through the program, calling `onLine` with every line's words and then
+ * `onMove` if the line moves the tool.
+ */
+function interpretProgram(
+    lines: string[],
+    { onMove, onLine }: { onMove?: (move: Move) => void; onLine?: (words: [string, number][], line: number) => void },
+) {
+    let position: Point3 = { x: 0, y: 0, z: 0 };
+    let motion: Move['motion'] = 0;
+    let absolute = true;
+    let scale = 1; // 25.4 after G20
+    let plane = PLANES[17];
+    let feed: number | null = null;
+    let cannedCycle = false;
+
+    lines.forEach((text, line) => {
+        const words = parseWords(text);
+        let axisWords = false;
+        for (const [letter, value] of words) {
+            if (letter === 'G') {
+                if (value === 0 || value === 1 || value === 2 || value === 3) {
+                    motion = value;
+                    cannedCycle = false;
+                } else if (value === 80) cannedCycle = false;
+                else if (value >= 73 && value <= 89) cannedCycle = true;
+                else if (value === 90) absolute = true;
+                else if (value === 91) absolute = false;
+                else if (value === 20) scale = 25.4;
+                else if (value === 21) scale = 1;
+                else if (PLANES[value]) plane = PLANES[value];
+            }
+            if (letter === 'X' || letter === 'Y' || letter === 'Z') axisWords = true;
+        }
+        // F is read after the loop so that "G20 F10" means 10 inches per minute.
+        const feedWord = words.find(([letter]) => letter === 'F')?.[1];
+        if (feedWord !== undefined) feed = feedWord * scale;
+        onLine?.(words, line);
+        // G28/G53 and friends move through machine coordinates we do not know; skip them.
+        if (!axisWords || words.some(([letter, value]) => letter === 'G' && (value === 28 || value === 30 || value === 53 || value === 92))) return;
+
+        const word = (letter: string) => words.find(([l]) => l === letter)?.[1];
+        const target = { ...position };
+        for (const axis of ['x', 'y', 'z'] as Axis[]) {
+            const value = word(axis.toUpperCase());
+            if (value !== undefined) target[axis] = absolute ? value * scale : position[axis] + value * scale;
+        }
+
+        // Drilling cycles are not drawn; the tool ends up above the last hole.
+        if (cannedCycle) {
+            position = { ...target, z: position.z };
+            return;
+        }
+
+        const pieces = motion === 2 || motion === 3
+            ? arcPieces(position, target, motion === 2, plane, word, scale)
+            : [[position, target] as [Point3, Point3]];
+        onMove?.({ from: position, to: target, motion, line, feed, pieces });
+        position = target;
+    });
+}
+
+function arcPieces(
+    from: Point3,
+    to: Point3,
+    clockwise: boolean,
+    { a, b, linear, offsets }: typeof PLANES[number],
+    word: (letter: string) => number | undefined,
+    scale: number,
+): [Point3, Point3][] {
+    let centerA: number;
+    let centerB: number;
+    const radiusWord = word('R');
+    if (radiusWord !== undefined) {
+        // Of the two circles through both points, a negative R picks the longer arc.
+        const r = Math.abs(radiusWord * scale);
+        const dA = to[a] - from[a];
+        const dB = to[b] - from[b];
+        const chord = Math.hypot(dA, dB);
+        if (chord === 0) return [[from, to]];
+        const h = Math.sqrt(Math.max(r * r - (chord / 2) ** 2, 0)) * ((clockwise ? -1 : 1) * (radiusWord < 0 ? -1 : 1));
+        centerA = from[a] + dA / 2 - (h * dB) / chord;
+        centerB = from[b] + dB / 2 + (h * dA) / chord;
+    } else {
+        centerA = from[a] + (word(offsets[0]) ?? 0) * scale;
+        centerB = from[b] + (word(offsets[1]) ?? 0) * scale;
+    }
+
+    const radius = Math.hypot(from[a] - centerA, from[b] - centerB);
+    const start = Math.atan2(from[b] - centerB, from[a] - centerA);
+    let sweep = Math.atan2(to[b] - centerB, to[a] - centerA) - start;
+    if (clockwise && sweep >= 0) sweep -= 2 * Math.PI;
+    if (!clockwise && sweep <= 0) sweep += 2 * Math.PI;
+
+    const steps = Math.max(2, Math.ceil(Math.abs(sweep) / (ARC_STEP_DEGREES * Math.PI / 180)));
+    const pieces: [Point3, Point3][] = [];
+    let previous = from;
+    for (let i = 1; i <= steps; i++) {
+        const angle = start + (sweep * i) / steps;
+        const point = i === steps ? to : {
+            ...from,
+            [a]: centerA + radius * Math.cos(angle),
+            [b]: centerB + radius * Math.sin(angle),
+            [linear]: from[linear] + ((to[linear] - from[linear]) * i) / steps,
+        } as Point3;
+        pieces.push([previous, point]);
+        previous = point;
+    }
+    return pieces;
+}
+
+/** Builds the drawable toolpath of a program. */
+export function parseToolpath(lines: string[]): Toolpath {
+    const segments: ToolpathSegment[] = [];
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    const extend = (p: Point3) => {
+        for (const axis of ['x', 'y', 'z'] as Axis[]) {
+            min[axis] = Math.min(min[axis], p[axis]);
+            max[axis] = Math.max(max[axis], p[axis]);
+        }
+    };
+
+    interpretProgram(lines, {
+        onMove: ({ motion, line, pieces }) => {
+            for (const [from, to] of pieces) {
+                segments.push({ from, to, rapid: motion === 0, line });
+                extend(from);
+                extend(to);
+            }
+        },
+    });
+    return { segments, bounds: segments.length > 0 ? { min, max } : null };
+}
+
+/**
+ * Number of segments the machine has completed once `linesDone` lines are
+ * acknowledged; the tool sits at the end of the last of them.
+ */
+export function completedSegments(toolpath: Toolpath, linesDone: number): number {
+    const { segments } = toolpath;
+    let low = 0;
+    let high = segments.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (segments[mid].line < linesDone) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+}
+
+export interface ProgramAnalysis {
+    /** Extent of all moves, or null when the program never moves. */
+    bounds: { min: Point3; max: Point3 } | null;
+    /** Lowest and highest feed rate of cutting moves (mm/min). */
+    feedRange: [number, number] | null;
+    spindleRange: [number, number] | null;
+    toolChanges: { line: number; tool: number | null }[];
+    /** Unsupported or suspicious codes and limit violations, one sentence each. */
+    warnings: string[];
+    estimatedSeconds: number;
+    /** Estimated seconds from the start until each line is done. */
+    lineEnds: number[];
+}
+
+// Assumed when the machine's limits do not say.
+const DEFAULT_RAPID_RATE = 5000;
+const DEFAULT_FEED = 1000;
+
+const KNOWN_G_CODES = new Set([0, 1, 2, 3, 4, 10, 17, 18, 19, 20, 21, 28, 30, 40, 43, 49, 53, 54, 55, 56, 57, 58, 59, 61, 64, 80, 90, 91, 94, 98, 99]);
+const KNOWN_M_CODES = new Set([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 30]);
+const G_CODE_WARNINGS: Record<number, string> = {
+    41: 'uses cutter radius compensation, which the preview and the checks ignore',
+    42: 'uses cutter radius compensation, which the preview and the checks ignore',
+    92: 'shifts the coordinate system (G92), which the preview and the checks ignore',
+    93: 'uses inverse time feed (G93), so the time estimate is unreliable',
+    90.1: 'uses absolute arc centers (G90.1), which the preview draws wrongly',
+};
+
+/**
+ * Checks a program before it runs: its extent, feeds, spindle speeds, tool
+ * changes, codes the preview cannot follow, and anything beyond the machine's
+ * configured limits. Also estimates the run time from distances and feeds
+ * (ignoring acceleration, so real jobs take somewhat longer).
+ */
+export function analyzeProgram(lines: string[], limits: CncLimits = {}): ProgramAnalysis {
+    const warnings: string[] = [];
+    const warned = new Set<string>();
+    const warnOnce = (key: string, line: number, message: string) => {
+        if (warned.has(key)) return;
+        warned.add(key);
+        warnings.push(`Line ${line + 1} ${message}.`);
+    };
+
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    let feedRange: [number, number] | null = null;
+    let spindleRange: [number, number] | null = null;
+    const toolChanges: ProgramAnalysis['toolChanges'] = [];
+    let selectedTool: number | null = null;
+    let spindleOn = false;
+    let seconds = 0;
+    const lineEnds: number[] = [];
+
+    const widen = (range: [number, number] | null, value: number): [number, number] =>
+        range ? [Math.min(range[0], value), Math.max(range[1], value)] : [value, value];
+
+    interpretProgram(lines, {
+        onLine: (words, line) => {
+            // Time so far belongs to the previous line; moves on this line are added in onMove.
+            if (line > 0) lineEnds[line - 1] = seconds;
+            // "M6 T2" changes to tool 2 just like "T2 M6".
+            selectedTool = words.find(([letter]) => letter === 'T')?.[1] ?? selectedTool;
+            for (const [letter, value] of words) {
+                if (letter === 'G' && !KNOWN_G_CODES.has(value)) {
+                    if (G_CODE_WARNINGS[value]) warnOnce(`G${value}`, line, G_CODE_WARNINGS[value]);
+                    else if (value >= 73 && value <= 89) warnOnce(`G${value}`, line, `uses the canned cycle G${value}, which the preview and the time estimate leave out`);
+                    else warnOnce(`G${value}`, line, `uses G${value}, which is not a code this panel knows`);
+                }
+                if (letter === 'M') {
+                    if (!KNOWN_M_CODES.has(value)) warnOnce(`M${value}`, line, `uses M${value}; make sure the machine is set up for it`);
+                    if (value === 3 || value === 4) spindleOn = true;
+                    if (value === 5 || value === 2 || value === 30) spindleOn = false;
+                    if (value === 6) toolChanges.push({ line, tool: selectedTool });
+                }
+                if (letter === 'S' && value > 0) spindleRange = widen(spindleRange, value);
+            }
+            const dwell = words.some(([letter, value]) => letter === 'G' && value === 4) ? words.find(([letter]) => letter === 'P')?.[1] : undefined;
+            if (dwell !== undefined) seconds += dwell;
+        },
+        onMove: ({ motion, feed, line, pieces }) => {
+            let length = 0;
+            for (const [from, to] of pieces) {
+                length += Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+                for (const axis of ['x', 'y', 'z'] as Axis[]) {
+                    min[axis] = Math.min(min[axis], from[axis], to[axis]);
+                    max[axis] = Math.max(max[axis], from[axis], to[axis]);
+                }
+            }
+            if (motion === 0) {
+                seconds += (length / (limits.rapidRate ?? DEFAULT_RAPID_RATE)) * 60;
+                return;
+            }
+            if (feed === null) warnOnce('no-feed', line, 'cuts before any feed rate (F) is set');
+            if (!spindleOn) warnOnce('spindle-off', line, 'cuts with the spindle off');
+            if (feed !== null) feedRange = widen(feedRange, feed);
+            // The controller caps feeds at the machine maximum.
+            const rate = Math.min(feed ?? DEFAULT_FEED, limits.maxFeed ?? Infinity);
+            if (rate > 0) seconds += (length / rate) * 60;
+        },
+    });
+    if (lines.length > 0) lineEnds[lines.length - 1] = seconds;
+
+    const bounds = Number.isFinite(min.x) ? { min, max } : null;
+    if (bounds) {
+        for (const axis of ['x', 'y', 'z'] as Axis[]) {
+            const low = limits[`${axis}Min` as keyof CncLimits];
+            const high = limits[`${axis}Max` as keyof CncLimits];
+            const name = axis.toUpperCase();
+            if (low !== undefined && bounds.min[axis] < low) warnings.push(`${name} goes down to ${bounds.min[axis].toFixed(1)} mm, below the machine's ${low} mm.`);
+            if (high !== undefined && bounds.max[axis] > high) warnings.push(`${name} goes up to ${bounds.max[axis].toFixed(1)} mm, beyond the machine's ${high} mm.`);
+        }
+    }
+    if (feedRange && limits.maxFeed !== undefined && feedRange[1] > limits.maxFeed) {
+        warnings.push(`Feeds reach ${feedRange[1]} mm/min; the machine tops out at ${limits.maxFeed} mm/min.`);
+    }
+    if (spindleRange && limits.maxSpindle !== undefined && spindleRange[1] > limits.maxSpindle) {
+        warnings.push(`Spindle speeds reach S${spindleRange[1]}, above the machine's ${limits.maxSpindle} rpm.`);
+    }
+    if (spindleRange && limits.minSpindle !== undefined && spindleRange[0] < limits.minSpindle) {
+        warnings.push(`Spindle speeds go down to S${spindleRange[0]}, below the machine's ${limits.minSpindle} rpm.`);
+    }
+
+    return { bounds, feedRange, spindleRange, toolChanges, warnings, estimatedSeconds: seconds, lineEnds };
+}
+
+/** Estimated seconds left once `linesDone` lines are done. */
+export const remainingSeconds = (analysis: ProgramAnalysis, linesDone: number) =>
+    Math.max(0, analysis.estimatedSeconds - (linesDone > 0 ? analysis.lineEnds[Math.min(linesDone, analysis.lineEnds.length) - 1] : 0));
@@ -0,0 +1,38 @@
+import { API_BASE_URL, apiRequest } from './api';
+import { DeviceState, LightState } from '../types';
+
+const lightPath = (id: string) => `/api/lights/${encodeURIComponent(id)}`;
+
+export interface LightCommand {
+    power?: LightState['power'];
+    color?: { r: number; g: number; b: number };
+}
+
+// Both calls resolve to the light's resulting state; the same update is pushed to every client.
+export const readLightStatus = async (id: string) =>
+    (await apiRequest<{ light: DeviceState }>(`${lightPath(id)}/status`)).light;
+
+export const sendLightCommand = async (id: string, command: LightCommand) =>
+    (await apiRequest<{ light: DeviceState }>(`${lightPath(id)}/state`, { method: 'POST', body: JSON.stringify(command) })).light;
+
+export type ScanEvent = { type: 'progress'; scanned: number } | { type: 'found'; ip: string };
+
+/** Asks the backend to probe `${subnet}.1-254` and reports each streamed scan event. */
+export async function scanForLights(subnet: string, onEvent: (event: ScanEvent) => void, signal: AbortSignal) {
+    const response = await fetch(`${API_BASE_URL}/api/lights/scan?subnet=${encodeURIComponent(subnet)}`, { signal, credentials: 'include' });
+    if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `Scan failed with status ${response.status}.`);
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        lines.filter(Boolean).forEach(line => onEvent(JSON.parse(line)));
+    }
+}
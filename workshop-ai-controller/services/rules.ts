@@ -0,0 +1,21 @@
+import { apiRequest } from './api';
+import { DeviceKind, NewRule, Rule } from '../types';
+
+// Mirrors TRIGGER_FIELDS in server/rules.js.
+export const TRIGGER_FIELDS: Partial<Record<DeviceKind, Record<string, string[]>>> = {
+    cnc: { status: ['Disconnected', 'Idle', 'Running', 'Paused', 'Alarm', 'EStop', 'Error'] },
+    dustCollector: { power: ['on', 'off'], connection: ['Connected', 'Disconnected', 'Error'] },
+    light: { power: ['on', 'off'], connection: ['Connected', 'Disconnected', 'Error'] },
+};
+
+const rulePath = (id: string) => `/api/rules/${encodeURIComponent(id)}`;
+
+export const createRule = async (rule: NewRule) =>
+    (await apiRequest<{ rule: Rule }>('/api/rules', { method: 'POST', body: JSON.stringify(rule) })).rule;
+
+export const updateRule = async (id: string, changes: Partial<NewRule>) =>
+    (await apiRequest<{ rule: Rule }>(rulePath(id), { method: 'PUT', body: JSON.stringify(changes) })).rule;
+
+export const deleteRule = async (id: string) => {
+    await apiRequest(rulePath(id), { method: 'DELETE' });
+};
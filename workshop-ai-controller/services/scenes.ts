@@ -0,0 +1,29 @@
+import { apiRequest } from './api';
+import { NewScene, Scene, SceneLightResult } from '../types';
+
+const scenePath = (id: string) => `/api/scenes/${encodeURIComponent(id)}`;
+
+export const createScene = async (scene: NewScene) =>
+    (await apiRequest<{ scene: Scene }>('/api/scenes', { method: 'POST', body: JSON.stringify(scene) })).scene;
+
+export const updateScene = async (id: string, changes: Partial<NewScene>) =>
+    (await apiRequest<{ scene: Scene }>(scenePath(id), { method: 'PUT', body: JSON.stringify(changes) })).scene;
+
+export const deleteScene = async (id: string) => {
+    await apiRequest(scenePath(id), { method: 'DELETE' });
+};
+
+/**
+ * Recalls a scene on all of its lights. Resolves to one result per light, and
+ * only rejects when none of them could be reached.
+ */
+export const applyScene = async (id: string) =>
+    (await apiRequest<{ results: SceneLightResult[] }>(`${scenePath(id)}/apply`, { method: 'POST' })).results;
+
+/** Finds a scene by name, preferring an exact (case-insensitive) match over a partial one. */
+export const findSceneByName = (scenes: Scene[], name: string) => {
+    const wanted = name.trim().toLowerCase();
+    return scenes.find(scene => scene.name.toLowerCase() === wanted)
+        ?? scenes.find(scene => scene.name.toLowerCase().includes(wanted))
+        ?? null;
+};
@@ -0,0 +1,27 @@
+import { apiRequest } from './api';
+import { NewSchedule, Schedule, ScheduleRun } from '../types';
+
+// Common cron expressions offered in the schedule editor.
+export const CRON_PRESETS: { label: string; cron: string }[] = [
+    { label: 'Weekdays at 8:00', cron: '0 8 * * mon-fri' },
+    { label: 'Every day at 22:00', cron: '0 22 * * *' },
+    { label: 'Weekdays at 17:30', cron: '30 17 * * mon-fri' },
+    { label: 'Every hour', cron: '0 * * * *' },
+    { label: 'Saturdays at 9:00', cron: '0 9 * * sat' },
+];
+
+const schedulePath = (id: string) => `/api/schedules/${encodeURIComponent(id)}`;
+
+export const createSchedule = async (schedule: NewSchedule) =>
+    (await apiRequest<{ schedule: Schedule }>('/api/schedules', { method: 'POST', body: JSON.stringify(schedule) })).schedule;
+
+export const updateSchedule = async (id: string, changes: Partial<NewSchedule>) =>
+    (await apiRequest<{ schedule: Schedule }>(schedulePath(id), { method: 'PUT', body: JSON.stringify(changes) })).schedule;
+
+export const deleteSchedule = async (id: string) => {
+    await apiRequest(schedulePath(id), { method: 'DELETE' });
+};
+
+/** Starts the schedule's actions right away; progress arrives as `schedule-run` events. */
+export const runScheduleNow = async (id: string) =>
+    (await apiRequest<{ run: ScheduleRun }>(`${schedulePath(id)}/run`, { method: 'POST' })).run;
@@ -0,0 +1,304 @@
+import { Type } from '@google/genai';
+import { CameraState, CncJob, CncQueue, CncState, ConnectionStatus, Device, DeviceState, LightState, Scene } from '../types';
+import {
+    CNC_AXES, CncAxis, EMPTY_CNC_QUEUE, emergencyStopAllCnc, emergencyStopCnc, homeCnc, jogCnc, OVERRIDE_MAX, OVERRIDE_MIN,
+    overrideCnc, resetCnc, sendCncCommand, zeroCnc,
+} from './cnc';
+import { applyScene, findSceneByName } from './scenes';
+import { onEachDevice, VoiceDeviceType } from './voiceTools';
+
+// What the voice assistant can do with each kind of device. Function
+// declarations and dispatch are generated from this list (see voiceTools.ts),
+// so a new kind of tool becomes voice-controllable by adding an entry here.
+
+/**
+ * The Control Panel state and actions the voice functions work through. The
+ * actions resolve to the state the device reports back and throw when it
+ * cannot be reached.
+ */
+export interface VoiceContext {
+    switchDustCollector: (device: Device, on: boolean) => Promise<'on' | 'off'>;
+    updateLight: (device: Device, changes: Partial<LightState>) => Promise<DeviceState>;
+    updateCamera: (device: Device, changes: Partial<CameraState>) => CameraState;
+    scenes: Scene[];
+    lights: Record<string, LightState>;
+    lightStatuses: Record<string, ConnectionStatus>;
+    dustCollectors: Record<string, boolean>;
+    dustCollectorStatuses: Record<string, ConnectionStatus>;
+    cameras: Record<string, CameraState>;
+    cncStates: Record<string, CncState>;
+    cncJobs: CncJob[];
+    cncQueues: Record<string, CncQueue>;
+}
+
+const onOff = { type: Type.STRING, description: 'The desired power state: `on` or `off`.' };
+
+const roundMinutes = (ms: number) => Math.round(ms / 6000) / 10;
+
+
+const parseJog = (args: Record<string, unknown>) => {
+    const axis = String(args.axis ?? '').toLowerCase() as CncAxis;
+    const distance = Number(args.distance);
+    if (!CNC_AXES.includes(axis)) throw new Error(`Unknown axis "${args.axis}".`);
+    if (!Number.isFinite(distance) || distance === 0) throw new Error('The jog distance must be a non-zero number of millimetres.');
+    return { axis, distance };
+};
+
+// The answer to "what's next in the queue?", for the voice assistant to read out.
+const describeCncQueue = (cnc: Device, { state, entries, current, notice }: CncQueue) => {
+    if (!current && entries.length === 0) return `The queue of ${cnc.name} is empty.`;
+    const [next, ...rest] = entries;
+    const parts = [current ? `${cnc.name} is running ${current.name} from the queue.` : `${cnc.name} is not running anything from the queue.`];
+    if (next) {
+        parts.push(`Next is ${next.name}${next.toolChange ? `, after a tool change${next.prompt ? ` (${next.prompt})` : ''}` : ''}.`);
+        if (rest.length > 0) parts.push(`Then ${rest.map(entry => entry.name).join(', ')}.`);
+    } else {
+        parts.push('Nothing else is queued.');
+    }
+    if (state === 'toolChange') parts.push('The queue is waiting for someone to confirm the tool change on the CNC card.');
+    else if (state === 'idle' && next) parts.push(notice ?? 'The queue has not been started.');
+    return parts.join(' ');
+};
+
+export const createVoiceDeviceTypes = (context: VoiceContext): VoiceDeviceType[] => {
+    // The state last reported on the event stream.
+    const cncStatusOf = ({ id }: Device) => {
+        const { status, alarm, gcodeFile, progress } = context.cncStates[id] ?? { status: 'Disconnected', alarm: null, gcodeFile: null, progress: 0 };
+        return { cncStatus: status, alarm, gcodeFile, gcodeProgress: progress };
+    };
+
+    // Sends one command to one machine and reports the outcome. The backend
+    // accepts a command once the bridge has it; the status it leads to follows
+    // on the event stream, so the state reported is the last one known.
+    const onCnc = (cnc: Device, send: () => Promise<unknown>) => onEachDevice([cnc], async () => {
+        await send();
+        return cncStatusOf(cnc);
+    });
+
+    // The answer to "how far along is the job?": the time left is extrapolated from the progress so far.
+    const cncJobStatusOf = (cnc: Device) => {
+        const state = context.cncStates[cnc.id];
+        const job = context.cncJobs.find(j => j.deviceId === cnc.id && j.endedAt === null);
+        const runMs = job ? Date.now() - job.startedAt - job.pausedMs : 0;
+        const progress = state?.progress ?? 0;
+        return {
+            ...cncStatusOf(cnc),
+            linesDone: state?.linesDone ?? null,
+            linesTotal: state?.linesTotal ?? null,
+            feedRate: state?.feedRate ?? null,
+            spindleSpeed: state?.spindleSpeed ?? null,
+            feedOverride: state?.feedOverride ?? null,
+            spindleOverride: state?.spindleOverride ?? null,
+            ...(job && {
+                operator: job.operator,
+                runningMinutes: roundMinutes(runMs),
+                ...(progress > 0 && progress < 100 && { estimatedMinutesLeft: roundMinutes(runMs * (100 - progress) / progress) }),
+            }),
+        };
+    };
+
+    return [
+        {
+            kind: 'cnc',
+            noun: 'CNC machine',
+            readState: cncStatusOf,
+            capabilities: [
+                {
+                    name: 'emergencyStop',
+                    description: 'Emergency stop of the CNC machines. Call it at once, never asking for confirmation, whenever the user says "emergency stop", "E-stop", "stop the machine now" or sounds alarmed.',
+                    deviceDescription: 'Name of the CNC machine to stop. Omit to stop every CNC machine.',
+                    // A misheard name stops every machine rather than none.
+                    whenNameUnmatched: 'everyDevice',
+                    run: async (targets, { device }) => {
+                        if (device === undefined || device === '') {
+                            return {
+                                results: (await emergencyStopAllCnc()).map(({ name, status, command, message }) => ({
+                                    name, status, ...(message && { message }), ...(command && { state: { command } }),
+                                })),
+                            };
+                        }
+                        return onEachDevice(targets, async cnc => ({ command: await emergencyStopCnc(cnc.id) }));
+                    },
+                },
+                {
+                    name: 'resetCncAlarm',
+                    description: 'Resets the CNC machine out of an alarm, emergency stop or error once its cause is fixed.',
+                    target: 'one',
+                    run: ([cnc]) => onCnc(cnc, () => resetCnc(cnc.id)),
+                },
+                {
+                    name: 'startCncCycle',
+                    description: 'Starts or resumes the G-code execution on the CNC machine. It only runs once the user confirms it.',
+                    target: 'one',
+                    safety: 'hazardous',
+                    summarize: ([cnc]) => `start the job on ${cnc.name}`,
+                    run: ([cnc]) => onCnc(cnc, () => sendCncCommand(cnc.id, 'play')),
+                },
+                ...([
+                    ['pauseCncCycle', 'pause', 'Pauses the G-code execution on the CNC machine.'],
+                    ['stopCncCycle', 'stop', 'Stops the G-code execution on the CNC machine and resets the progress.'],
+                ] as const).map(([name, command, description]) => ({
+                    name,
+                    description,
+                    target: 'one' as const,
+                    run: ([cnc]: Device[]) => onCnc(cnc, () => sendCncCommand(cnc.id, command)),
+                })),
+                {
+                    name: 'jogCncAxis',
+                    description: 'Moves one axis of the CNC machine by a distance, e.g. "jog X plus 10 millimetres". Only possible while no job is running, and only runs once the user confirms it.',
+                    parameters: {
+                        axis: { type: Type.STRING, description: 'The axis to move: `x`, `y` or `z`.' },
+                        distance: { type: Type.NUMBER, description: 'Distance in millimetres; negative for the minus direction.' },
+                    },
+                    required: ['axis', 'distance'],
+                    target: 'one',
+                    safety: 'hazardous',
+                    summarize: ([cnc], args) => {
+                        const { axis, distance } = parseJog(args);
+                        return `move the ${axis.toUpperCase()} axis of ${cnc.name} by ${distance > 0 ? '+' : ''}${distance} mm`;
+                    },
+                    run: async ([cnc], args) => {
+                        const { axis, distance } = parseJog(args);
+                        return onCnc(cnc, () => jogCnc(cnc.id, axis, distance));
+                    },
+                },
+                {
+                    name: 'homeCncMachine',
+                    description: 'Runs the homing cycle on all axes of the CNC machine. Only possible while no job is running, and only runs once the user confirms it.',
+                    target: 'one',
+                    safety: 'hazardous',
+                    summarize: ([cnc]) => `home every axis of ${cnc.name}`,
+                    run: ([cnc]) => onCnc(cnc, () => homeCnc(cnc.id)),
+                },
+                {
+                    name: 'zeroCncAxes',
+                    description: 'Sets the work zero of the given CNC axes at the current tool position. Only possible while no job is running.',
+                    parameters: {
+                        axes: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Axes to act on: any of `x`, `y` and `z`.' },
+                    },
+                    required: ['axes'],
+                    target: 'one',
+                    run: async ([cnc], args) => {
+                        const axes = (Array.isArray(args.axes) ? args.axes : [args.axes]).map(axis => String(axis).toLowerCase()) as CncAxis[];
+                        if (axes.length === 0 || !axes.every(axis => CNC_AXES.includes(axis))) throw new Error(`Unknown axes "${args.axes}".`);
+                        return onCnc(cnc, () => zeroCnc(cnc.id, axes));
+                    },
+                },
+                {
+                    name: 'setCncOverride',
+                    description: `Sets the feed rate and/or spindle speed override of the CNC machine, in percent of the programmed values (${OVERRIDE_MIN} to ${OVERRIDE_MAX}, 100 is as programmed), e.g. "reduce feed to 70 percent". Works while a job is running.`,
+                    parameters: {
+                        feed: { type: Type.NUMBER, description: 'Feed rate override in percent.' },
+                        spindle: { type: Type.NUMBER, description: 'Spindle speed override in percent.' },
+                    },
+                    target: 'one',
+                    run: async ([cnc], args) => {
+                        const override: { feed?: number; spindle?: number } = {};
+                        for (const key of ['feed', 'spindle'] as const) {
+                            if (args[key] === undefined) continue;
+                            const percent = Number(args[key]);
+                            if (!(percent >= OVERRIDE_MIN && percent <= OVERRIDE_MAX)) throw new Error(`The ${key} override must be from ${OVERRIDE_MIN} to ${OVERRIDE_MAX} percent.`);
+                            override[key] = percent;
+                        }
+                        if (Object.keys(override).length === 0) throw new Error('Say which override to change: feed or spindle.');
+                        return onCnc(cnc, () => overrideCnc(cnc.id, override));
+                    },
+                },
+                {
+                    name: 'getCncJobStatus',
+                    description: 'Tells how far along the job on the CNC machine is: its status, G-code file, progress in percent and lines, how long it has been running and roughly how long is left, and the feed and spindle speed. Use it for "how far along is the CNC job?". It changes nothing.',
+                    target: 'one',
+                    run: async ([cnc]) => ({ state: cncJobStatusOf(cnc) }),
+                },
+                {
+                    name: 'getCncQueue',
+                    description: 'Tells which file the CNC machine is running from its job queue, what comes next (and whether a tool change comes first) and what is left. Use it for "what\'s next in the queue?".',
+                    target: 'one',
+                    run: async ([cnc]) => ({ answer: describeCncQueue(cnc, context.cncQueues[cnc.id] ?? EMPTY_CNC_QUEUE) }),
+                },
+            ],
+        },
+        {
+            kind: 'camera',
+            noun: 'camera',
+            readState: ({ id }) => ({ ...(context.cameras[id] ?? { power: false, recording: false }) }),
+            capabilities: [{
+                name: 'controlCamera',
+                description: 'Controls the workshop camera, including power and recording state.',
+                parameters: {
+                    power: onOff,
+                    recording: { type: Type.BOOLEAN, description: 'Set to `true` to start recording, `false` to stop.' },
+                },
+                run: (cameras, { power, recording }) => onEachDevice(cameras, async camera => ({
+                    ...context.updateCamera(camera, {
+                        ...(power !== undefined && { power: power === 'on' }),
+                        ...(recording !== undefined && { recording: recording as boolean }),
+                    }),
+                })),
+            }],
+        },
+        {
+            kind: 'dustCollector',
+            noun: 'dust collector',
+            readState: ({ id }) => ({
+                connection: context.dustCollectorStatuses[id] ?? 'Disconnected',
+                dustCollectorOn: context.dustCollectors[id] ?? null,
+            }),
+            capabilities: [{
+                name: 'controlDustCollector',
+                description: 'Turns the dust collector on or off. Turning it on only happens once the user confirms it.',
+                parameters: { power: { type: Type.STRING, description: 'The desired state: `on` or `off`.' } },
+                required: ['power'],
+                safety: ({ power }) => power === 'on' ? 'hazardous' : 'safe',
+                summarize: (collectors) => `turn on ${collectors.map(collector => collector.name).join(' and ')}`,
+                run: (collectors, { power }) => onEachDevice(collectors, async collector => ({
+                    power: await context.switchDustCollector(collector, power === 'on'),
+                })),
+            }],
+        },
+        {
+            kind: 'light',
+            noun: 'light',
+            readState: ({ id }) => ({ connection: context.lightStatuses[id] ?? 'Disconnected', ...context.lights[id] }),
+            capabilities: [
+                {
+                    name: 'controlLights',
+                    description: 'Controls the workshop lights, including power and RGB color.',
+                    parameters: {
+                        power: onOff,
+                        r: { type: Type.NUMBER, description: 'Red color value from 0 to 255.' },
+                        g: { type: Type.NUMBER, description: 'Green color value from 0 to 255.' },
+                        b: { type: Type.NUMBER, description: 'Blue color value from 0 to 255.' },
+                    },
+                    run: async (lights, { power, r, g, b }) => {
+                        const changes: Partial<LightState> = {
+                            ...(power !== undefined && { power: power as 'on' | 'off' }),
+                            ...(r !== undefined && { r: r as number }),
+                            ...(g !== undefined && { g: g as number }),
+                            ...(b !== undefined && { b: b as number }),
+                        };
+                        if (Object.keys(changes).length === 0) throw new Error('Say what to change: the power or the color.');
+                        return onEachDevice(lights, async light => {
+                            const { power, r, g, b } = await context.updateLight(light, changes);
+                            return { power, r, g, b };
+                        });
+                    },
+                },
+                {
+                    name: 'setScene',
+                    description: 'Recalls a saved lighting scene, setting every light in it at once.',
+                    parameters: { name: { type: Type.STRING, description: 'Name of the scene as listed in the system instruction.' } },
+                    required: ['name'],
+                    target: 'none',
+                    run: async (_, args) => {
+                        const scene = findSceneByName(context.scenes, String(args.name ?? ''));
+                        if (!scene) throw new Error(`No scene named "${args.name}".`);
+                        // One result per light; fails as a whole only if no light took the scene.
+                        const results = await applyScene(scene.id);
+                        return { results: results.map(({ name, status, message }) => ({ name, status, ...(message && { message }) })) };
+                    },
+                },
+            ],
+        },
+    ];
+};
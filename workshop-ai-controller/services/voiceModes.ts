@@ -0,0 +1,40 @@
+// How the voice assistant is started: with the button, by saying the wake
+// word, or by holding a key (a foot pedal that types one works too). The
+// choice is kept in this browser, since each station has its own microphone
+// and pedal.
+
+export type VoiceMode = 'button' | 'wakeWord' | 'pushToTalk';
+
+export const VOICE_MODE_LABELS: Record<VoiceMode, string> = {
+    button: 'Button',
+    wakeWord: 'Wake word',
+    pushToTalk: 'Hold to talk',
+};
+
+export interface VoiceModeSettings {
+    mode: VoiceMode;
+    /** The `KeyboardEvent.code` held to talk, e.g. 'Space' or 'F13'. */
+    talkKey: string;
+}
+
+const STORAGE_KEY = 'workshop-voice-mode';
+const DEFAULTS: VoiceModeSettings = { mode: 'button', talkKey: 'Space' };
+
+export const loadVoiceModeSettings = (): VoiceModeSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        return {
+            mode: Object.keys(VOICE_MODE_LABELS).includes(saved?.mode) ? saved.mode : DEFAULTS.mode,
+            talkKey: typeof saved?.talkKey === 'string' && saved.talkKey ? saved.talkKey : DEFAULTS.talkKey,
+        };
+    } catch {
+        return DEFAULTS;
+    }
+};
+
+export const saveVoiceModeSettings = (settings: VoiceModeSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** A key code as shown to the user, e.g. 'KeyP' as 'P'. */
+export const describeKey = (code: string) => code.replace(/^Key|^Digit/, '');
@@ -0,0 +1,51 @@
+import { API_BASE_URL, apiRequest } from './api';
+import { VoiceSession, VoiceSessionSummary, VoiceTranscriptEntry } from '../types';
+
+const sessionPath = (id: string) => `/api/voice/sessions/${encodeURIComponent(id)}`;
+
+export interface VoiceSessionFilters {
+    /** Text said, or in a function call; case-insensitive. */
+    q?: string;
+    /** Start time bounds in ms since epoch, `to` exclusive. */
+    from?: number;
+    to?: number;
+}
+
+export const startVoiceSession = async () =>
+    (await apiRequest<{ session: VoiceSession }>('/api/voice/sessions', { method: 'POST' })).session;
+
+export const appendVoiceSessionEntries = async (id: string, entries: VoiceTranscriptEntry[]) => {
+    await apiRequest(`${sessionPath(id)}/entries`, { method: 'POST', body: JSON.stringify({ entries }) });
+};
+
+export const endVoiceSession = async (id: string) => {
+    await apiRequest(`${sessionPath(id)}/end`, { method: 'POST' });
+};
+
+/** Saved sessions, newest first, without their entries. */
+export const listVoiceSessions = async (filters: VoiceSessionFilters = {}) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    return (await apiRequest<{ sessions: VoiceSessionSummary[] }>(`/api/voice/sessions?${params}`)).sessions;
+};
+
+export const getVoiceSession = async (id: string) =>
+    (await apiRequest<{ session: VoiceSession }>(sessionPath(id))).session;
+
+/** Downloads a session as a Markdown or JSON file, for incident review. */
+export async function exportVoiceSession(id: string, format: 'markdown' | 'json') {
+    const response = await fetch(`${API_BASE_URL}${sessionPath(id)}/export?format=${format}`, { credentials: 'include' });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `Export failed with status ${response.status}.`);
+    }
+    const name = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `voice-session.${format === 'json' ? 'json' : 'md'}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.click();
+    URL.revokeObjectURL(url);
+}
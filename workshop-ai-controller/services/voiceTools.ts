@@ -0,0 +1,250 @@
+import { Behavior, FunctionDeclaration, Schema, Type } from '@google/genai';
+import { Device, DeviceKind } from '../types';
+
+/**
+ * Which devices a voice function acts on: 'each' every device of the kind
+ * unless the user names one, 'one' exactly one (which may go unnamed while
+ * only one is registered), 'none' no device at all (e.g. recalling a scene).
+ */
+export type VoiceTarget = 'each' | 'one' | 'none';
+
+/**
+ * 'hazardous' calls (starting a machine, powering a tool on) only run once the
+ * user confirms them, so a misheard phrase cannot start the spindle.
+ */
+export type VoiceSafety = 'safe' | 'hazardous';
+
+/** The function the model calls to relay the user's answer to a hazardous call. */
+export const CONFIRM_FUNCTION = 'confirmPendingAction';
+
+const confirmDeclaration: FunctionDeclaration = {
+    name: CONFIRM_FUNCTION,
+    description: 'Relays the user\'s answer to the action waiting for confirmation. Only call it after the user has clearly said yes (confirmed true) or no (false) to that action; never on your own.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: { confirmed: { type: Type.BOOLEAN, description: '`true` when the user confirmed, `false` when they cancelled.' } },
+        required: ['confirmed'],
+    },
+};
+
+/** The function that reads every device's state, for questions about the workshop. */
+export const STATUS_FUNCTION = 'getWorkshopStatus';
+
+const statusDeclaration: FunctionDeclaration = {
+    name: STATUS_FUNCTION,
+    description: 'Reads the current state of every registered device: whether it is connected and on, the color of the lights, what the CNC machines are running and how far along. Use it to answer questions such as "is the dust collector on?", "how far along is the CNC job?" or "what colour are the lights?". It changes nothing.',
+    // No parameters at all: the API rejects an OBJECT schema without properties.
+};
+
+/** Something the voice assistant can do with a kind of device, declared to the model as one function. */
+export interface VoiceCapability {
+    /** The function name the model calls, e.g. 'controlLights'. */
+    name: string;
+    description: string;
+    /** Parameters besides `device`, which is added according to `target`. */
+    parameters?: Record<string, Schema>;
+    required?: string[];
+    /** Defaults to 'each'. */
+    target?: VoiceTarget;
+    /** Replaces the generated description of the `device` parameter. */
+    deviceDescription?: string;
+    /**
+     * 'everyDevice' acts on every device of the kind when the named one is not
+     * found, instead of failing: an emergency stop must not miss because a
+     * name was misheard. Defaults to 'error'.
+     */
+    whenNameUnmatched?: 'error' | 'everyDevice';
+    /** Defaults to 'safe'; a function decides per call, e.g. only switching on is hazardous. */
+    safety?: VoiceSafety | ((args: Record<string, unknown>) => VoiceSafety);
+    /**
+     * What a hazardous call is about to do, e.g. "start the job on CNC Router",
+     * for the user to confirm. Throws for arguments that make no sense, so
+     * those are reported before anyone is asked.
+     */
+    summarize?: (targets: Device[], args: Record<string, unknown>) => string;
+    /**
+     * Carries out a call on the resolved devices (none for target 'none') and
+     * resolves once the devices have answered. Throws Errors with a message
+     * for the model to relay when the arguments make no sense.
+     */
+    run: (targets: Device[], args: Record<string, unknown>) => Promise<VoiceResult>;
+}
+
+/** Everything the voice assistant can do with one kind of device. */
+export interface VoiceDeviceType {
+    kind: DeviceKind;
+    /** How the assistant refers to one device of the kind, e.g. 'CNC machine'. */
+    noun: string;
+    capabilities: VoiceCapability[];
+    /** The current state of one device as read out by getWorkshopStatus, e.g. { power, r, g, b } of a light. */
+    readState?: (device: Device) => Record<string, unknown>;
+}
+
+/** How a call went on one device, with the state the device reported back. */
+export type VoiceDeviceResult = {
+    name: string;
+    status: 'SUCCESS' | 'ERROR';
+    message?: string;
+    state?: Record<string, unknown>;
+};
+
+/**
+ * What a call did: the answer to a question, the state asked about, or what
+ * happened on each device, with a note about the call as a whole.
+ */
+export type VoiceResult = { answer: string } | { state: Record<string, unknown> } | { results: VoiceDeviceResult[]; message?: string };
+
+/**
+ * The response sent to the model for a function call, shaped like the
+ * backend's own answers so it can tell the user what really happened.
+ * 'PENDING' and 'CANCELLED' are for calls waiting for confirmation.
+ */
+export type VoiceResponse = {
+    status: 'SUCCESS' | 'ERROR' | 'PENDING' | 'CANCELLED';
+    message?: string;
+    answer?: string;
+    state?: Record<string, unknown>;
+    results?: VoiceDeviceResult[];
+};
+
+/**
+ * What became of a function call: 'done' (with its result), 'hazardous'
+ * (held back until confirmed; `run` carries it out) or 'answer' (the user's
+ * yes or no to the held-back call, relayed by the model).
+ */
+export type VoiceCall =
+    | { type: 'done'; result: VoiceResult }
+    | { type: 'hazardous'; summary: string; run: () => Promise<VoiceResult> }
+    | { type: 'answer'; confirmed: boolean };
+
+export interface VoiceTools {
+    /** For the Live session's `tools`. */
+    declarations: FunctionDeclaration[];
+    /** Runs a function call from the model, or holds it back; rejects with Errors for the model to relay. */
+    call: (name: string, args: Record<string, unknown>) => Promise<VoiceCall>;
+}
+
+/**
+ * Acts on every device at once and collects how each went. `act` resolves to
+ * the device's resulting state, or throws why it could not be done.
+ */
+export const onEachDevice = async (
+    devices: Device[],
+    act: (device: Device) => Promise<Record<string, unknown> | void>,
+): Promise<VoiceResult> => ({
+    results: await Promise.all(devices.map(async (device): Promise<VoiceDeviceResult> => {
+        try {
+            const state = await act(device);
+            return { name: device.name, status: 'SUCCESS', ...(state && { state }) };
+        } catch (error: any) {
+            return { name: device.name, status: 'ERROR', message: error.message };
+        }
+    })),
+});
+
+/** Like a scene recall, a call on several devices only fails if none of them took it. */
+export const toVoiceResponse = (result: VoiceResult): VoiceResponse => {
+    if ('answer' in result) return { status: 'SUCCESS', answer: result.answer };
+    if ('state' in result) return { status: 'SUCCESS', state: result.state };
+    const { results, message } = result;
+    if (results.length > 0 && results.every(r => r.status === 'ERROR')) {
+        return { status: 'ERROR', message: [message, ...results.map(r => r.message)].filter(Boolean).join(' '), results };
+    }
+    return { status: 'SUCCESS', ...(message && { message }), results };
+};
+
+const deviceParameter = (noun: string, target: VoiceTarget, description?: string): Schema => ({
+    type: Type.STRING,
+    description: description ?? (target === 'each'
+        ? `Name of the ${noun} as listed in the system instruction. Omit to target every ${noun}.`
+        : `Name of the ${noun} as listed in the system instruction. May be omitted when only one is registered.`),
+});
+
+// Resolves the optional `device` argument of a call: an exact name wins over a partial one.
+const resolveTargets = (devices: Device[], { kind, noun }: VoiceDeviceType, target: VoiceTarget, name: unknown): Device[] => {
+    if (target === 'none') return [];
+    const ofKind = devices.filter(device => device.kind === kind);
+    let targets = ofKind;
+    if (typeof name === 'string' && name.trim()) {
+        const wanted = name.trim().toLowerCase();
+        const exact = ofKind.filter(device => device.name.toLowerCase() === wanted);
+        targets = exact.length > 0 ? exact : ofKind.filter(device => device.name.toLowerCase().includes(wanted));
+        if (targets.length === 0) throw new Error(`No ${noun} named "${name}".`);
+    }
+    if (target === 'one' && targets.length !== 1) {
+        throw new Error(targets.length === 0 ? `No ${noun} is registered.` : `Several ${noun}s match; ask which one.`);
+    }
+    return targets;
+};
+
+/**
+ * Generates the voice functions of the device types that have at least one
+ * registered device, so the model is never offered a tool the workshop does
+ * not have. Functions that can be hazardous are declared non-blocking: their
+ * first response says the call is pending, a later one how it ended. Kinds
+ * that can report their state add to a single getWorkshopStatus function.
+ */
+export function createVoiceTools(types: VoiceDeviceType[], devices: Device[]): VoiceTools {
+    const available = types.filter(type => devices.some(device => device.kind === type.kind));
+    const handlers = new Map<string, { type: VoiceDeviceType; capability: VoiceCapability }>();
+    const declarations = available.flatMap(type => type.capabilities.map((capability): FunctionDeclaration => {
+        handlers.set(capability.name, { type, capability });
+        const target = capability.target ?? 'each';
+        const properties = {
+            ...capability.parameters,
+            ...(target !== 'none' && { device: deviceParameter(type.noun, target, capability.deviceDescription) }),
+        };
+        return {
+            name: capability.name,
+            description: capability.description,
+            ...((capability.safety ?? 'safe') !== 'safe' && { behavior: Behavior.NON_BLOCKING }),
+            // Like getWorkshopStatus, a function without arguments declares no parameters.
+            ...(Object.keys(properties).length > 0 && {
+                parameters: {
+                    type: Type.OBJECT,
+                    properties,
+                    ...(capability.required && { required: capability.required }),
+                },
+            }),
+        };
+    }));
+    if (declarations.some(declaration => declaration.behavior === Behavior.NON_BLOCKING)) declarations.push(confirmDeclaration);
+    const readable = available.filter(type => type.readState);
+    if (readable.length > 0) declarations.push(statusDeclaration);
+
+    // Every registered device of the readable kinds, in the order of `types`.
+    const readStatus = (): VoiceResult => ({
+        state: {
+            devices: readable.flatMap(type => devices
+                .filter(device => device.kind === type.kind)
+                .map(device => ({ name: device.name, kind: type.noun, ...type.readState!(device) }))),
+        },
+    });
+
+    const call = async (name: string, args: Record<string, unknown>): Promise<VoiceCall> => {
+        if (name === CONFIRM_FUNCTION) return { type: 'answer', confirmed: args.confirmed === true };
+        if (name === STATUS_FUNCTION && readable.length > 0) return { type: 'done', result: readStatus() };
+        const handler = handlers.get(name);
+        if (!handler) throw new Error(`Unknown function "${name}".`);
+        const { type, capability } = handler;
+        const safety = typeof capability.safety === 'function' ? capability.safety(args) : capability.safety ?? 'safe';
+        let targets: Device[];
+        try {
+            targets = resolveTargets(devices, type, capability.target ?? 'each', args.device);
+        } catch (error: any) {
+            // Only safe calls fall back, so nothing hazardous runs on devices nobody named.
+            if (capability.whenNameUnmatched !== 'everyDevice' || safety === 'hazardous') throw error;
+            // Run as if no name had been given, and tell the model which name did not match.
+            const result = await capability.run(resolveTargets(devices, type, 'each', undefined), { ...args, device: undefined });
+            const message = `${error.message} Acted on every ${type.noun} instead.`;
+            return { type: 'done', result: 'results' in result ? { ...result, message } : result };
+        }
+        if (safety === 'hazardous') {
+            const summary = capability.summarize?.(targets, args) ?? capability.description;
+            return { type: 'hazardous', summary, run: () => capability.run(targets, args) };
+        }
+        return { type: 'done', result: await capability.run(targets, args) };
+    };
+
+    return { declarations, call };
+}
@@ -0,0 +1,144 @@
+// Wake word detection with the browser's own speech recognition, so the Live
+// session (and the microphone stream to Gemini) only opens once someone says
+// "Hey Workshop". Recognition is required to run on the device: where the
+// browser can only recognize speech on its vendor's servers, the wake word is
+// refused rather than sending everything said in the workshop there.
+
+export const WAKE_PHRASE = 'Hey Workshop';
+
+// "hey workshop", "hi workshop" or "okay workshop", however it is punctuated.
+const WAKE_PATTERN = /\b(hey|hi|ok|okay) work ?shop\b/;
+
+const LANG = 'en-US';
+
+type OnDeviceOptions = { langs: string[]; processLocally: true };
+
+// The parts of the Web Speech API used here; TypeScript's DOM types do not include it.
+interface SpeechRecognitionLike {
+    continuous: boolean;
+    interimResults: boolean;
+    lang: string;
+    processLocally: boolean;
+    onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+    onerror: ((event: { error: string }) => void) | null;
+    onend: (() => void) | null;
+    start: () => void;
+    stop: () => void;
+}
+
+interface SpeechRecognitionConstructor {
+    new (): SpeechRecognitionLike;
+    available?: (options: OnDeviceOptions) => Promise<'available' | 'downloadable' | 'downloading' | 'unavailable'>;
+    install?: (options: OnDeviceOptions) => Promise<boolean>;
+}
+
+const recognitionConstructor = (): SpeechRecognitionConstructor | null => {
+    const scope = window as unknown as { SpeechRecognition?: SpeechRecognitionConstructor; webkitSpeechRecognition?: SpeechRecognitionConstructor };
+    return scope.SpeechRecognition ?? scope.webkitSpeechRecognition ?? null;
+};
+
+/** Whether the browser can be asked to recognize speech on the device at all. */
+export const isWakeWordSupported = () => typeof recognitionConstructor()?.available === 'function';
+
+const NOT_ON_DEVICE = 'This browser cannot recognize speech on the device, which the wake word needs. Use the button or hold to talk.';
+
+/**
+ * Makes sure English can be recognized on the device, installing the
+ * browser's language pack if it offers one. Resolves to why not, or null.
+ */
+async function prepareOnDeviceRecognition(Recognition: SpeechRecognitionConstructor): Promise<string | null> {
+    const options: OnDeviceOptions = { langs: [LANG], processLocally: true };
+    try {
+        const availability = await Recognition.available?.(options);
+        if (availability === 'available') return null;
+        if ((availability === 'downloadable' || availability === 'downloading') && Recognition.install) {
+            return await Recognition.install(options) ? null : 'The browser could not install on-device speech recognition for English.';
+        }
+        return NOT_ON_DEVICE;
+    } catch {
+        return NOT_ON_DEVICE;
+    }
+}
+
+// Errors after which listening again would fail the same way.
+const FATAL_ERRORS: Record<string, string> = {
+    'not-allowed': 'Microphone access was denied.',
+    'service-not-allowed': 'This browser does not allow speech recognition here.',
+    'language-not-supported': 'This browser cannot recognize English speech on the device.',
+    'audio-capture': 'No microphone was found.',
+};
+
+// Pause before listening again, so a recognizer that keeps ending does not spin.
+const RESTART_DELAY_MS = 300;
+
+/**
+ * Listens for the wake phrase until the returned function is called.
+ * `onWake` resolves to whether a conversation was started; if not, listening
+ * goes on. `onError` is called when listening had to stop, with a message
+ * for the user.
+ */
+export function listenForWakeWord({ onWake, onError }: {
+    onWake: () => Promise<boolean>;
+    onError: (message: string) => void;
+}): () => void {
+    const Recognition = recognitionConstructor();
+    if (!Recognition) {
+        onError('This browser has no speech recognition for the wake word.');
+        return () => {};
+    }
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = LANG;
+    recognition.processLocally = true;
+
+    // `closed` by the caller or a fatal error; `waking` while a conversation is being started.
+    let closed = false;
+    let waking = false;
+    let running = false;
+    const listen = () => {
+        if (closed || waking || running) return;
+        running = true;
+        recognition.start();
+    };
+
+    recognition.onresult = (event) => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+            const heard = event.results[i][0].transcript.toLowerCase().replace(/[^a-z]+/g, ' ');
+            if (WAKE_PATTERN.test(heard)) {
+                waking = true;
+                recognition.stop();
+                onWake().catch(() => false).then(started => {
+                    if (started) return;
+                    waking = false;
+                    listen();
+                });
+                return;
+            }
+        }
+    };
+    recognition.onerror = ({ error }) => {
+        if (!FATAL_ERRORS[error]) return;
+        closed = true;
+        onError(FATAL_ERRORS[error]);
+    };
+    // Browsers end continuous recognition after a while of silence; keep listening.
+    recognition.onend = () => {
+        running = false;
+        setTimeout(listen, RESTART_DELAY_MS);
+    };
+
+    prepareOnDeviceRecognition(Recognition).then(problem => {
+        if (problem && !closed) {
+            closed = true;
+            onError(problem);
+        }
+        listen();
+    });
+
+    return () => {
+        closed = true;
+        recognition.onresult = null;
+        if (running) recognition.stop();
+    };
+}
@@ -1,4 +1,4 @@
-const CACHE_NAME = 'workshop-ai-controller-cache-v3'; // Cache updated for new version
+const CACHE_NAME = 'workshop-ai-controller-cache-v19'; // Cache updated for new version
 const urlsToCache = [
   '/',
   '/index.html',
@@ -6,7 +6,48 @@ const urlsToCache = [
   '/manifest.json',
   '/index.tsx',
   '/App.tsx',
+  '/types.ts',
+  '/services/actions.ts',
+  '/services/api.ts',
+  '/services/auth.ts',
+  '/services/cnc.ts',
+  '/services/devices.ts',
+  '/services/dustCollectors.ts',
+  '/services/events.ts',
+  '/services/gcode.ts',
+  '/services/lights.ts',
+  '/services/rules.ts',
+  '/services/scenes.ts',
+  '/services/schedules.ts',
+  '/services/voiceDeviceTypes.ts',
+  '/services/voiceModes.ts',
+  '/services/voiceSessions.ts',
+  '/services/voiceTools.ts',
+  '/services/wakeWord.ts',
   '/components/WorkshopControl.tsx',
+  '/components/ActionListEditor.tsx',
+  '/components/AuthStatus.tsx',
+  '/components/CameraCard.tsx',
+  '/components/CncCard.tsx',
+  '/components/CncJogPanel.tsx',
+  '/components/CncOverridePanel.tsx',
+  '/components/CncQueuePanel.tsx',
+  '/components/DeviceManager.tsx',
+  '/components/DustCollectorCard.tsx',
+  '/components/EmergencyStopButton.tsx',
+  '/components/GcodeAnalysis.tsx',
+  '/components/JobHistory.tsx',
+  '/components/LightCard.tsx',
+  '/components/NetworkScanner.tsx',
+  '/components/RuleManager.tsx',
+  '/components/ScenesCard.tsx',
+  '/components/ScheduleManager.tsx',
+  '/components/StatusIndicators.tsx',
+  '/components/ToolpathViewer.tsx',
+  '/components/VoiceConfirmationPrompt.tsx',
+  '/components/VoiceModeSelector.tsx',
+  '/components/VoiceSessionHistory.tsx',
+  '/components/VoiceTranscript.tsx',
   '/components/ImageAnalyzer.tsx',
   '/components/ResearchAssistant.tsx',
   '/components/Icons.tsx'
@@ -28,6 +69,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Backend calls, including the never-ending /api/events stream, always go to the network
+  if (new URL(event.request.url).pathname.startsWith('/api/')) {
+    return;
+  }
+
   // For requests to external domains (like the AI Studio CDN), just fetch from network
   if (!event.request.url.startsWith(self.location.origin)) {
       event.respondWith(fetch(event.request));
@@ -0,0 +1,284 @@
+export type DeviceKind = 'light' | 'dustCollector' | 'camera' | 'cnc';
+
+export interface Device {
+    id: string;
+    kind: DeviceKind;
+    name: string;
+    address: string;
+    protocol: string;
+    /** CNC machines only. */
+    limits?: CncLimits;
+}
+
+/**
+ * What a CNC machine can do, used to check programs before they run. Travel
+ * is in work coordinates (mm), feeds in mm/min and spindle speeds in rpm;
+ * anything left out is not checked.
+ */
+export interface CncLimits {
+    xMin?: number;
+    xMax?: number;
+    yMin?: number;
+    yMax?: number;
+    zMin?: number;
+    zMax?: number;
+    maxFeed?: number;
+    /** Speed of G0 moves, for the time estimate. */
+    rapidRate?: number;
+    minSpindle?: number;
+    maxSpindle?: number;
+}
+
+export type NewDevice = Omit<Device, 'id'>;
+
+export interface LightState {
+    power: 'on' | 'off';
+    r: number;
+    g: number;
+    b: number;
+}
+
+export interface CameraState {
+    power: boolean;
+    recording: boolean;
+}
+
+export type CncStatus = 'Disconnected' | 'Connecting' | 'Reconnecting' | 'Idle' | 'Running' | 'Paused' | 'Alarm' | 'EStop' | 'Error';
+export type ConnectionStatus = 'Disconnected' | 'Connecting' | 'Connected' | 'Error';
+
+export interface CncState {
+    status: CncStatus;
+    /** The controller's text for an Alarm, EStop or Error; null otherwise. */
+    alarm: string | null;
+    gcodeFile: string | null;
+    /** Changes with every upload; null for files loaded on the bridge. */
+    programId: string | null;
+    progress: number;
+    /** Acknowledged and total lines of a file streamed by the backend; null for files loaded on the bridge. */
+    linesDone: number | null;
+    linesTotal: number | null;
+    /** Digital readout in mm, as reported by the bridge; null until it does. */
+    machinePosition: CncPosition | null;
+    workPosition: CncPosition | null;
+    /** Feed and spindle overrides in percent, and the actual feed (mm/min) and spindle speed (RPM); null until reported. */
+    feedOverride: number | null;
+    spindleOverride: number | null;
+    feedRate: number | null;
+    spindleSpeed: number | null;
+    /** What the bridge announced in its hello; null until the handshake is done. */
+    bridge: CncBridgeInfo | null;
+    /** Why the connection last dropped or the job last failed. */
+    lastError: string | null;
+    /** When the next reconnect attempt is due (ms since epoch), while Reconnecting. */
+    reconnectAt: number | null;
+}
+
+/** Optional bridge features; a bridge without them can still play, pause and stop. */
+export type CncCapability = 'stream' | 'jog' | 'home' | 'zero' | 'override' | 'estop' | 'reset';
+
+export interface CncBridgeInfo {
+    name: string | null;
+    protocol: number;
+    capabilities: string[];
+}
+
+export interface CncPosition {
+    x: number;
+    y: number;
+    z: number;
+}
+
+/** A G-code file uploaded to the backend, as streamed to the machine (comments stripped). */
+export interface CncProgram {
+    id: string;
+    name: string;
+    lines: string[];
+}
+
+/** A file waiting in a CNC job queue. */
+export interface CncQueueEntry {
+    id: string;
+    name: string;
+    lineCount: number;
+    /** Whether the queue holds before this file for a tool change. */
+    toolChange: boolean;
+    /** What to tell the operator at the tool change, e.g. "Insert the 3 mm drill". */
+    prompt: string | null;
+}
+
+/** Files run back to back on one CNC machine (see server/cncQueue.js). */
+export interface CncQueue {
+    /** 'toolChange' while waiting for the tool change before entries[0]. */
+    state: 'idle' | 'running' | 'toolChange';
+    /** The files still to run, in order. */
+    entries: CncQueueEntry[];
+    /** The queued file running now. */
+    current: CncQueueEntry | null;
+    startedBy: string | null;
+    /** Why the queue stopped on its own, e.g. after a job was stopped. */
+    notice: string | null;
+}
+
+export type CncJobOutcome = 'completed' | 'stopped' | 'failed' | 'disconnected';
+
+/** One run of a CNC machine, recorded by the backend (see server/cncJobs.js). */
+export interface CncJob {
+    id: string;
+    deviceId: string;
+    deviceName: string;
+    file: string | null;
+    /** 'upload' when the backend streamed the file, 'bridge' when UCCNC ran its own. */
+    source: 'upload' | 'bridge';
+    /** Who sent the 'play'; null when the job was started at the machine. */
+    operator: string | null;
+    project: string | null;
+    startedAt: number;
+    /** Null while the job is running or paused. */
+    endedAt: number | null;
+    pauses: number;
+    pausedMs: number;
+    progress: number;
+    linesDone: number | null;
+    linesTotal: number | null;
+    outcome: CncJobOutcome | null;
+    stoppedBy: string | null;
+}
+
+/**
+ * Last known state of a device as kept by the backend and pushed to every
+ * client. Which fields are present depends on the device kind.
+ */
+export interface DeviceState {
+    connection?: ConnectionStatus;
+    power?: 'on' | 'off';
+    r?: number;
+    g?: number;
+    b?: number;
+    status?: CncStatus;
+    alarm?: string | null;
+    gcodeFile?: string | null;
+    programId?: string | null;
+    progress?: number;
+    linesDone?: number | null;
+    linesTotal?: number | null;
+    machinePosition?: CncPosition | null;
+    workPosition?: CncPosition | null;
+    feedOverride?: number | null;
+    spindleOverride?: number | null;
+    feedRate?: number | null;
+    spindleSpeed?: number | null;
+    bridge?: CncBridgeInfo | null;
+    lastError?: string | null;
+    reconnectAt?: number | null;
+    updatedAt: number;
+    updatedBy: string;
+}
+
+/** What a scene sets on one of its lights. */
+export interface SceneLight {
+    deviceId: string;
+    power: LightState['power'];
+    color?: { r: number; g: number; b: number };
+}
+
+export interface Scene {
+    id: string;
+    name: string;
+    lights: SceneLight[];
+}
+
+export type NewScene = Omit<Scene, 'id'>;
+
+export interface SceneLightResult {
+    deviceId: string;
+    name: string;
+    status: 'SUCCESS' | 'ERROR';
+    message?: string;
+}
+
+/** Something the backend does on its own for a rule or schedule; mirrors server/actions.js. */
+export type DeviceAction = { delaySeconds?: number } & (
+    | { type: 'dustCollector'; deviceId: string; power: 'on' | 'off' }
+    | { type: 'light'; deviceId: string; power?: 'on' | 'off'; color?: { r: number; g: number; b: number } }
+    | { type: 'flashLight'; deviceId: string; color: { r: number; g: number; b: number }; times?: number }
+    | { type: 'scene'; sceneId: string }
+    | { type: 'cnc'; deviceId: string; command: 'play' | 'pause' | 'stop' }
+);
+
+export interface ActionResult {
+    status: 'SUCCESS' | 'ERROR' | 'CANCELLED';
+    message?: string;
+}
+
+export interface RuleTrigger {
+    deviceId: string;
+    field: string;
+    to: string;
+    from?: string;
+}
+
+export interface Rule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    trigger: RuleTrigger;
+    actions: DeviceAction[];
+}
+
+export type NewRule = Omit<Rule, 'id'>;
+
+/** What a rule last did, as reported by the backend's rule engine. */
+export interface RuleActivity {
+    lastFiredAt: number;
+    pending: boolean;
+    results: ActionResult[] | null;
+}
+
+/** A cron-style schedule run by the backend (see server/cron.js for the syntax). */
+export interface Schedule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    cron: string;
+    actions: DeviceAction[];
+    /** Next time the schedule runs (ms since epoch), null when disabled. */
+    nextRunAt: number | null;
+}
+
+export type NewSchedule = Omit<Schedule, 'id' | 'nextRunAt'>;
+
+export interface ScheduleRun {
+    id: string;
+    scheduleId: string;
+    name: string;
+    trigger: 'schedule' | 'manual';
+    actor: string;
+    startedAt: number;
+    /** Null while the run still has actions to do. */
+    finishedAt: number | null;
+    results: ActionResult[] | null;
+}
+
+/** One moment of a voice conversation: something said, or a function the model called (see server/voiceSessions.js). */
+export type VoiceTranscriptEntry =
+    | { at: number; speaker: 'user' | 'model'; text: string }
+    | { at: number; speaker: 'tool'; name: string; args: Record<string, unknown>; response: Record<string, unknown> };
+
+/** A saved voice conversation. */
+export interface VoiceSession {
+    id: string;
+    startedBy: string;
+    startedAt: number;
+    /** Null until the conversation is stopped, and for pages closed mid-conversation. */
+    endedAt: number | null;
+    entries: VoiceTranscriptEntry[];
+}
+
+/** A voice session as listed, without its entries. */
+export interface VoiceSessionSummary extends Omit<VoiceSession, 'entries'> {
+    entryCount: number;
+    /** The first thing the user said. */
+    preview: string | null;
+    /** The first entries containing the search, when searching. */
+    matches?: VoiceTranscriptEntry[];
+}
@@ -0,0 +1,496 @@
+// A stand-in for the UCCNC bridge, for working on the CNC card, the voice
+// functions and automations without the machine. It speaks the bridge
+// protocol (server/cncProtocol.js), moves a simulated tool at the programmed
+// feed rates and answers play/pause/stop, streamed lines, jogging, homing,
+// zeroing, feed and spindle overrides, emergency stops and alarm resets like
+// the real bridge would.
+//
+//   node uccnc-simulator.js [--port 8765] [--speed 1] [part.nc]
+//
+// The file, if given, is the one the bridge has "loaded" and plays when the
+// backend has not uploaded one. `--speed 10` runs everything ten times faster.
+// Faults are injected by typing into the terminal; `help` lists the commands.
+
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { createInterface } from 'readline';
+import { parseArgs } from 'util';
+import { WebSocketServer } from 'ws';
+import { parseProgram } from './server/gcode.js';
+import { PROTOCOL_VERSION } from './server/cncProtocol.js';
+
+const { values: options, positionals } = parseArgs({
+    options: {
+        port: { type: 'string', default: '8765' },
+        speed: { type: 'string', default: '1' },
+    },
+    allowPositionals: true,
+});
+const PORT = Number(options.port);
+const SPEED = Number(options.speed);
+if (!Number.isInteger(PORT) || !(SPEED > 0)) {
+    console.error('Usage: node uccnc-simulator.js [--port 8765] [--speed 1] [part.nc]');
+    process.exit(1);
+}
+
+const TICK_MS = 50;
+const STATUS_INTERVAL_MS = 200;
+// Lines the simulated planner holds; streamed lines beyond that wait for their ack.
+const BUFFER_SIZE = 16;
+const RAPID_RATE = 5000;
+const JOG_RATE = 2000;
+const DEFAULT_FEED = 1000;
+const CAPABILITIES = ['stream', 'jog', 'home', 'zero', 'override', 'estop', 'reset'];
+const FAULTS = ['Alarm', 'EStop', 'Error'];
+const AXES = ['x', 'y', 'z'];
+const WORD = /([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/gi;
+
+// --- Machine ---
+
+const machine = {
+    status: 'Idle',
+    // The controller's text while in Alarm, EStop or Error.
+    alarm: null,
+    // Machine coordinates; the work position is `position - offset`.
+    position: { x: -400, y: -300, z: -20 },
+    offset: { x: -400, y: -300, z: -80 },
+    modal: { motion: 0, absolute: true, scale: 1, feed: null, spindle: 0, spindleOn: false },
+    // Percent of the programmed feed and spindle speed.
+    feedOverride: 100,
+    spindleOverride: 100,
+    // The move in progress: { from, to, seconds, elapsed, rate, overridable, setup },
+    // with `seconds` at 100 % feed and `rate` the programmed mm/min (0 for dwells).
+    move: null,
+    // 'file' while playing the loaded file, 'stream' while executing streamed lines.
+    mode: null,
+    file: null,
+    fileIndex: 0,
+    buffer: [],
+    waiting: [],
+    rejectNext: false,
+};
+
+const workPosition = () => Object.fromEntries(AXES.map(axis => [axis, machine.position[axis] - machine.offset[axis]]));
+const round = (position) => Object.fromEntries(AXES.map(axis => [axis, Math.round(position[axis] * 1000) / 1000]));
+const distance = (a, b) => Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+
+function loadFile(path) {
+    const program = parseProgram(basename(path), readFileSync(path, 'utf8'));
+    if (program.error) throw new Error(program.error);
+    machine.file = program;
+    machine.fileIndex = 0;
+    console.log(`Loaded ${program.name} (${program.lines.length} lines).`);
+}
+
+/** Returns an error for a line the simulated controller would refuse, or null. */
+function checkLine(line) {
+    if (line.replace(WORD, '').trim()) return `Unknown word in "${line}"`;
+    return null;
+}
+
+// Plans one line from the current work position: { to, seconds, rate } in
+// work coordinates, or null for lines without motion. Arcs use their true length.
+function planLine(line) {
+    const { modal } = machine;
+    const words = {};
+    const gCodes = [];
+    const mCodes = [];
+    for (const [, letter, value] of line.matchAll(WORD)) {
+        const key = letter.toUpperCase();
+        if (key === 'G') gCodes.push(Number(value));
+        else if (key === 'M') mCodes.push(Number(value));
+        else words[key] = Number(value);
+    }
+    if (words.S !== undefined) modal.spindle = words.S;
+    for (const m of mCodes) {
+        if (m === 3 || m === 4) modal.spindleOn = true;
+        else if (m === 5 || m === 2 || m === 30) modal.spindleOn = false;
+    }
+    let dwell = 0;
+    for (const g of gCodes) {
+        if (g >= 0 && g <= 3) modal.motion = g;
+        else if (g === 90) modal.absolute = true;
+        else if (g === 91) modal.absolute = false;
+        else if (g === 20) modal.scale = 25.4;
+        else if (g === 21) modal.scale = 1;
+        else if (g === 4) dwell = words.P ?? 0;
+    }
+    if (words.F !== undefined) modal.feed = words.F * modal.scale;
+    if (dwell > 0) return { to: workPosition(), seconds: dwell, rate: 0 };
+
+    const from = workPosition();
+    if (!AXES.some(axis => words[axis.toUpperCase()] !== undefined)) return null;
+    const to = { ...from };
+    for (const axis of AXES) {
+        const value = words[axis.toUpperCase()];
+        if (value === undefined) continue;
+        to[axis] = modal.absolute ? value * modal.scale : from[axis] + value * modal.scale;
+    }
+
+    let length = distance(from, to);
+    if (modal.motion === 2 || modal.motion === 3) {
+        const clockwise = modal.motion === 2;
+        let sweep;
+        let radius;
+        if (words.R !== undefined) {
+            radius = Math.abs(words.R * modal.scale);
+            const chord = Math.hypot(to.x - from.x, to.y - from.y);
+            sweep = 2 * Math.asin(Math.min(1, chord / (2 * radius)));
+            if (words.R < 0) sweep = 2 * Math.PI - sweep;
+        } else {
+            const cx = from.x + (words.I ?? 0) * modal.scale;
+            const cy = from.y + (words.J ?? 0) * modal.scale;
+            radius = Math.hypot(from.x - cx, from.y - cy);
+            const start = Math.atan2(from.y - cy, from.x - cx);
+            const end = Math.atan2(to.y - cy, to.x - cx);
+            sweep = clockwise ? start - end : end - start;
+            if (sweep <= 0) sweep += 2 * Math.PI;
+        }
+        length = Math.hypot(sweep * radius, to.z - from.z);
+    }
+    const rate = modal.motion === 0 ? RAPID_RATE : (modal.feed ?? DEFAULT_FEED);
+    return { to, seconds: (length / rate) * 60, rate, overridable: modal.motion !== 0 };
+}
+
+const toMachine = (work) => Object.fromEntries(AXES.map(axis => [axis, work[axis] + machine.offset[axis]]));
+
+// Only feed moves follow the feed override; rapids, dwells and jogs do not.
+function startMove(target, seconds, { rate = 0, overridable = false, setup = false } = {}) {
+    machine.move = { from: { ...machine.position }, to: target, seconds: Math.max(seconds, 0), elapsed: 0, rate, overridable, setup };
+}
+
+// Moves lines from the waiting list into the planner buffer, acknowledging them.
+function refillBuffer() {
+    while (machine.buffer.length < BUFFER_SIZE && machine.waiting.length > 0) {
+        const entry = machine.waiting.shift();
+        machine.buffer.push(entry);
+        send({ type: 'ack', seq: entry.seq });
+    }
+}
+
+// Starts the next line of the file or stream; false when there is none.
+function startNextLine() {
+    let line;
+    if (machine.mode === 'file') {
+        if (machine.fileIndex >= machine.file.lines.length) {
+            console.log(`Finished ${machine.file.name}.`);
+            machine.status = 'Idle';
+            machine.mode = null;
+            return false;
+        }
+        line = machine.file.lines[machine.fileIndex++];
+    } else if (machine.mode === 'stream') {
+        const entry = machine.buffer.shift();
+        refillBuffer();
+        if (!entry) {
+            machine.status = 'Idle';
+            machine.mode = null;
+            return false;
+        }
+        line = entry.line;
+    } else {
+        return false;
+    }
+    const plan = planLine(line);
+    startMove(plan ? toMachine(plan.to) : { ...machine.position }, plan?.seconds ?? 0, plan ?? {});
+    return true;
+}
+
+function tick(dt) {
+    let budget = dt * SPEED;
+    while (budget > 0) {
+        if (!machine.move) {
+            if (machine.status !== 'Running' || !startNextLine()) break;
+        }
+        const { move } = machine;
+        if (machine.status !== 'Running' && !move.setup) break;
+        const factor = move.overridable ? machine.feedOverride / 100 : 1;
+        const step = Math.min(budget * factor, move.seconds - move.elapsed);
+        move.elapsed += step;
+        budget -= step / factor;
+        const t = move.seconds > 0 ? move.elapsed / move.seconds : 1;
+        for (const axis of AXES) machine.position[axis] = move.from[axis] + (move.to[axis] - move.from[axis]) * t;
+        if (move.elapsed >= move.seconds) machine.move = null;
+    }
+}
+
+const isFaulted = () => FAULTS.includes(machine.status);
+
+function fault(status, alarm) {
+    stopEverything();
+    machine.status = status;
+    machine.alarm = alarm;
+    console.log(`${status}: ${alarm}.`);
+}
+
+function stopEverything() {
+    machine.move = null;
+    machine.modal.spindleOn = false;
+    machine.mode = null;
+    machine.buffer = [];
+    machine.waiting = [];
+    machine.fileIndex = 0;
+}
+
+// --- Commands from the backend ---
+
+function handleCommand(message) {
+    const { command, user } = message;
+    const busy = machine.status === 'Running' || machine.status === 'Paused';
+    switch (command) {
+        case 'hello':
+            return;
+        case 'gcode': {
+            const error = isFaulted()
+                ? 'The machine is in alarm.'
+                : machine.rejectNext ? 'Rejected on request (fault injection).' : checkLine(message.line);
+            if (error) {
+                machine.rejectNext = false;
+                send({ type: 'ack', seq: message.seq, error });
+                return;
+            }
+            machine.waiting.push({ seq: message.seq, line: message.line });
+            refillBuffer();
+            if (machine.status === 'Idle') {
+                machine.mode = 'stream';
+                machine.status = 'Running';
+            }
+            return;
+        }
+        case 'play':
+            if (machine.status === 'Paused') {
+                machine.status = 'Running';
+            } else if (machine.status === 'Idle' && machine.file) {
+                machine.mode = 'file';
+                machine.fileIndex = 0;
+                machine.status = 'Running';
+            } else {
+                console.log(`Ignoring play from ${user}: ${isFaulted() ? 'the machine is in alarm' : 'no file is loaded'}.`);
+                return;
+            }
+            break;
+        case 'pause':
+            if (machine.status !== 'Running') return;
+            machine.status = 'Paused';
+            break;
+        case 'stop':
+            stopEverything();
+            // Like UCCNC, Stop does not get the machine out of an alarm or emergency stop.
+            if (machine.status === 'Alarm' || machine.status === 'EStop') break;
+            machine.status = 'Idle';
+            machine.alarm = null;
+            break;
+        case 'estop':
+            fault('EStop', `Emergency stop by ${user ?? 'the backend'}`);
+            break;
+        case 'reset':
+            if (!isFaulted()) return;
+            machine.status = 'Idle';
+            machine.alarm = null;
+            break;
+        case 'jog':
+        case 'home':
+        case 'zero':
+            if (busy || isFaulted() || machine.move) {
+                console.log(`Ignoring ${command} from ${user}: the machine is busy or in alarm.`);
+                return;
+            }
+            if (command === 'jog') {
+                const target = { ...machine.position, [message.axis]: machine.position[message.axis] + message.distance };
+                startMove(target, (Math.abs(message.distance) / JOG_RATE) * 60, { rate: JOG_RATE, setup: true });
+            } else if (command === 'home') {
+                const target = { ...machine.position };
+                for (const axis of message.axes) target[axis] = 0;
+                startMove(target, (distance(machine.position, target) / JOG_RATE) * 60, { rate: JOG_RATE, setup: true });
+            } else {
+                for (const axis of message.axes) machine.offset[axis] = machine.position[axis];
+            }
+            break;
+        case 'override':
+            if (message.feed !== undefined) machine.feedOverride = message.feed;
+            if (message.spindle !== undefined) machine.spindleOverride = message.spindle;
+            console.log(`${user ?? 'Someone'}: feed ${machine.feedOverride} %, spindle ${machine.spindleOverride} %`);
+            pushStatus();
+            return;
+        default:
+            console.log(`Ignoring unknown command ${JSON.stringify(command)}.`);
+            return;
+    }
+    console.log(`${user ?? 'Someone'}: ${command}${message.axis ? ` ${message.axis} ${message.distance}` : ''}${message.axes ? ` ${message.axes.join('')}` : ''} → ${machine.status}`);
+    pushStatus();
+}
+
+// --- Connections ---
+
+const clients = new Set();
+let frozen = false;
+let lastStatus = '';
+
+function send(message) {
+    if (frozen) return;
+    const data = JSON.stringify(message);
+    for (const ws of clients) ws.send(data);
+}
+
+// What the tool is actually moving at, in mm/min; a feed hold stops it.
+function actualFeed() {
+    const { move } = machine;
+    if (!move || (machine.status !== 'Running' && !move.setup)) return 0;
+    return move.overridable ? (move.rate * machine.feedOverride) / 100 : move.rate;
+}
+
+function statusMessage() {
+    const progress = machine.mode === 'file' || (machine.status === 'Idle' && machine.fileIndex > 0)
+        ? Math.floor((machine.fileIndex / machine.file.lines.length) * 1000) / 10
+        : 0;
+    return {
+        type: 'status',
+        status: machine.status,
+        alarm: machine.alarm,
+        gcodeFile: machine.file?.name ?? null,
+        progress,
+        machinePosition: round(machine.position),
+        workPosition: round(workPosition()),
+        feedOverride: machine.feedOverride,
+        spindleOverride: machine.spindleOverride,
+        feedRate: Math.round(actualFeed()),
+        spindleSpeed: machine.modal.spindleOn ? Math.round((machine.modal.spindle * machine.spindleOverride) / 100) : 0,
+    };
+}
+
+// Sends the status when it changed; `force` after a handshake.
+function pushStatus(force = false) {
+    const message = statusMessage();
+    const data = JSON.stringify(message);
+    if (data === lastStatus && !force) return;
+    lastStatus = data;
+    send(message);
+}
+
+let wss = null;
+
+function listen() {
+    // Pongs are answered by hand so that `freeze` can make the bridge look dead.
+    wss = new WebSocketServer({ port: PORT, autoPong: false });
+    wss.on('listening', () => console.log(`UCCNC simulator listening on ws://localhost:${PORT} (speed ×${SPEED}).`));
+    wss.on('connection', (ws, req) => {
+        console.log(`Backend connected from ${req.socket.remoteAddress}.`);
+        ws.on('ping', (data) => {
+            if (!frozen) ws.pong(data);
+        });
+        ws.on('message', (raw) => {
+            if (frozen) return;
+            let message;
+            try {
+                message = JSON.parse(raw.toString());
+            } catch {
+                console.log('Ignoring a message that is not JSON.');
+                return;
+            }
+            if (message.command === 'hello') {
+                clients.add(ws);
+                ws.send(JSON.stringify({ type: 'hello', protocol: PROTOCOL_VERSION, bridge: 'uccnc-simulator', capabilities: CAPABILITIES }));
+                pushStatus(true);
+                return;
+            }
+            handleCommand(message);
+        });
+        ws.on('close', () => {
+            clients.delete(ws);
+            console.log('Backend disconnected.');
+        });
+    });
+    wss.on('error', (error) => console.error('Simulator server error:', error.message));
+}
+
+// --- Fault injection from the terminal ---
+
+const HELP = `Commands:
+  alarm [reason]     put the machine into alarm, e.g. "alarm Limit switch X+"; Reset clears it
+  estop              press the emergency stop button on the machine; Reset clears it
+  error [reason]     report a controller error; Stop or Reset clears it
+  disconnect         drop the backend connection
+  freeze [seconds]   stop answering anything, pings included (default 30)
+  down [seconds]     refuse connections for a while (default 10)
+  reject             reject the next streamed line
+  load <file>        load a G-code file as the bridge's own file
+  status             print the machine state
+  help               show this list`;
+
+const commands = {
+    alarm(...reason) {
+        fault('Alarm', reason.join(' ') || 'Injected alarm');
+        pushStatus();
+    },
+    estop() {
+        fault('EStop', 'Emergency stop button pressed');
+        pushStatus();
+    },
+    error(...reason) {
+        fault('Error', reason.join(' ') || 'Injected error');
+        pushStatus();
+    },
+    disconnect() {
+        for (const ws of clients) ws.terminate();
+    },
+    freeze(seconds = '30') {
+        frozen = true;
+        console.log(`Frozen for ${seconds} s.`);
+        setTimeout(() => {
+            frozen = false;
+            console.log('Answering again.');
+            pushStatus(true);
+        }, Number(seconds) * 1000);
+    },
+    down(seconds = '10') {
+        for (const ws of wss.clients) ws.terminate();
+        wss.close();
+        console.log(`Down for ${seconds} s.`);
+        setTimeout(listen, Number(seconds) * 1000);
+    },
+    reject() {
+        machine.rejectNext = true;
+    },
+    load(path) {
+        if (!path) return console.log('Usage: load <file>');
+        if (machine.status === 'Running' || machine.status === 'Paused') return console.log('Stop the job first.');
+        try {
+            loadFile(path);
+            pushStatus();
+        } catch (error) {
+            console.log(`Could not load ${path}: ${error.message}`);
+        }
+    },
+    status() {
+        console.log(JSON.stringify({ ...statusMessage(), mode: machine.mode, buffered: machine.buffer.length, waiting: machine.waiting.length }));
+    },
+    help() {
+        console.log(HELP);
+    },
+};
+
+if (positionals[0]) {
+    try {
+        loadFile(positionals[0]);
+    } catch (error) {
+        console.error(`Could not load ${positionals[0]}: ${error.message}`);
+        process.exit(1);
+    }
+}
+
+listen();
+let last = Date.now();
+setInterval(() => {
+    const now = Date.now();
+    tick((now - last) / 1000);
+    last = now;
+}, TICK_MS);
+setInterval(() => pushStatus(), STATUS_INTERVAL_MS);
+
+createInterface({ input: process.stdin }).on('line', (input) => {
+    const [name, ...args] = input.trim().split(/\s+/);
+    if (!name) return;
+    const command = commands[name.toLowerCase()];
+    if (!command) return console.log(`Unknown command "${name}". Type "help" for the list.`);
+    command(...args);
+});